@@ -1,9 +1,55 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { GoogleGenAI, Type } from '@google/genai';
-import { EditorSettings, PresetType } from './types';
-import { INITIAL_SETTINGS, PRESETS } from './constants';
-import { processImage } from './services/imageProcessor';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import {
+  AiSettings, AnalysisOptions, ColorGrading, CompareMode, CropRect, CurveChannel, CurvePoint, EditorSettings, ExportSettings, Geometry, Histogram, HistorySource,
+  HslAdjustment, HueBand, LocalMask, MaskPoint, NumericSettingKey, Photo, BuiltInPresetKey, PresetConfig, PresetType, PreviewResult, RasterImage,
+  RetouchSpot, ShortcutAction, SourceImage, Waveform
+} from './types';
+import { FULL_CROP, INITIAL_SETTINGS, PRESETS, SETTING_RANGES } from './constants';
+import { createRenderer, Renderer, RenderCancelledError } from './services/renderClient';
+import { useEditHistory } from './hooks/useEditHistory';
+import HistoryPanel from './components/HistoryPanel';
+import CurveEditor from './components/CurveEditor';
+import ControlSlider from './components/ControlSlider';
+import HslMixerPanel from './components/HslMixerPanel';
+import ColorGradingPanel from './components/ColorGradingPanel';
+import HistogramPanel, { ClippingToggles } from './components/HistogramPanel';
+import MetadataPanel from './components/MetadataPanel';
+import GeometryPanel from './components/GeometryPanel';
+import CropTool from './components/CropTool';
+import MasksPanel from './components/MasksPanel';
+import MaskTool, { BrushOptions } from './components/MaskTool';
+import RetouchPanel from './components/RetouchPanel';
+import RetouchTool, { RetouchOptions } from './components/RetouchTool';
+import Viewport from './components/Viewport';
+import { DetailImage } from './components/PreviewLayer';
+import { useZoomPan } from './hooks/useZoomPan';
+import { usePresetLibrary } from './hooks/usePresetLibrary';
+import PresetLibraryPanel from './components/PresetLibraryPanel';
+import LutPanel from './components/LutPanel';
+import Filmstrip from './components/Filmstrip';
+import BatchPanel, { BatchProgress } from './components/BatchPanel';
+import ExportDialog from './components/ExportDialog';
+import AiSuggestionPanel from './components/AiSuggestionPanel';
+import { useFilmstrip } from './hooks/useFilmstrip';
+import { useProjects } from './hooks/useProjects';
+import { useI18n } from './hooks/useI18n';
+import ProjectPanel from './components/ProjectPanel';
+import RecentProjects from './components/RecentProjects';
+import ShortcutHelp from './components/ShortcutHelp';
+import { paintClipping } from './services/analysis';
+import { aspectRatioValue, createFrameMapper, orientedSize } from './services/geometry';
+import { createMask, maskName } from './services/masks';
+import { spotName } from './services/retouch';
+import { downloadBlob } from './services/download';
+import { decodeImage, encodeThumbnail } from './services/imageProcessor';
+import { readMetadata } from './services/exif';
+import { exportBatch, exportFileName, exportOptionsFor } from './services/export';
+import { loadExportSettings, saveExportSettings } from './services/exportSettings';
+import { lookOf, withLook } from './services/presets';
+import { blendAiSettings, resolveAiProvider, validateAiSettings } from './services/aiLook';
+import { LOCALES } from './services/i18n';
+import { ariaShortcut, isTextEntry, matchShortcut } from './services/shortcuts';
 
 /**
  * REDMI PRO STUDIO - PROFESSIONAL IMAGE EDITOR
@@ -12,148 +58,583 @@ import { processImage } from './services/imageProcessor';
  * Optimizado para: Mobile, Tablet, Desktop
  */
 
-const ControlSlider: React.FC<{
-  label: string;
-  value: number;
-  min: number;
-  max: number;
-  onChange: (val: number) => void;
-}> = ({ label, value, min, max, onChange }) => (
-  <div className="mb-4 sm:mb-6">
-    <div className="flex justify-between text-[10px] sm:text-[11px] text-gray-400 mb-2 uppercase tracking-widest font-medium">
-      <span>{label}</span>
-      <span className="text-orange-500 font-bold">{value}</span>
-    </div>
-    <input
-      type="range"
-      min={min}
-      max={max}
-      value={value}
-      onChange={(e) => onChange(parseInt(e.target.value))}
-      className="w-full h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-orange-500"
-    />
-  </div>
-);
+// Proxy del tamaño de pantalla: suficiente para previsualizar sin procesar 48MP en cada ajuste.
+const previewMaxEdge = () =>
+  Math.min(2560, Math.round(Math.max(window.screen.width, window.screen.height) * (window.devicePixelRatio || 1)));
+
+// El "antes" solo necesita la imagen, sin histograma ni capas de recorte.
+const NO_ANALYSIS: AnalysisOptions = { waveform: false, clipping: false };
+
+const THUMBNAIL_EDGE = 240;
+
+interface AiSuggestion {
+  /** Photo the suggestion was made for. */
+  photoId: number;
+  providerLabel: string;
+  settings: AiSettings;
+  /** Percentage of the way from the current settings to the suggestion. */
+  strength: number;
+}
 
 const App: React.FC = () => {
-  const [settings, setSettings] = useState<EditorSettings>(INITIAL_SETTINGS);
-  const [image, setImage] = useState<HTMLImageElement | null>(null);
-  const [imageName, setImageName] = useState<string>('');
+  const { locale, setLocale, t } = useI18n();
+  const history = useEditHistory(INITIAL_SETTINGS, t.common.original);
+  const presetLibrary = usePresetLibrary();
+  const filmstrip = useFilmstrip();
+  const projects = useProjects();
+  const { settings, commit } = history;
+  const [comparingId, setComparingId] = useState<number | null>(null);
+  const [image, setImage] = useState<SourceImage | null>(null);
   const [isAIAnalyzing, setIsAIAnalyzing] = useState(false);
+  const [aiSuggestion, setAiSuggestion] = useState<AiSuggestion | null>(null);
   const [toast, setToast] = useState<string | null>(null);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null);
+  const [exportTarget, setExportTarget] = useState<'single' | 'batch' | null>(null);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(loadExportSettings);
+  const [clipboard, setClipboard] = useState<Partial<EditorSettings> | null>(null);
+  const [histogram, setHistogram] = useState<Histogram | null>(null);
+  const [waveform, setWaveform] = useState<Waveform | null>(null);
+  const [showParade, setShowParade] = useState(false);
+  const [clipping, setClipping] = useState<ClippingToggles>({ highlights: false, shadows: false });
+  const [cropMode, setCropMode] = useState(false);
+  const [previewSize, setPreviewSize] = useState<{ width: number; height: number } | null>(null);
+  const [selectedMaskId, setSelectedMaskId] = useState<number | null>(null);
+  const [brush, setBrush] = useState<BrushOptions>({ size: 0.05, feather: 0.5, erase: false });
+  const [retouchMode, setRetouchMode] = useState(false);
+  const [selectedSpotId, setSelectedSpotId] = useState<number | null>(null);
+  const [pendingSpot, setPendingSpot] = useState<MaskPoint[] | null>(null);
+  const [retouch, setRetouch] = useState<RetouchOptions>({ mode: 'heal', size: 0.02, feather: 0.5, opacity: 100 });
+  const [compareMode, setCompareMode] = useState<CompareMode>('off');
+  const [split, setSplit] = useState(0.5);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [afterImage, setAfterImage] = useState<RasterImage | null>(null);
+  const [afterDetail, setAfterDetail] = useState<DetailImage | null>(null);
+  const [beforeImage, setBeforeImage] = useState<RasterImage | null>(null);
+  const [beforeDetail, setBeforeDetail] = useState<DetailImage | null>(null);
   
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const controlsRef = useRef<HTMLElement>(null);
+  const rendererRef = useRef<Renderer | null>(null);
+
+  useEffect(() => {
+    const renderer = createRenderer();
+    rendererRef.current = renderer;
+    return () => {
+      renderer.dispose();
+      rendererRef.current = null;
+    };
+  }, []);
 
   const showToast = useCallback((msg: string) => {
     setToast(msg);
     setTimeout(() => setToast(null), 3000);
   }, []);
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const img = new Image();
-        img.onload = () => {
-          setImage(img);
-          setImageName(file.name);
-          setSettings(INITIAL_SETTINGS);
-          showToast(`Proyecto iniciado`);
-        };
-        img.src = event.target?.result as string;
-      };
-      reader.readAsDataURL(file);
+  // Pasa a editar otra foto de la tira; su ajuste sustituye al historial actual
+  const activatePhoto = async (photo: Photo, decoded?: ImageBitmap) => {
+    if (!rendererRef.current) return;
+    try {
+      const bitmap = decoded ?? await decodeImage(photo.file);
+      rendererRef.current.load(bitmap, previewMaxEdge());
+      setImage({ file: photo.file, width: photo.width, height: photo.height });
+      filmstrip.activate(photo.id);
+      history.reset(photo.settings, { source: 'load', label: photo.name });
+      setComparingId(null);
+      setAiSuggestion(null);
+      setCropMode(false);
+      setSelectedMaskId(null);
+      setRetouchMode(false);
+      setSelectedSpotId(null);
+      setPendingSpot(null);
+      setAfterImage(null);
+      setBeforeImage(null);
+      zoomPan.setZoom(null);
+    } catch {
+      showToast(t.toasts.unsupportedFormat);
+    }
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []) as File[];
+    e.target.value = '';
+    if (files.length === 0 || !rendererRef.current) return;
+    const items: Omit<Photo, 'id'>[] = [];
+    let first: ImageBitmap | null = null;
+    for (const file of files) {
+      try {
+        const bitmap = await decodeImage(file);
+        const thumbnail = URL.createObjectURL(await encodeThumbnail(bitmap, THUMBNAIL_EDGE));
+        const metadata = await readMetadata(file);
+        items.push({ file, name: file.name, width: bitmap.width, height: bitmap.height, thumbnail, metadata, settings: INITIAL_SETTINGS });
+        if (first) bitmap.close();
+        else first = bitmap;
+      } catch {
+        // Se informa abajo junto con el resto
+      }
+    }
+    const failed = files.length - items.length;
+    if (items.length === 0) {
+      showToast(t.toasts.unsupportedFormat);
+      return;
+    }
+    const [photo] = filmstrip.add(items);
+    await activatePhoto(photo, first!);
+    showToast(items.length === 1 && failed === 0 ? t.toasts.projectStarted : t.toasts.photosAdded(items.length, failed));
+  };
+
+  // Abre un proyecto guardado desde la pantalla vacía, con su historial si lo tiene
+  const openProject = async (id: string) => {
+    try {
+      const restored = await projects.open(id);
+      const added = filmstrip.add(restored.photos);
+      await activatePhoto(added[restored.activeIndex]);
+      if (restored.history) history.restore(restored.history.entries, restored.history.index, restored.history.snapshots);
+      showToast(t.toasts.projectRestored);
+    } catch {
+      showToast(t.toasts.projectOpenFailed);
+    }
+  };
+
+  const closeProject = async () => {
+    await projects.close();
+    filmstrip.clear();
+    setImage(null);
+    history.reset(INITIAL_SETTINGS, { source: 'load', label: t.common.original });
+  };
+
+  const deleteProject = (id: string) => {
+    projects.remove(id).catch(() => showToast(t.toasts.projectDeleteFailed));
+  };
+
+  const removePhoto = (id: number) => {
+    const index = filmstrip.photos.findIndex(p => p.id === id);
+    filmstrip.remove(id);
+    if (id !== filmstrip.activeId) return;
+    const next = filmstrip.photos[index + 1] ?? filmstrip.photos[index - 1];
+    if (next) {
+      activatePhoto(next);
+      return;
     }
+    filmstrip.activate(null);
+    setImage(null);
+    history.reset(INITIAL_SETTINGS, { source: 'load', label: t.common.original });
   };
 
+  // Fotos que exporta el lote: la selección, o todas si no hay ninguna seleccionada
+  const batchPhotos = filmstrip.selectedIds.length > 0
+    ? filmstrip.photos.filter(p => filmstrip.selectedIds.includes(p.id))
+    : filmstrip.photos;
+
+  // Cada botón de exportar abre el diálogo, o cancela su propia exportación en curso
   const handleDownload = () => {
-    if (!canvasRef.current || !image) return;
-    const link = document.createElement('a');
-    link.download = `redmi_master_${Date.now()}.jpg`;
-    link.href = canvasRef.current.toDataURL('image/jpeg', 0.95);
-    link.click();
-    showToast('Exportación finalizada');
+    if (!image || batchProgress !== null) return;
+    if (exportProgress !== null) rendererRef.current?.cancelExport();
+    else setExportTarget('single');
+  };
+
+  const handleBatchDownload = () => {
+    if (exportProgress !== null) return;
+    if (batchProgress !== null) rendererRef.current?.cancelExport();
+    else setExportTarget('batch');
+  };
+
+  const exportActive = async () => {
+    const renderer = rendererRef.current;
+    if (!renderer || !image) return;
+    setExportProgress(0);
+    try {
+      const blob = await renderer.exportImage(image.file, settings, {
+        ...exportOptionsFor(exportSettings, filmstrip.active?.metadata ?? null),
+        onProgress: setExportProgress
+      });
+      downloadBlob(blob, exportFileName(exportSettings, filmstrip.active?.name ?? t.app.defaultPhotoName));
+      showToast(t.toasts.exportDone);
+    } catch (error) {
+      showToast(error instanceof RenderCancelledError ? t.toasts.exportCancelled : t.toasts.exportFailed);
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  const exportSelection = async () => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    const photos = batchPhotos;
+    setBatchProgress({ fraction: 0, done: 0, total: photos.length });
+    try {
+      const zip = await exportBatch(renderer, photos, exportSettings, (fraction, done) =>
+        setBatchProgress({ fraction, done, total: photos.length })
+      );
+      downloadBlob(zip, t.app.batchArchive(Date.now()));
+      showToast(t.toasts.batchExported(photos.length));
+    } catch (error) {
+      showToast(error instanceof RenderCancelledError ? t.toasts.exportCancelled : t.toasts.exportFailed);
+    } finally {
+      setBatchProgress(null);
+    }
+  };
+
+  const closeExportDialog = useCallback(() => setExportTarget(null), []);
+
+  const runExport = () => {
+    const target = exportTarget;
+    setExportTarget(null);
+    if (target === 'batch') exportSelection();
+    else if (target === 'single') exportActive();
+  };
+
+  const setSetting = (key: keyof EditorSettings) => (value: number) =>
+    commit(s => ({ ...s, [key]: value }), { source: 'slider', label: t.settings[key], mergeKey: key });
+
+  // Deslizador de un ajuste global: rango de SETTING_RANGES y doble clic para volver al valor inicial
+  const settingSlider = (key: NumericSettingKey, step?: number) => (
+    <ControlSlider
+      label={t.settings[key]}
+      value={settings[key]}
+      min={SETTING_RANGES[key].min}
+      max={SETTING_RANGES[key].max}
+      step={step}
+      defaultValue={INITIAL_SETTINGS[key]}
+      onChange={setSetting(key)}
+      onCommit={history.seal}
+    />
+  );
+
+  const setCurve = (channel: CurveChannel, points: CurvePoint[]) =>
+    commit(s => ({ ...s, curves: { ...s.curves, [channel]: points } }), {
+      source: 'slider',
+      label: `${t.settings.curves} ${channel === 'master' ? 'RGB' : channel.charAt(0).toUpperCase()}`,
+      mergeKey: `curves:${channel}`
+    });
+
+  const setHsl = (band: HueBand, key: keyof HslAdjustment, value: number, label: string) =>
+    commit(s => ({ ...s, hsl: { ...s.hsl, [band]: { ...s.hsl[band], [key]: value } } }), {
+      source: 'slider',
+      label,
+      mergeKey: `hsl:${band}:${key}`
+    });
+
+  const setGrading = (patch: Partial<ColorGrading>, label: string, mergeKey: string) =>
+    commit(s => ({ ...s, grading: { ...s.grading, ...patch } }), { source: 'slider', label, mergeKey });
+
+  const newGrainSeed = () =>
+    commit(s => ({ ...s, grainSeed: Math.floor(Math.random() * 10000) }), { source: 'slider', label: t.settings.grainSeed });
+
+  const setLut = (patch: Partial<EditorSettings>, label: string, mergeKey?: string) =>
+    commit(s => ({ ...s, ...patch }), { source: 'lut', label, mergeKey });
+
+  const setGeometry = (geometry: Geometry, label: string, mergeKey?: string) =>
+    commit(s => ({ ...s, geometry }), { source: 'geometry', label, mergeKey });
+
+  const setCrop = (crop: CropRect) =>
+    commit(s => ({ ...s, geometry: { ...s.geometry, crop } }), { source: 'geometry', label: t.history.crop, mergeKey: 'geometry:crop' });
+
+  const addMask = (kind: LocalMask['kind']) => {
+    if (!image) return;
+    const mask = createMask(kind, settings.masks, image.width, image.height, t.masks.kinds[kind]);
+    commit(s => ({ ...s, masks: [...s.masks, mask] }), { source: 'mask', label: `+ ${mask.name}` });
+    setSelectedMaskId(mask.id);
+    setCropMode(false);
+    setRetouchMode(false);
+  };
+
+  const updateMask = (mask: LocalMask, label: string, mergeKey?: string) =>
+    commit(s => ({ ...s, masks: s.masks.map(m => (m.id === mask.id ? mask : m)) }), { source: 'mask', label, mergeKey });
+
+  const removeMask = (id: number) => {
+    const mask = settings.masks.find(m => m.id === id);
+    commit(s => ({ ...s, masks: s.masks.filter(m => m.id !== id) }), { source: 'mask', label: `− ${mask ? maskName(mask, settings.masks, t.masks.kinds) : ''}` });
+    if (selectedMaskId === id) setSelectedMaskId(null);
+  };
+
+  const toggleRetouchMode = () => {
+    setRetouchMode(v => !v);
+    setCropMode(false);
+    setSelectedMaskId(null);
+  };
+
+  // El origen se elige en el worker sobre el proxy; mientras tanto la mancha queda pendiente
+  const addSpot = (points: MaskPoint[]) => {
+    const renderer = rendererRef.current;
+    if (!renderer || pendingSpot) return;
+    const id = settings.spots.reduce((max, s) => Math.max(max, s.id), 0) + 1;
+    const { mode, size, feather, opacity } = retouch;
+    setPendingSpot(points);
+    renderer.findSpotSource({ points, size })
+      .then(offset => {
+        const spot: RetouchSpot = { id, mode, points, size, feather, opacity, offset };
+        commit(s => ({ ...s, spots: [...s.spots, spot] }), { source: 'retouch', label: `+ ${spotName(spot, [...settings.spots, spot], t.retouch.modes)}` });
+        setSelectedSpotId(id);
+      })
+      .catch(() => showToast(t.toasts.retouchFailed))
+      .finally(() => setPendingSpot(null));
+  };
+
+  const updateSpot = (spot: RetouchSpot, label: string, mergeKey?: string) =>
+    commit(s => ({ ...s, spots: s.spots.map(x => (x.id === spot.id ? spot : x)) }), { source: 'retouch', label, mergeKey });
+
+  const removeSpot = (id: number) => {
+    const spot = settings.spots.find(s => s.id === id);
+    commit(s => ({ ...s, spots: s.spots.filter(x => x.id !== id) }), {
+      source: 'retouch',
+      label: `− ${spot ? spotName(spot, settings.spots, t.retouch.modes) : ''}`
+    });
+    if (selectedSpotId === id) setSelectedSpotId(null);
   };
 
   const applyPreset = (type: PresetType) => {
     if (type === 'reset') {
-      setSettings(INITIAL_SETTINGS);
-      showToast('Ajustes de fábrica');
+      commit(INITIAL_SETTINGS, { source: 'reset', label: t.app.resetAll });
+      showToast(t.toasts.factoryReset);
       return;
     }
-    const preset = PRESETS[type];
-    if (preset) {
-      setSettings({ ...INITIAL_SETTINGS, ...preset.settings });
-      showToast(`${preset.name} activo`);
-    }
+    const { icon, color, settings: look } = PRESETS[type];
+    applyPresetConfig({ name: `${icon} ${t.presets[type]}`, color, settings: look });
+  };
+
+  // Un look sustituye el ajuste de la foto activa y de las seleccionadas, sin tocar recorte ni máscaras.
+  // Devuelve cuántas fotos además de la activa lo recibieron.
+  const applyLook = (look: Partial<EditorSettings>, label: string, source: HistorySource) => {
+    const others = filmstrip.selectedIds.filter(id => id !== filmstrip.activeId);
+    commit(s => withLook(s, look), { source, label });
+    filmstrip.applyLook(others, look);
+    return others.length;
+  };
+
+  const applyPresetConfig = (preset: PresetConfig) => {
+    const others = applyLook(preset.settings, preset.name, 'preset');
+    showToast(t.toasts.presetApplied(preset.name, others + 1));
   };
 
+  const copySettings = () => {
+    setClipboard(lookOf(settings));
+    showToast(t.toasts.settingsCopied);
+  };
+
+  const pasteSettings = () => {
+    if (!clipboard) return;
+    const others = applyLook(clipboard, t.history.pasteSettings, 'sync');
+    showToast(t.toasts.settingsPasted(others + 1));
+  };
+
+  const syncSettings = () => {
+    const others = filmstrip.selectedIds.filter(id => id !== filmstrip.activeId);
+    filmstrip.applyLook(others, lookOf(settings));
+    showToast(t.toasts.settingsSynced(others.length));
+  };
+
+  // Masterpiece AI analiza el original encuadrado; la propuesta se previsualiza antes de aplicarla
   const analyzeWithAI = async () => {
-    if (!image || !canvasRef.current) return;
+    const photoId = filmstrip.activeId;
+    if (!image || !beforeImage || photoId === null) return;
     setIsAIAnalyzing(true);
-    showToast('IA Analizando Escena...');
-    
-    try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const base64Data = canvasRef.current.toDataURL('image/jpeg', 0.4).split(',')[1];
-      
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: {
-          parts: [
-            { text: "Analiza la colorimetría de esta foto y devuelve un JSON profesional con: exposure, contrast, shadows, highlights, whites, temp, tint, saturation, vibrance, sharpness, clarity, vignette (-100 a 100)." },
-            { inlineData: { mimeType: 'image/jpeg', data: base64Data } }
-          ]
-        },
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              exposure: { type: Type.INTEGER },
-              contrast: { type: Type.INTEGER },
-              shadows: { type: Type.INTEGER },
-              highlights: { type: Type.INTEGER },
-              whites: { type: Type.INTEGER },
-              temp: { type: Type.INTEGER },
-              tint: { type: Type.INTEGER },
-              saturation: { type: Type.INTEGER },
-              vibrance: { type: Type.INTEGER },
-              sharpness: { type: Type.INTEGER },
-              clarity: { type: Type.INTEGER },
-              vignette: { type: Type.INTEGER }
-            }
-          }
-        }
-      });
+    showToast(t.toasts.aiAnalyzing);
 
-      const rawText = response.text;
-      if (rawText) {
-        const cleanJson = rawText.replace(/```json/g, '').replace(/```/g, '').trim();
-        const aiSettings = JSON.parse(cleanJson);
-        setSettings(aiSettings);
-        showToast('Look IA Aplicado');
-      }
-    } catch (error) {
-      showToast('Error IA: Verifica tu conexión');
+    try {
+      const provider = resolveAiProvider();
+      const suggestion = validateAiSettings(await provider.suggest(beforeImage, locale));
+      setAiSuggestion({ photoId, providerLabel: t.ai.providers[provider.id] ?? provider.label, settings: suggestion, strength: 100 });
+      showToast(t.toasts.aiReady);
+    } catch {
+      showToast(t.toasts.aiFailed);
     } finally {
       setIsAIAnalyzing(false);
     }
   };
 
+  const applyAiSuggestion = () => {
+    if (!aiPreview) return;
+    const { settings: suggestion, strength } = aiPreview;
+    commit(s => blendAiSettings(s, suggestion, strength / 100), {
+      source: 'ai',
+      label: t.history.ai(strength)
+    });
+    setAiSuggestion(null);
+    showToast(t.toasts.aiApplied);
+  };
+
   useEffect(() => {
-    if (image && canvasRef.current) {
-      const canvas = canvasRef.current;
-      const ctx = canvas.getContext('2d', { willReadFrequently: true });
-      if (ctx) {
-        canvas.width = image.width;
-        canvas.height = image.height;
-        processImage(ctx, image, settings);
+    try {
+      saveExportSettings(exportSettings);
+    } catch {
+      // Sin almacenamiento local la exportación sigue funcionando con los valores actuales
+    }
+  }, [exportSettings]);
+
+  // La foto activa guarda siempre su ajuste actual, para la tira y la exportación por lotes
+  useEffect(() => {
+    if (filmstrip.activeId !== null) filmstrip.updateSettings(filmstrip.activeId, settings);
+  }, [settings, filmstrip.activeId, filmstrip.updateSettings]);
+
+  // Autoguardado del proyecto: fotos, ajustes y el historial de la foto activa
+  const { schedule } = projects;
+  useEffect(() => {
+    schedule({
+      photos: filmstrip.photos,
+      activeId: filmstrip.activeId,
+      entries: history.entries,
+      index: history.index,
+      snapshots: history.snapshots
+    });
+  }, [schedule, filmstrip.photos, filmstrip.activeId, history.entries, history.index, history.snapshots]);
+
+  // Lleva el foco al deslizador siguiente (o anterior) del panel lateral, en el orden en que aparecen
+  const focusSlider = (offset: number) => {
+    const sliders = Array.from<HTMLInputElement>(controlsRef.current?.querySelectorAll<HTMLInputElement>('input[type="range"]:not(:disabled)') ?? []);
+    if (sliders.length === 0) return;
+    const current = sliders.indexOf(document.activeElement as HTMLInputElement);
+    const next = current === -1 ? (offset > 0 ? 0 : sliders.length - 1) : (current + offset + sliders.length) % sliders.length;
+    sliders[next].focus();
+    sliders[next].scrollIntoView({ block: 'nearest' });
+  };
+
+  const runShortcut = (action: ShortcutAction, index: number) => {
+    switch (action) {
+      case 'nextSlider': return focusSlider(1);
+      case 'previousSlider': return focusSlider(-1);
+      case 'toggleCompare': return setCompareMode(mode => (mode === 'off' ? 'split' : 'off'));
+      case 'applyPreset': {
+        const key = (Object.keys(PRESETS) as BuiltInPresetKey[])[index];
+        if (image && key) applyPreset(key);
+        return;
       }
+      case 'undo': return history.undo();
+      case 'redo': return history.redo();
+      case 'export': return handleDownload();
+      case 'help': return setShowShortcuts(v => !v);
+    }
+  };
+
+  // Atajos de teclado (mapa en SHORTCUTS). La referencia se renueva en cada render para usar el estado actual
+  const runShortcutRef = useRef(runShortcut);
+  runShortcutRef.current = runShortcut;
+  const modalOpen = exportTarget !== null || showShortcuts;
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const shortcut = matchShortcut(e);
+      // "\" se mantiene pulsado y tiene su propio manejador; con un diálogo abierto solo vale la ayuda
+      if (!shortcut || shortcut.action === 'holdOriginal' || isTextEntry(e.target)) return;
+      if (modalOpen && shortcut.action !== 'help') return;
+      if (e.repeat && !['nextSlider', 'previousSlider', 'undo', 'redo'].includes(shortcut.action)) return;
+      e.preventDefault();
+      runShortcutRef.current(shortcut.action, shortcut.index);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [modalOpen]);
+
+  const closeShortcuts = useCallback(() => setShowShortcuts(false), []);
+
+  const comparedSnapshot = history.snapshots.find(s => s.id === comparingId);
+  // La propuesta de la IA solo vale para la foto que se analizó
+  const aiPreview = aiSuggestion && aiSuggestion.photoId === filmstrip.activeId ? aiSuggestion : null;
+  const editSettings = useMemo(
+    () => (aiPreview ? blendAiSettings(settings, aiPreview.settings, aiPreview.strength / 100) : settings),
+    [settings, aiPreview]
+  );
+  const baseSettings = comparedSnapshot ? comparedSnapshot.settings : editSettings;
+  // En modo recorte se muestra el encuadre completo (rotado y enderezado) bajo la herramienta
+  const renderSettings = useMemo(
+    () => (cropMode ? { ...baseSettings, geometry: { ...baseSettings.geometry, crop: FULL_CROP } } : baseSettings),
+    [baseSettings, cropMode]
+  );
+  const frameSize = image ? orientedSize(image.width, image.height, settings.geometry.rotation) : null;
+  const selectedMask = settings.masks.find(m => m.id === selectedMaskId);
+  // El "antes" comparte el encuadre para que ambas vistas coincidan píxel a píxel
+  const beforeSettings = useMemo(() => ({ ...INITIAL_SETTINGS, geometry: renderSettings.geometry }), [renderSettings.geometry]);
+  const fullFrameWidth = useMemo(
+    () => (image ? createFrameMapper(renderSettings.geometry, image.width, image.height).width : 1),
+    [image, renderSettings.geometry]
+  );
+
+  const zoomPan = useZoomPan(viewportRef, {
+    frame: previewSize,
+    frameWidth: fullFrameWidth,
+    columns: compareMode === 'side' ? 2 : 1,
+    panEnabled: !cropMode && !selectedMask && !retouchMode
+  });
+  const { region } = zoomPan;
+  const showBefore = compareMode !== 'off' || showOriginal;
+  // Con zoom se renderiza solo la zona visible, a resolución completa como máximo
+  const detailRegion = useMemo(
+    () => (region && zoomPan.zoom !== null ? { area: region, scale: Math.min(1, zoomPan.zoom) } : null),
+    [region, zoomPan.zoom]
+  );
+
+  const withClipping = useCallback(
+    (result: PreviewResult) => (result.clipping ? paintClipping(result.image, result.clipping, clipping) : result.image),
+    [clipping]
+  );
+
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!image || !renderer) return;
+    const analysis = { waveform: showParade, clipping: clipping.highlights || clipping.shadows };
+    let active = true;
+    renderer.preview(renderSettings, analysis).then(result => {
+      if (!active || !result) return;
+      setAfterImage(withClipping(result));
+      setPreviewSize({ width: result.image.width, height: result.image.height });
+      setHistogram(result.histogram);
+      setWaveform(result.waveform ?? null);
+    }).catch(() => showToast(t.toasts.renderFailed));
+    return () => { active = false; };
+  }, [image, renderSettings, showParade, clipping, withClipping, showToast, t]);
+
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!image || !renderer || !detailRegion) {
+      setAfterDetail(null);
+      return;
     }
-  }, [image, settings]);
+    const analysis = { waveform: false, clipping: clipping.highlights || clipping.shadows };
+    let active = true;
+    renderer.preview(renderSettings, analysis, { channel: 'detail', region: detailRegion }).then(result => {
+      if (active && result) setAfterDetail({ image: withClipping(result), region: result.region! });
+    }).catch(() => showToast(t.toasts.renderFailed));
+    return () => { active = false; };
+  }, [image, renderSettings, detailRegion, clipping, withClipping, showToast, t]);
+
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!image || !renderer) return;
+    let active = true;
+    renderer.preview(beforeSettings, NO_ANALYSIS, { channel: 'before' }).then(result => {
+      if (active && result) setBeforeImage(result.image);
+    }).catch(() => showToast(t.toasts.renderFailed));
+    return () => { active = false; };
+  }, [image, beforeSettings, showToast, t]);
+
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!image || !renderer || !detailRegion || !showBefore) {
+      setBeforeDetail(null);
+      return;
+    }
+    let active = true;
+    renderer.preview(beforeSettings, NO_ANALYSIS, { channel: 'before-detail', region: detailRegion }).then(result => {
+      if (active && result) setBeforeDetail({ image: result.image, region: result.region! });
+    }).catch(() => showToast(t.toasts.renderFailed));
+    return () => { active = false; };
+  }, [image, beforeSettings, detailRegion, showBefore, showToast, t]);
+
+  // Mantener "\" muestra el original, como el botón de la barra del visor
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (matchShortcut(e)?.action !== 'holdOriginal' || isTextEntry(e.target)) return;
+      setShowOriginal(e.type === 'keydown');
+    };
+    window.addEventListener('keydown', onKey);
+    window.addEventListener('keyup', onKey);
+    return () => {
+      window.removeEventListener('keydown', onKey);
+      window.removeEventListener('keyup', onKey);
+    };
+  }, []);
 
   return (
     <div className="flex flex-col h-[100dvh] bg-[#0a0a0a] overflow-hidden text-gray-200">
@@ -170,39 +651,154 @@ const App: React.FC = () => {
           </h1>
         </div>
         
-        <button 
-          onClick={() => fileInputRef.current?.click()}
-          className="px-4 sm:px-6 py-2 bg-[#2a2a2a] hover:bg-orange-600 text-white text-[9px] sm:text-[10px] font-black rounded-full transition-all active:scale-95 uppercase tracking-widest border border-[#333]"
-        >
-          {image ? 'Cambiar Foto' : 'Abrir Foto'}
-        </button>
-        <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept="image/*" className="hidden" />
+        <div className="flex items-center gap-2 sm:gap-3">
+          {/* Selector de idioma: cada opción se muestra con su nombre en su propio idioma */}
+          <div role="group" aria-label={t.app.language} className="flex p-0.5 bg-[#1a1a1a] border border-[#2a2a2a] rounded-full">
+            {LOCALES.map(({ key, name }) => (
+              <button
+                key={key}
+                lang={key}
+                title={name}
+                aria-pressed={locale === key}
+                onClick={() => setLocale(key)}
+                className={`px-2 sm:px-2.5 py-1 text-[8px] sm:text-[9px] font-black uppercase rounded-full transition-all
+                  ${locale === key ? 'bg-orange-600 text-white' : 'text-gray-500 hover:text-white'}`}
+              >
+                {key}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => setShowShortcuts(true)}
+            title={t.shortcuts.title}
+            aria-label={t.shortcuts.title}
+            aria-keyshortcuts={ariaShortcut('help')}
+            className="w-7 h-7 sm:w-8 sm:h-8 grid place-items-center text-[10px] sm:text-[11px] font-black text-gray-500 hover:text-white bg-[#1a1a1a] border border-[#2a2a2a] rounded-full transition-all"
+          >
+            ?
+          </button>
+          <button 
+            onClick={() => fileInputRef.current?.click()}
+            className="px-4 sm:px-6 py-2 bg-[#2a2a2a] hover:bg-orange-600 text-white text-[9px] sm:text-[10px] font-black rounded-full transition-all active:scale-95 uppercase tracking-widest border border-[#333]"
+          >
+            {image ? t.app.addPhotos : t.app.openPhotos}
+          </button>
+        </div>
+        <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept="image/*" multiple className="hidden" />
       </header>
 
       {/* MAIN: Contenedor flexible que cambia entre columna (móvil) y fila (escritorio) */}
       <main className="flex flex-col md:flex-row flex-1 min-h-0 overflow-hidden">
         
-        {/* VIEWPORT: El canvas se adapta al espacio disponible */}
-        <div className="flex-[1] md:flex-[1.4] bg-[#050505] flex items-center justify-center p-4 sm:p-8 relative min-h-[35vh] md:min-h-0 overflow-hidden">
-          {!image && (
-            <div className="text-center opacity-20 flex flex-col items-center gap-4 animate-pulse">
-              <svg className="w-16 h-16 sm:w-24 sm:h-24" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={0.5} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-              </svg>
-              <p className="text-[9px] sm:text-[11px] uppercase tracking-[0.4em] font-light">Esperando entrada de imagen</p>
-            </div>
-          )}
-          <div className="relative w-full h-full flex items-center justify-center">
-             <canvas 
-               ref={canvasRef} 
-               className={`transition-all duration-700 ${image ? 'opacity-100 scale-100' : 'opacity-0 scale-90'}`}
-             />
+        {/* VIEWPORT: El canvas se adapta al espacio disponible, con la tira de fotos debajo */}
+        <div className="flex-[1] md:flex-[1.4] flex flex-col min-h-[35vh] md:min-h-0 min-w-0">
+          <div className="flex-1 bg-[#050505] flex items-center justify-center p-4 sm:p-8 relative min-h-0 overflow-hidden">
+            {!image && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center gap-8 p-4 z-10">
+                <div className="text-center opacity-20 flex flex-col items-center gap-4 animate-pulse">
+                  <svg className="w-16 h-16 sm:w-24 sm:h-24" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={0.5} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                  </svg>
+                  <p className="text-[9px] sm:text-[11px] uppercase tracking-[0.4em] font-light">{t.app.waiting}</p>
+                </div>
+                <RecentProjects projects={projects.projects} onOpen={openProject} onDelete={deleteProject} />
+              </div>
+            )}
+            <Viewport
+              containerRef={viewportRef}
+              zoomPan={zoomPan}
+              compareMode={compareMode}
+              onCompareModeChange={setCompareMode}
+              split={split}
+              onSplitChange={setSplit}
+              showOriginal={showOriginal}
+              onShowOriginalChange={setShowOriginal}
+              after={image ? afterImage : null}
+              afterDetail={afterDetail}
+              before={beforeImage}
+              beforeDetail={beforeDetail}
+              canvasRef={canvasRef}
+              tools={image && previewSize && (cropMode && frameSize ? (
+                <CropTool
+                  width={previewSize.width}
+                  height={previewSize.height}
+                  crop={settings.geometry.crop}
+                  ratio={aspectRatioValue(settings.geometry, frameSize.width, frameSize.height)}
+                  straighten={settings.geometry.straighten}
+                  onChange={setCrop}
+                  onCommit={history.seal}
+                />
+              ) : selectedMask ? (
+                <MaskTool
+                  width={previewSize.width}
+                  height={previewSize.height}
+                  geometry={renderSettings.geometry}
+                  imageWidth={image.width}
+                  imageHeight={image.height}
+                  mask={selectedMask}
+                  brush={brush}
+                  onChange={(mask, mergeKey) => updateMask(mask, maskName(mask, settings.masks, t.masks.kinds), mergeKey)}
+                  onCommit={history.seal}
+                />
+              ) : retouchMode ? (
+                <RetouchTool
+                  width={previewSize.width}
+                  height={previewSize.height}
+                  geometry={renderSettings.geometry}
+                  imageWidth={image.width}
+                  imageHeight={image.height}
+                  spots={settings.spots}
+                  selectedId={selectedSpotId}
+                  pending={pendingSpot}
+                  options={retouch}
+                  onSelect={setSelectedSpotId}
+                  onAdd={addSpot}
+                  onChange={(spot, mergeKey) => updateSpot(spot, `${spotName(spot, settings.spots, t.retouch.modes)} · ${t.retouch.source}`, mergeKey)}
+                  onCommit={history.seal}
+                />
+              ) : null)}
+            />
           </div>
+          {filmstrip.photos.length > 0 && (
+            <Filmstrip
+              filmstrip={filmstrip}
+              onActivate={id => {
+                const photo = filmstrip.photos.find(p => p.id === id);
+                if (photo) activatePhoto(photo);
+              }}
+              onRemove={removePhoto}
+              onAdd={() => fileInputRef.current?.click()}
+            />
+          )}
         </div>
 
         {/* CONTROLES: Barra lateral con scroll independiente */}
-        <aside className="w-full md:w-[380px] lg:w-[420px] bg-[#121212] border-t md:border-t-0 md:border-l border-[#2a2a2a] flex flex-col h-[50vh] md:h-full overflow-y-auto p-5 sm:p-8 custom-scrollbar z-20 shrink-0">
+        <aside ref={controlsRef} aria-label={t.app.controls} className="w-full md:w-[380px] lg:w-[420px] bg-[#121212] border-t md:border-t-0 md:border-l border-[#2a2a2a] flex flex-col h-[50vh] md:h-full overflow-y-auto p-5 sm:p-8 custom-scrollbar z-20 shrink-0">
           
+          {image && (
+            <HistogramPanel
+              histogram={histogram}
+              waveform={waveform}
+              showParade={showParade}
+              onToggleParade={() => setShowParade(v => !v)}
+              clipping={clipping}
+              onToggleClipping={key => setClipping(c => ({ ...c, [key]: !c[key] }))}
+            />
+          )}
+
+          {filmstrip.active && <MetadataPanel metadata={filmstrip.active.metadata} />}
+
+          {filmstrip.active && (
+            <ProjectPanel
+              photo={filmstrip.active}
+              settings={settings}
+              savedAt={projects.savedAt}
+              onImport={(imported, label) => commit(imported, { source: 'import', label })}
+              onClose={closeProject}
+              onNotify={showToast}
+            />
+          )}
+
           <button 
             disabled={!image || isAIAnalyzing}
             onClick={analyzeWithAI}
@@ -210,65 +806,204 @@ const App: React.FC = () => {
               ${image ? 'bg-gradient-to-br from-indigo-600 to-purple-700 hover:scale-[1.02] text-white shadow-xl shadow-indigo-500/10 active:scale-95' : 'bg-[#1e1e1e] text-gray-700 cursor-not-allowed'}
               ${isAIAnalyzing ? 'animate-pulse' : ''}`}
           >
-            {isAIAnalyzing ? '✨ Procesando...' : '⭐ Masterpiece AI'}
+            {isAIAnalyzing ? t.app.analyzing : t.app.analyze}
           </button>
 
+          {aiPreview && (
+            <AiSuggestionPanel
+              providerLabel={aiPreview.providerLabel}
+              suggestion={aiPreview.settings}
+              current={settings}
+              strength={aiPreview.strength}
+              onStrengthChange={strength => setAiSuggestion({ ...aiPreview, strength })}
+              onApply={applyAiSuggestion}
+              onDiscard={() => setAiSuggestion(null)}
+            />
+          )}
+
           <section className="mb-10">
-            <h4 className="text-[9px] sm:text-[10px] uppercase font-black text-gray-500 tracking-[0.4em] mb-5 border-b border-[#2a2a2a] pb-2">Presets Pro</h4>
+            <h4 className="text-[9px] sm:text-[10px] uppercase font-black text-gray-500 tracking-[0.4em] mb-5 border-b border-[#2a2a2a] pb-2">{t.app.presets}</h4>
             <div className="grid grid-cols-2 xs:grid-cols-3 md:grid-cols-2 gap-2 sm:gap-3">
-              {Object.entries(PRESETS).map(([key, preset]) => (
+              {(Object.keys(PRESETS) as BuiltInPresetKey[]).map((key, i) => (
                 <button
                   key={key}
-                  onClick={() => applyPreset(key as PresetType)}
+                  onClick={() => applyPreset(key)}
+                  aria-keyshortcuts={ariaShortcut('applyPreset', i)}
                   className="flex items-center gap-2 px-3 py-2.5 bg-[#1a1a1a] hover:bg-[#222] border border-[#262626] rounded-xl transition-all active:scale-95 group overflow-hidden"
                 >
-                  <div className="w-1.5 h-1.5 sm:w-2 sm:h-2 rounded-full shrink-0" style={{ backgroundColor: preset.color }} />
+                  <div className="w-1.5 h-1.5 sm:w-2 sm:h-2 rounded-full shrink-0" style={{ backgroundColor: PRESETS[key].color }} />
                   <span className="text-[8px] sm:text-[9px] text-gray-500 font-bold group-hover:text-white uppercase truncate tracking-tighter">
-                    {preset.name.split(' ').slice(1).join(' ')}
+                    {t.presets[key]}
                   </span>
                 </button>
               ))}
             </div>
           </section>
 
+          <PresetLibraryPanel library={presetLibrary} settings={settings} onApply={applyPresetConfig} onNotify={showToast} />
+
+          {filmstrip.photos.length > 1 && (
+            <BatchPanel
+              photoCount={filmstrip.photos.length}
+              selectedCount={filmstrip.selectedIds.length}
+              otherSelectedCount={filmstrip.selectedIds.filter(id => id !== filmstrip.activeId).length}
+              canPaste={clipboard !== null}
+              onSelectAll={filmstrip.selectAll}
+              onSelectNone={() => filmstrip.setSelectedIds([])}
+              onCopy={copySettings}
+              onPaste={pasteSettings}
+              onSync={syncSettings}
+              progress={batchProgress}
+              onExport={handleBatchDownload}
+            />
+          )}
+
           <section className="space-y-10 sm:space-y-12">
+            {image && (
+              <div>
+                <h4 className="text-[9px] sm:text-[10px] uppercase font-black text-orange-500/40 tracking-[0.4em] mb-6 border-b border-[#2a2a2a] pb-2 text-center md:text-left">{t.settings.geometry}</h4>
+                <GeometryPanel
+                  geometry={settings.geometry}
+                  imageWidth={image.width}
+                  imageHeight={image.height}
+                  cropMode={cropMode}
+                  onToggleCropMode={() => {
+                    setCropMode(v => !v);
+                    setRetouchMode(false);
+                  }}
+                  onChange={setGeometry}
+                  onCommit={history.seal}
+                />
+              </div>
+            )}
+
             <div>
-              <h4 className="text-[9px] sm:text-[10px] uppercase font-black text-orange-500/40 tracking-[0.4em] mb-6 border-b border-[#2a2a2a] pb-2 text-center md:text-left">Iluminación</h4>
-              <ControlSlider label="Exposición" value={settings.exposure} min={-100} max={100} onChange={v => setSettings(s => ({...s, exposure: v}))} />
-              <ControlSlider label="Contraste" value={settings.contrast} min={-100} max={100} onChange={v => setSettings(s => ({...s, contrast: v}))} />
-              <ControlSlider label="Sombras" value={settings.shadows} min={-100} max={100} onChange={v => setSettings(s => ({...s, shadows: v}))} />
-              <ControlSlider label="Altas Luces" value={settings.highlights} min={-100} max={100} onChange={v => setSettings(s => ({...s, highlights: v}))} />
+              <h4 className="text-[9px] sm:text-[10px] uppercase font-black text-orange-500/40 tracking-[0.4em] mb-6 border-b border-[#2a2a2a] pb-2 text-center md:text-left">{t.app.light}</h4>
+              {settingSlider('exposure')}
+              {settingSlider('contrast')}
+              {settingSlider('shadows')}
+              {settingSlider('highlights')}
+              {settingSlider('whites')}
+              {settingSlider('dehaze')}
             </div>
 
             <div>
-              <h4 className="text-[9px] sm:text-[10px] uppercase font-black text-orange-500/40 tracking-[0.4em] mb-6 border-b border-[#2a2a2a] pb-2 text-center md:text-left">Colorimetría</h4>
-              <ControlSlider label="Temp" value={settings.temp} min={-100} max={100} onChange={v => setSettings(s => ({...s, temp: v}))} />
-              <ControlSlider label="Saturación" value={settings.saturation} min={-100} max={100} onChange={v => setSettings(s => ({...s, saturation: v}))} />
-              <ControlSlider label="Intensidad" value={settings.vibrance} min={-100} max={100} onChange={v => setSettings(s => ({...s, vibrance: v}))} />
+              <h4 className="text-[9px] sm:text-[10px] uppercase font-black text-orange-500/40 tracking-[0.4em] mb-6 border-b border-[#2a2a2a] pb-2 text-center md:text-left">{t.app.toneCurve}</h4>
+              <CurveEditor curves={settings.curves} onChange={setCurve} onCommit={history.seal} />
             </div>
 
             <div>
-              <h4 className="text-[9px] sm:text-[10px] uppercase font-black text-orange-500/40 tracking-[0.4em] mb-6 border-b border-[#2a2a2a] pb-2 text-center md:text-left">Óptica</h4>
-              <ControlSlider label="Nitidez" value={settings.sharpness} min={0} max={100} onChange={v => setSettings(s => ({...s, sharpness: v}))} />
-              <ControlSlider label="Viñeta" value={settings.vignette} min={-100} max={100} onChange={v => setSettings(s => ({...s, vignette: v}))} />
+              <h4 className="text-[9px] sm:text-[10px] uppercase font-black text-orange-500/40 tracking-[0.4em] mb-6 border-b border-[#2a2a2a] pb-2 text-center md:text-left">{t.app.color}</h4>
+              {settingSlider('temp')}
+              {settingSlider('tint')}
+              {settingSlider('saturation')}
+              {settingSlider('vibrance')}
+            </div>
+
+            <div>
+              <h4 className="text-[9px] sm:text-[10px] uppercase font-black text-orange-500/40 tracking-[0.4em] mb-6 border-b border-[#2a2a2a] pb-2 text-center md:text-left">{t.settings.hsl}</h4>
+              <HslMixerPanel hsl={settings.hsl} onChange={setHsl} onCommit={history.seal} />
+            </div>
+
+            <div>
+              <h4 className="text-[9px] sm:text-[10px] uppercase font-black text-orange-500/40 tracking-[0.4em] mb-6 border-b border-[#2a2a2a] pb-2 text-center md:text-left">{t.settings.grading}</h4>
+              <ColorGradingPanel grading={settings.grading} onChange={setGrading} onCommit={history.seal} />
+            </div>
+
+            <div>
+              <h4 className="text-[9px] sm:text-[10px] uppercase font-black text-orange-500/40 tracking-[0.4em] mb-6 border-b border-[#2a2a2a] pb-2 text-center md:text-left">{t.settings.lut}</h4>
+              <LutPanel settings={settings} onChange={setLut} onCommit={history.seal} onNotify={showToast} />
+            </div>
+
+            {image && (
+              <div>
+                <h4 className="text-[9px] sm:text-[10px] uppercase font-black text-orange-500/40 tracking-[0.4em] mb-6 border-b border-[#2a2a2a] pb-2 text-center md:text-left">{t.settings.masks}</h4>
+                <MasksPanel
+                  masks={settings.masks}
+                  selectedId={selectedMaskId}
+                  onSelect={setSelectedMaskId}
+                  onAdd={addMask}
+                  onUpdate={updateMask}
+                  onRemove={removeMask}
+                  onCommit={history.seal}
+                  brush={brush}
+                  onBrushChange={setBrush}
+                />
+              </div>
+            )}
+
+            {image && (
+              <div>
+                <h4 className="text-[9px] sm:text-[10px] uppercase font-black text-orange-500/40 tracking-[0.4em] mb-6 border-b border-[#2a2a2a] pb-2 text-center md:text-left">{t.settings.spots}</h4>
+                <RetouchPanel
+                  active={retouchMode}
+                  onToggle={toggleRetouchMode}
+                  spots={settings.spots}
+                  selectedId={selectedSpotId}
+                  onSelect={setSelectedSpotId}
+                  onUpdate={updateSpot}
+                  onRemove={removeSpot}
+                  onCommit={history.seal}
+                  options={retouch}
+                  onOptionsChange={setRetouch}
+                />
+              </div>
+            )}
+
+            <div>
+              <h4 className="text-[9px] sm:text-[10px] uppercase font-black text-orange-500/40 tracking-[0.4em] mb-6 border-b border-[#2a2a2a] pb-2 text-center md:text-left">{t.app.optics}</h4>
+              {settingSlider('noiseReduction')}
+              {settingSlider('noiseDetail')}
+              {settingSlider('colorNoiseReduction')}
+              {settingSlider('colorNoiseDetail')}
+              {settingSlider('sharpness')}
+              {settingSlider('sharpenRadius', 0.1)}
+              {settingSlider('sharpenDetail')}
+              {settingSlider('sharpenMasking')}
+              {settingSlider('clarity')}
+              {settingSlider('vignette')}
+            </div>
+
+            <div>
+              <h4 className="text-[9px] sm:text-[10px] uppercase font-black text-orange-500/40 tracking-[0.4em] mb-6 border-b border-[#2a2a2a] pb-2 text-center md:text-left">{t.app.grain}</h4>
+              {settingSlider('grainAmount')}
+              {settingSlider('grainSize')}
+              {settingSlider('grainRoughness')}
+              <button
+                onClick={newGrainSeed}
+                disabled={settings.grainAmount === 0}
+                className="w-full py-2 text-[9px] font-black text-gray-400 hover:text-white bg-[#1a1a1a] border border-[#2a2a2a] rounded-xl hover:bg-[#222] transition-all uppercase tracking-[0.2em] disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                {t.app.newGrainSeed(settings.grainSeed)}
+              </button>
             </div>
           </section>
 
-          <div className="mt-12 mb-10 space-y-3">
+          <div className="mt-12">
+            <HistoryPanel history={history} comparingId={comparingId} onCompare={setComparingId} />
+          </div>
+
+          <div className="mb-10 space-y-3">
             <button 
               onClick={() => applyPreset('reset')}
               className="w-full py-3.5 text-[9px] font-black text-gray-500 hover:text-white bg-[#1a1a1a] border border-[#2a2a2a] rounded-xl hover:bg-[#222] transition-all uppercase tracking-[0.3em]"
             >
-              Reset Total
+              {t.app.resetAll}
             </button>
             <button 
               disabled={!image}
               onClick={handleDownload}
+              aria-keyshortcuts={ariaShortcut('export')}
               className={`w-full py-4 sm:py-5 text-[10px] sm:text-[11px] font-black rounded-xl flex items-center justify-center gap-3 transition-all uppercase tracking-[0.3em] shadow-2xl
                 ${image ? 'bg-white text-black hover:bg-orange-600 hover:text-white cursor-pointer active:scale-95' : 'bg-[#1e1e1e] text-gray-700 cursor-not-allowed'}`}
             >
-              <span>Exportar Resultado</span>
+              <span>{exportProgress === null ? t.app.exportResult : t.app.exporting(Math.round(exportProgress * 100))}</span>
             </button>
+            {exportProgress !== null && (
+              <div className="h-1 w-full bg-[#1e1e1e] rounded-full overflow-hidden">
+                <div className="h-full bg-orange-600 transition-all" style={{ width: `${exportProgress * 100}%` }} />
+              </div>
+            )}
           </div>
 
           <footer className="mt-auto border-t border-[#2a2a2a] pt-8 text-center pb-6">
@@ -281,9 +1016,24 @@ const App: React.FC = () => {
         </aside>
       </main>
 
-      {/* Popups de Notificación */}
+      {exportTarget && image && (
+        <ExportDialog
+          count={exportTarget === 'batch' ? batchPhotos.length : 1}
+          settings={exportSettings}
+          onChange={setExportSettings}
+          frame={createFrameMapper(settings.geometry, image.width, image.height)}
+          preview={afterImage}
+          photoName={filmstrip.active?.name ?? t.app.defaultPhotoName}
+          onExport={runExport}
+          onClose={closeExportDialog}
+        />
+      )}
+
+      {showShortcuts && <ShortcutHelp onClose={closeShortcuts} />}
+
+      {/* Popups de Notificación: se anuncian también a los lectores de pantalla */}
       {toast && (
-        <div className="fixed top-20 left-1/2 -translate-x-1/2 px-8 py-3 bg-orange-600 text-white text-[9px] sm:text-[10px] font-black uppercase tracking-[0.3em] rounded-full shadow-2xl z-[100] animate-in fade-in zoom-in duration-300">
+        <div role="status" aria-live="polite" className="fixed top-20 left-1/2 -translate-x-1/2 px-8 py-3 bg-orange-600 text-white text-[9px] sm:text-[10px] font-black uppercase tracking-[0.3em] rounded-full shadow-2xl z-[100] animate-in fade-in zoom-in duration-300">
           {toast}
         </div>
       )}
@@ -0,0 +1,65 @@
+import React from 'react';
+import { AiSettings, EditorSettings } from '../types';
+import { AI_SETTING_KEYS } from '../constants';
+import { useI18n } from '../hooks/useI18n';
+import ControlSlider from './ControlSlider';
+
+const signed = (value: number) => (value > 0 ? `+${value}` : String(value));
+
+/**
+ * A Masterpiece AI suggestion being previewed: the values it proposes, the
+ * strength to apply it at, and apply / discard.
+ */
+const AiSuggestionPanel: React.FC<{
+  providerLabel: string;
+  suggestion: AiSettings;
+  current: EditorSettings;
+  strength: number;
+  onStrengthChange: (strength: number) => void;
+  onApply: () => void;
+  onDiscard: () => void;
+}> = ({ providerLabel, suggestion, current, strength, onStrengthChange, onApply, onDiscard }) => {
+  const { t } = useI18n();
+  const changed = AI_SETTING_KEYS.filter(key => suggestion[key] !== current[key]);
+
+  return (
+    <section className="-mt-4 mb-8 p-4 rounded-2xl bg-[#161616] border border-indigo-600/40">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-[9px] uppercase font-black text-indigo-300 tracking-[0.3em]">{t.ai.preview}</h4>
+        <span className="text-[8px] text-gray-500 uppercase tracking-widest">{providerLabel}</span>
+      </div>
+
+      {changed.length === 0 ? (
+        <p className="text-[9px] text-gray-500 tracking-wider mb-4">{t.ai.noChanges}</p>
+      ) : (
+        <div className="flex flex-wrap gap-1.5 mb-4">
+          {changed.map(key => (
+            <span key={key} className="px-2 py-0.5 rounded bg-[#1e1e1e] text-[8px] text-gray-300 uppercase tracking-wider">
+              {t.settings[key]} <span className="text-indigo-300 font-bold">{signed(suggestion[key])}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <ControlSlider label={t.ai.strength} value={strength} min={0} max={100} defaultValue={100} onChange={onStrengthChange} />
+
+      <div className="flex gap-2">
+        <button
+          onClick={onDiscard}
+          className="flex-1 py-2 text-[9px] font-black text-gray-400 hover:text-white bg-[#1a1a1a] border border-[#2a2a2a] rounded-xl hover:bg-[#222] transition-all uppercase tracking-[0.2em]"
+        >
+          {t.ai.discard}
+        </button>
+        <button
+          onClick={onApply}
+          disabled={changed.length === 0 || strength === 0}
+          className="flex-1 py-2 text-[9px] font-black rounded-xl bg-indigo-600 text-white hover:bg-indigo-500 transition-all uppercase tracking-[0.2em] disabled:opacity-30 disabled:cursor-not-allowed"
+        >
+          {t.common.apply}
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default AiSuggestionPanel;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { useI18n } from '../hooks/useI18n';
+
+export interface BatchProgress {
+  /** Overall completed fraction (0-1). */
+  fraction: number;
+  done: number;
+  total: number;
+}
+
+const smallButton = 'px-3 py-1.5 text-[8px] sm:text-[9px] font-black uppercase tracking-widest rounded-lg border border-[#2a2a2a] bg-[#1a1a1a] hover:bg-[#222] transition-all disabled:opacity-30 disabled:cursor-not-allowed';
+
+/**
+ * Work on several photos at once: select, copy/paste or sync the look of the
+ * active photo, and export the selection as a zip (options are chosen in the
+ * export dialog).
+ */
+const BatchPanel: React.FC<{
+  photoCount: number;
+  selectedCount: number;
+  /** Selected photos other than the one being edited. */
+  otherSelectedCount: number;
+  canPaste: boolean;
+  onSelectAll: () => void;
+  onSelectNone: () => void;
+  onCopy: () => void;
+  onPaste: () => void;
+  onSync: () => void;
+  progress: BatchProgress | null;
+  /** Opens the export dialog, or cancels the export while running. */
+  onExport: () => void;
+}> = ({
+  photoCount, selectedCount, otherSelectedCount, canPaste, onSelectAll, onSelectNone, onCopy, onPaste, onSync, progress, onExport
+}) => {
+  const { t } = useI18n();
+  const exportCount = selectedCount || photoCount;
+
+  return (
+    <section className="mb-10">
+      <div className="flex items-center justify-between mb-5 border-b border-[#2a2a2a] pb-2">
+        <h4 className="text-[9px] sm:text-[10px] uppercase font-black text-gray-500 tracking-[0.4em]">{t.batch.title}</h4>
+        <span className="text-[9px] text-orange-500 font-bold">{selectedCount} / {photoCount}</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        <button className={smallButton} onClick={onSelectAll}>{t.batch.selectAll}</button>
+        <button className={smallButton} disabled={selectedCount === 0} onClick={onSelectNone}>{t.batch.selectNone}</button>
+        <button className={smallButton} onClick={onCopy}>{t.batch.copy}</button>
+        <button className={smallButton} disabled={!canPaste} onClick={onPaste}>{t.batch.paste}</button>
+      </div>
+      <button className={`${smallButton} w-full mb-4`} disabled={otherSelectedCount === 0} onClick={onSync}>
+        {t.batch.sync(otherSelectedCount)}
+      </button>
+
+      <button
+        onClick={onExport}
+        className="w-full py-3 text-[9px] font-black rounded-xl uppercase tracking-[0.3em] bg-[#1a1a1a] border border-[#2a2a2a] hover:bg-orange-600 hover:text-white text-gray-300 transition-all"
+      >
+        {progress === null
+          ? t.batch.exportZip(exportCount)
+          : `${progress.done} / ${progress.total} · ${Math.round(progress.fraction * 100)}% · ${t.common.cancel}`}
+      </button>
+      {progress !== null && (
+        <div className="mt-2 h-1 w-full bg-[#1e1e1e] rounded-full overflow-hidden">
+          <div className="h-full bg-orange-600 transition-all" style={{ width: `${progress.fraction * 100}%` }} />
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default BatchPanel;
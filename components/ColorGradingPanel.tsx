@@ -0,0 +1,142 @@
+import React, { useRef, useState } from 'react';
+import { ColorGrading, GradingRange, GradingWheel } from '../types';
+import { GRADING_RANGES, INITIAL_SETTINGS } from '../constants';
+import { useI18n } from '../hooks/useI18n';
+import ControlSlider from './ControlSlider';
+
+const SIZE = 160;
+const RADIUS = SIZE / 2 - 6;
+
+// Hue runs clockwise from red at the top; saturation grows from the center.
+const WHEEL_BACKGROUND = [
+  'radial-gradient(circle closest-side, #808080, rgba(128,128,128,0) 100%)',
+  'conic-gradient(#f00, #ff0, #0f0, #0ff, #00f, #f0f, #f00)'
+].join(', ');
+
+const handlePosition = ({ hue, saturation }: GradingWheel) => {
+  const angle = (hue * Math.PI) / 180;
+  const r = (saturation / 100) * RADIUS;
+  return { x: SIZE / 2 + r * Math.sin(angle), y: SIZE / 2 - r * Math.cos(angle) };
+};
+
+/**
+ * Hue/saturation wheel: the handle's angle is the hue, its distance from
+ * the center the saturation. Double-click resets the wheel's color.
+ */
+const ColorWheel: React.FC<{
+  wheel: GradingWheel;
+  onChange: (patch: Partial<GradingWheel>) => void;
+  onCommit: () => void;
+}> = ({ wheel, onChange, onCommit }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const handle = handlePosition(wheel);
+
+  const pick = (e: React.PointerEvent) => {
+    const rect = ref.current!.getBoundingClientRect();
+    const dx = ((e.clientX - rect.left) / rect.width) * SIZE - SIZE / 2;
+    const dy = ((e.clientY - rect.top) / rect.height) * SIZE - SIZE / 2;
+    onChange({
+      hue: Math.round(((Math.atan2(dx, -dy) * 180) / Math.PI + 360) % 360),
+      saturation: Math.round(Math.min(1, Math.hypot(dx, dy) / RADIUS) * 100)
+    });
+  };
+
+  const release = () => {
+    if (!dragging) return;
+    setDragging(false);
+    onCommit();
+  };
+
+  return (
+    <div
+      ref={ref}
+      className="relative mx-auto rounded-full touch-none cursor-crosshair border border-[#2a2a2a]"
+      style={{ width: SIZE, height: SIZE, background: WHEEL_BACKGROUND }}
+      onPointerDown={e => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDragging(true);
+        pick(e);
+      }}
+      onPointerMove={e => dragging && pick(e)}
+      onPointerUp={release}
+      onPointerCancel={release}
+      onDoubleClick={() => {
+        onChange({ hue: 0, saturation: 0 });
+        onCommit();
+      }}
+    >
+      <span
+        className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full border-2 border-white shadow pointer-events-none"
+        style={{ left: handle.x, top: handle.y, backgroundColor: `hsl(${wheel.hue}, ${wheel.saturation}%, 50%)` }}
+      />
+    </div>
+  );
+};
+
+/** Shadows / midtones / highlights wheels with luminance, plus balance and blending. */
+const ColorGradingPanel: React.FC<{
+  grading: ColorGrading;
+  onChange: (patch: Partial<ColorGrading>, label: string, mergeKey: string) => void;
+  onCommit: () => void;
+}> = ({ grading, onChange, onCommit }) => {
+  const { t } = useI18n();
+  const [range, setRange] = useState<GradingRange>('shadows');
+  const rangeLabel = t.grading.ranges[range];
+  const wheel = grading[range];
+
+  const updateWheel = (patch: Partial<GradingWheel>, field: string, mergeKey: string) =>
+    onChange({ [range]: { ...wheel, ...patch } }, `${rangeLabel} · ${field}`, `grading:${range}:${mergeKey}`);
+
+  return (
+    <div>
+      <div className="flex gap-1 mb-5">
+        {GRADING_RANGES.map(r => (
+          <button
+            key={r}
+            onClick={() => setRange(r)}
+            className={`flex-1 py-1.5 text-[8px] sm:text-[9px] font-black uppercase tracking-widest rounded-md border transition-all
+              ${range === r ? 'border-orange-600 bg-[#222] text-orange-400' : 'border-[#2a2a2a] bg-[#1a1a1a] text-gray-500'}`}
+          >
+            {t.grading.ranges[r]}
+          </button>
+        ))}
+      </div>
+
+      <ColorWheel wheel={wheel} onChange={patch => updateWheel(patch, t.common.color, 'color')} onCommit={onCommit} />
+      <p className="text-center text-[9px] text-gray-500 uppercase tracking-widest mt-2 mb-5">
+        {t.grading.hue} <span className="text-orange-500 font-bold">{wheel.hue}°</span> · {t.grading.saturation} <span className="text-orange-500 font-bold">{wheel.saturation}</span>
+      </p>
+
+      <ControlSlider
+        label={t.grading.luminance}
+        value={wheel.luminance}
+        min={-100}
+        max={100}
+        defaultValue={INITIAL_SETTINGS.grading[range].luminance}
+        onChange={luminance => updateWheel({ luminance }, t.grading.luminance, 'luminance')}
+        onCommit={onCommit}
+      />
+      <ControlSlider
+        label={t.grading.balance}
+        value={grading.balance}
+        min={-100}
+        max={100}
+        defaultValue={INITIAL_SETTINGS.grading.balance}
+        onChange={balance => onChange({ balance }, `${t.grading.title} · ${t.grading.balance}`, 'grading:balance')}
+        onCommit={onCommit}
+      />
+      <ControlSlider
+        label={t.grading.blending}
+        value={grading.blending}
+        min={0}
+        max={100}
+        defaultValue={INITIAL_SETTINGS.grading.blending}
+        onChange={blending => onChange({ blending }, `${t.grading.title} · ${t.grading.blending}`, 'grading:blending')}
+        onCommit={onCommit}
+      />
+    </div>
+  );
+};
+
+export default ColorGradingPanel;
@@ -0,0 +1,120 @@
+import React, { useId, useRef, useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+
+const ARROW_DIRECTIONS: Record<string, number> = { ArrowRight: 1, ArrowUp: 1, ArrowLeft: -1, ArrowDown: -1 };
+
+const decimalsOf = (step: number) => (String(step).split('.')[1] ?? '').length;
+
+/**
+ * Labelled range input. Arrow keys move it by `step`, ten steps with Shift
+ * and a tenth of a step with Alt; the value can be typed in; double-clicking
+ * the label or the track restores `defaultValue` when there is one. The
+ * input itself works at the fine step so it can show those values exactly,
+ * while dragging still lands on whole steps.
+ */
+const ControlSlider: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  /** Value a double-click restores. */
+  defaultValue?: number;
+  onChange: (val: number) => void;
+  onCommit?: () => void;
+  swatch?: string;
+}> = ({ label, value, min, max, step = 1, defaultValue, onChange, onCommit, swatch }) => {
+  const { t } = useI18n();
+  const id = useId();
+  const [draft, setDraft] = useState<string | null>(null);
+  const discardRef = useRef(false);
+  const fineStep = step / 10;
+  const decimals = decimalsOf(fineStep);
+  const format = (v: number) => String(Number(v.toFixed(decimals)));
+
+  const change = (next: number) => {
+    const clamped = Math.min(max, Math.max(min, Number(next.toFixed(decimals))));
+    if (clamped !== value) onChange(clamped);
+  };
+
+  const reset = () => {
+    if (defaultValue === undefined) return;
+    change(defaultValue);
+    onCommit?.();
+  };
+
+  const onSliderKeyDown = (e: React.KeyboardEvent) => {
+    const direction = ARROW_DIRECTIONS[e.key];
+    if (!direction) return;
+    e.preventDefault();
+    change(value + direction * (e.shiftKey ? step * 10 : e.altKey ? fineStep : step));
+  };
+
+  const submitDraft = () => {
+    const typed = parseFloat((draft ?? '').replace(',', '.'));
+    if (!discardRef.current && Number.isFinite(typed)) {
+      change(typed);
+      onCommit?.();
+    }
+    discardRef.current = false;
+    setDraft(null);
+  };
+
+  const onDraftKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') e.currentTarget.blur();
+    else if (e.key === 'Escape') {
+      // Keeps an open dialog from closing along with the edit
+      e.stopPropagation();
+      discardRef.current = true;
+      e.currentTarget.blur();
+    }
+  };
+
+  return (
+    <div className="mb-4 sm:mb-6">
+      <div className="flex justify-between items-center text-[10px] sm:text-[11px] text-gray-400 mb-2 uppercase tracking-widest font-medium">
+        <label
+          htmlFor={id}
+          onDoubleClick={reset}
+          title={defaultValue === undefined ? undefined : t.slider.reset}
+          className="flex items-center gap-2 select-none"
+        >
+          {swatch && <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: swatch }} />}
+          {label}
+        </label>
+        <input
+          type="text"
+          inputMode="decimal"
+          aria-label={t.slider.value(label)}
+          value={draft ?? format(value)}
+          onFocus={e => {
+            setDraft(format(value));
+            e.currentTarget.select();
+          }}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={onDraftKeyDown}
+          onBlur={submitDraft}
+          className="w-14 bg-transparent text-right text-orange-500 font-bold rounded focus:outline-none focus:bg-[#1a1a1a] focus:ring-1 focus:ring-orange-500/60"
+        />
+      </div>
+      <input
+        id={id}
+        type="range"
+        min={min}
+        max={max}
+        step={fineStep}
+        value={value}
+        aria-valuetext={format(value)}
+        onChange={(e) => change(min + Math.round((parseFloat(e.target.value) - min) / step) * step)}
+        onKeyDown={onSliderKeyDown}
+        onDoubleClick={reset}
+        onPointerUp={onCommit}
+        onKeyUp={onCommit}
+        onBlur={onCommit}
+        className="w-full h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-orange-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-orange-500/60 focus-visible:ring-offset-2 focus-visible:ring-offset-[#121212]"
+      />
+    </div>
+  );
+};
+
+export default ControlSlider;
@@ -0,0 +1,160 @@
+import React, { useEffect, useRef } from 'react';
+import { CropRect } from '../types';
+import { constrainCrop } from '../services/geometry';
+
+type Handle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+const MIN_SIZE = 0.05;
+const HANDLE_PX = 18; // hit radius in CSS pixels
+
+/**
+ * Interactive crop frame drawn over the uncropped preview. It shares the
+ * preview canvas' pixel size so both scale identically inside the viewport.
+ */
+const CropTool: React.FC<{
+  width: number;
+  height: number;
+  crop: CropRect;
+  /** Locked width / height ratio in pixels, or null for a free crop. */
+  ratio: number | null;
+  straighten: number;
+  onChange: (crop: CropRect) => void;
+  onCommit: () => void;
+}> = ({ width, height, crop, ratio, straighten, onChange, onCommit }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ handle: Handle; start: { x: number; y: number }; crop: CropRect } | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const cssScale = width / (canvas.getBoundingClientRect().width || width);
+    const x = crop.x * width;
+    const y = crop.y * height;
+    const w = crop.width * width;
+    const h = crop.height * height;
+
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = 'rgba(0,0,0,0.55)';
+    ctx.fillRect(0, 0, width, height);
+    ctx.clearRect(x, y, w, h);
+
+    ctx.strokeStyle = 'rgba(255,255,255,0.35)';
+    ctx.lineWidth = cssScale;
+    ctx.beginPath();
+    for (let i = 1; i < 3; i++) {
+      ctx.moveTo(x + (w * i) / 3, y);
+      ctx.lineTo(x + (w * i) / 3, y + h);
+      ctx.moveTo(x, y + (h * i) / 3);
+      ctx.lineTo(x + w, y + (h * i) / 3);
+    }
+    ctx.stroke();
+
+    ctx.strokeStyle = '#fff';
+    ctx.lineWidth = 1.5 * cssScale;
+    ctx.strokeRect(x, y, w, h);
+
+    const arm = 14 * cssScale;
+    ctx.strokeStyle = '#ea580c';
+    ctx.lineWidth = 4 * cssScale;
+    ctx.beginPath();
+    for (const [cx, cy, sx, sy] of [[x, y, 1, 1], [x + w, y, -1, 1], [x, y + h, 1, -1], [x + w, y + h, -1, -1]]) {
+      ctx.moveTo(cx + sx * arm, cy);
+      ctx.lineTo(cx, cy);
+      ctx.lineTo(cx, cy + sy * arm);
+    }
+    ctx.stroke();
+  }, [width, height, crop]);
+
+  const toNormalized = (e: React.PointerEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+  };
+
+  const hitTest = (e: React.PointerEvent): Handle | null => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const p = toNormalized(e);
+    const tx = HANDLE_PX / rect.width;
+    const ty = HANDLE_PX / rect.height;
+    const corners: [Handle, number, number][] = [
+      ['nw', crop.x, crop.y],
+      ['ne', crop.x + crop.width, crop.y],
+      ['sw', crop.x, crop.y + crop.height],
+      ['se', crop.x + crop.width, crop.y + crop.height]
+    ];
+    for (const [handle, cx, cy] of corners) {
+      if (Math.abs(p.x - cx) <= tx && Math.abs(p.y - cy) <= ty) return handle;
+    }
+    const inside = p.x >= crop.x && p.x <= crop.x + crop.width && p.y >= crop.y && p.y <= crop.y + crop.height;
+    return inside ? 'move' : null;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const handle = hitTest(e);
+    if (!handle) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { handle, start: toNormalized(e), crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const p = toNormalized(e);
+    const base = drag.crop;
+
+    if (drag.handle === 'move') {
+      const moved = {
+        ...base,
+        x: Math.max(0, Math.min(1 - base.width, base.x + p.x - drag.start.x)),
+        y: Math.max(0, Math.min(1 - base.height, base.y + p.y - drag.start.y))
+      };
+      const fitted = constrainCrop(moved, width, height, straighten);
+      // Refuse moves that would push a corner off the straightened image.
+      if (Math.abs(fitted.width - moved.width) < 1e-6) onChange(fitted);
+      return;
+    }
+
+    // Resize from the corner opposite the dragged handle.
+    const anchorX = drag.handle === 'nw' || drag.handle === 'sw' ? base.x + base.width : base.x;
+    const anchorY = drag.handle === 'nw' || drag.handle === 'ne' ? base.y + base.height : base.y;
+    const px = Math.max(0, Math.min(1, p.x));
+    const py = Math.max(0, Math.min(1, p.y));
+    let w = Math.max(MIN_SIZE, Math.abs(px - anchorX));
+    let h = Math.max(MIN_SIZE, Math.abs(py - anchorY));
+    if (ratio !== null) {
+      // Keep the pixel ratio: follow whichever axis the pointer moved further along.
+      const hFromW = (w * width) / ratio / height;
+      if (hFromW >= h) h = hFromW;
+      else w = (h * height * ratio) / width;
+    }
+    const next = {
+      x: px < anchorX ? anchorX - w : anchorX,
+      y: py < anchorY ? anchorY - h : anchorY,
+      width: w,
+      height: h
+    };
+    onChange(constrainCrop(next, width, height, straighten));
+  };
+
+  const handlePointerUp = () => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    onCommit();
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      style={{ gridArea: '1 / 1', boxShadow: 'none' }}
+      className="w-full h-full touch-none cursor-move"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    />
+  );
+};
+
+export default CropTool;
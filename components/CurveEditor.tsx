@@ -0,0 +1,148 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { CurveChannel, CurvePoint, ToneCurves } from '../types';
+import { IDENTITY_CURVE } from '../constants';
+import { buildCurveLut } from '../services/curves';
+import { useI18n } from '../hooks/useI18n';
+
+const CHANNELS: { key: CurveChannel; label: string; color: string }[] = [
+  { key: 'master', label: 'RGB', color: '#e5e5e5' },
+  { key: 'red', label: 'R', color: '#ef4444' },
+  { key: 'green', label: 'G', color: '#22c55e' },
+  { key: 'blue', label: 'B', color: '#3b82f6' }
+];
+
+const SIZE = 256;
+const HIT_RADIUS = 10;
+
+/**
+ * Draggable point curve. Clicking empty space adds a point, dragging moves it
+ * between its neighbours, double-clicking removes it (endpoints only move vertically).
+ */
+const CurveEditor: React.FC<{
+  curves: ToneCurves;
+  onChange: (channel: CurveChannel, points: CurvePoint[]) => void;
+  onCommit: () => void;
+}> = ({ curves, onChange, onCommit }) => {
+  const { t } = useI18n();
+  const [channel, setChannel] = useState<CurveChannel>('master');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const points = curves[channel];
+  const active = CHANNELS.find(c => c.key === channel)!;
+
+  const path = useMemo(() => {
+    const lut = buildCurveLut(points);
+    let d = '';
+    for (let x = 0; x < 256; x++) d += `${x === 0 ? 'M' : 'L'}${x},${SIZE - 1 - lut[x]}`;
+    return d;
+  }, [points]);
+
+  const toCurveSpace = (e: React.PointerEvent | React.MouseEvent): CurvePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * (SIZE - 1);
+    const y = (SIZE - 1) - ((e.clientY - rect.top) / rect.height) * (SIZE - 1);
+    return {
+      x: Math.round(Math.max(0, Math.min(255, x))),
+      y: Math.round(Math.max(0, Math.min(255, y)))
+    };
+  };
+
+  const findPoint = (p: CurvePoint) =>
+    points.findIndex(pt => Math.hypot(pt.x - p.x, pt.y - p.y) <= HIT_RADIUS);
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const p = toCurveSpace(e);
+    let index = findPoint(p);
+    if (index === -1) {
+      if (points.some(pt => pt.x === p.x)) return;
+      const next = [...points, p].sort((a, b) => a.x - b.x);
+      index = next.indexOf(p);
+      onChange(channel, next);
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragIndex(index);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return;
+    const p = toCurveSpace(e);
+    const last = points.length - 1;
+    const minX = dragIndex === 0 ? 0 : points[dragIndex - 1].x + 1;
+    const maxX = dragIndex === last ? 255 : points[dragIndex + 1].x - 1;
+    const x = dragIndex === 0 ? points[0].x : dragIndex === last ? points[last].x : Math.max(minX, Math.min(maxX, p.x));
+    const next = points.map((pt, i) => (i === dragIndex ? { x, y: p.y } : pt));
+    onChange(channel, next);
+  };
+
+  const handlePointerUp = () => {
+    if (dragIndex === null) return;
+    setDragIndex(null);
+    onCommit();
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const index = findPoint(toCurveSpace(e));
+    if (index <= 0 || index >= points.length - 1) return;
+    onChange(channel, points.filter((_, i) => i !== index));
+    onCommit();
+  };
+
+  return (
+    <div className="mb-4 sm:mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex gap-1">
+          {CHANNELS.map(c => (
+            <button
+              key={c.key}
+              onClick={() => setChannel(c.key)}
+              className={`px-2.5 py-1 text-[9px] font-black rounded-md border transition-all
+                ${channel === c.key ? 'border-orange-600 bg-[#222]' : 'border-[#2a2a2a] bg-[#1a1a1a] text-gray-500'}`}
+              style={channel === c.key ? { color: c.color } : undefined}
+            >
+              {c.label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => { onChange(channel, IDENTITY_CURVE); onCommit(); }}
+          className="text-[8px] text-gray-500 hover:text-white uppercase tracking-widest font-bold"
+        >
+          {t.curves.reset}
+        </button>
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${SIZE} ${SIZE}`}
+        className="w-full aspect-square bg-[#0d0d0d] border border-[#2a2a2a] rounded-lg touch-none cursor-crosshair"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={handleDoubleClick}
+      >
+        {[64, 128, 192].map(v => (
+          <g key={v} stroke="#1f1f1f" strokeWidth={1}>
+            <line x1={v} y1={0} x2={v} y2={SIZE} />
+            <line x1={0} y1={v} x2={SIZE} y2={v} />
+          </g>
+        ))}
+        <line x1={0} y1={SIZE - 1} x2={SIZE - 1} y2={0} stroke="#2a2a2a" strokeWidth={1} strokeDasharray="4 4" />
+        <path d={path} fill="none" stroke={active.color} strokeWidth={2} />
+        {points.map((pt, i) => (
+          <circle
+            key={i}
+            cx={pt.x}
+            cy={SIZE - 1 - pt.y}
+            r={5}
+            fill={i === dragIndex ? active.color : '#0d0d0d'}
+            stroke={active.color}
+            strokeWidth={2}
+          />
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+export default CurveEditor;
@@ -0,0 +1,246 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExportFormat, ExportResize, ExportSettings, MetadataMode, OutputSharpening, RasterImage } from '../types';
+import { EXPORT_FORMATS } from '../constants';
+import { encodeImage } from '../services/imageProcessor';
+import { outputSize } from '../services/output';
+import { exportFileName } from '../services/export';
+import { supportsMetadata } from '../services/exif';
+import { supportsDisplayP3 } from '../services/colorSpace';
+import { useDialogFocus } from '../hooks/useDialogFocus';
+import { useI18n } from '../hooks/useI18n';
+import ControlSlider from './ControlSlider';
+
+const RESIZE_MODES: ExportResize['mode'][] = ['original', 'longEdge', 'percent'];
+
+const SHARPENING: OutputSharpening[] = ['none', 'screen', 'print'];
+
+const METADATA_MODES: MetadataMode[] = ['all', 'noGps', 'none'];
+
+const COLOR_SPACES: { key: PredefinedColorSpace; label: string }[] = [
+  { key: 'srgb', label: 'sRGB' },
+  { key: 'display-p3', label: 'Display P3' }
+];
+
+const optionButton = 'flex-1 px-2 py-1.5 text-[8px] sm:text-[9px] font-black uppercase tracking-widest rounded-lg border transition-all';
+const sectionLabel = 'block text-[9px] text-gray-500 uppercase tracking-widest mb-2';
+const textInput = 'w-full px-3 py-1.5 bg-[#1a1a1a] border border-[#2a2a2a] rounded-lg text-[10px] text-gray-200 focus:outline-none focus:border-orange-600';
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+/**
+ * Format, quality, output size, output sharpening, color space, dithering,
+ * metadata and file name for an export. The size estimate encodes the on-screen preview with the chosen
+ * settings and scales it to the output pixel count.
+ */
+const ExportDialog: React.FC<{
+  /** Number of photos the export will write (more than one makes a zip). */
+  count: number;
+  settings: ExportSettings;
+  onChange: (settings: ExportSettings) => void;
+  /** Full-resolution size of the active photo's framed image. */
+  frame: { width: number; height: number };
+  preview: RasterImage | null;
+  photoName: string;
+  onExport: () => void;
+  onClose: () => void;
+}> = ({ count, settings, onChange, frame, preview, photoName, onExport, onClose }) => {
+  const { t } = useI18n();
+  const [estimate, setEstimate] = useState<number | null>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useDialogFocus(dialogRef);
+  const format = EXPORT_FORMATS[settings.format];
+  const size = outputSize(frame.width, frame.height, settings.resize);
+
+  const update = (patch: Partial<ExportSettings>) => onChange({ ...settings, ...patch });
+  const updateResize = (patch: Partial<ExportResize>) => update({ resize: { ...settings.resize, ...patch } });
+
+  useEffect(() => {
+    if (!preview) return;
+    let active = true;
+    const timer = setTimeout(() => {
+      encodeImage(preview, format.mimeType, settings.quality / 100, settings.colorSpace).then(blob => {
+        if (active) setEstimate((blob.size * size.width * size.height) / (preview.width * preview.height));
+      }).catch(() => active && setEstimate(null));
+    }, 150);
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [preview, format.mimeType, settings.quality, settings.colorSpace, size.width, size.height]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === 'Escape' && onClose();
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-[90] grid place-items-center bg-black/70 p-4" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label={t.exportDialog.title(count)}
+        tabIndex={-1}
+        onClick={e => e.stopPropagation()}
+        className="w-full max-w-md max-h-full overflow-y-auto custom-scrollbar bg-[#161616] border border-[#2a2a2a] rounded-2xl p-6 shadow-2xl focus:outline-none"
+      >
+        <h3 className="text-[10px] uppercase font-black text-gray-300 tracking-[0.4em] mb-6 border-b border-[#2a2a2a] pb-2">
+          {t.exportDialog.title(count)}
+        </h3>
+
+        <label className={sectionLabel}>{t.exportDialog.format}</label>
+        <div className="flex gap-2 mb-5">
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(key => (
+            <button
+              key={key}
+              onClick={() => update({ format: key })}
+              className={`${optionButton} ${settings.format === key ? 'bg-orange-600 border-orange-600 text-white' : 'bg-[#1a1a1a] border-[#2a2a2a] text-gray-400 hover:bg-[#222]'}`}
+            >
+              {EXPORT_FORMATS[key].label}
+            </button>
+          ))}
+        </div>
+
+        {format.lossy && (
+          <ControlSlider label={t.exportDialog.quality} value={settings.quality} min={1} max={100} onChange={quality => update({ quality })} />
+        )}
+
+        <label className={sectionLabel}>{t.common.size}</label>
+        <div className="flex gap-2 mb-3">
+          {RESIZE_MODES.map(mode => (
+            <button
+              key={mode}
+              onClick={() => updateResize({ mode })}
+              className={`${optionButton} ${settings.resize.mode === mode ? 'bg-orange-600 border-orange-600 text-white' : 'bg-[#1a1a1a] border-[#2a2a2a] text-gray-400 hover:bg-[#222]'}`}
+            >
+              {t.exportDialog.resizeModes[mode]}
+            </button>
+          ))}
+        </div>
+        {settings.resize.mode === 'longEdge' && (
+          <div className="flex items-center gap-2 mb-3">
+            <input
+              type="number"
+              min={16}
+              max={20000}
+              value={settings.resize.longEdge}
+              onChange={e => {
+                const value = parseInt(e.target.value, 10);
+                if (Number.isFinite(value)) updateResize({ longEdge: Math.min(20000, Math.max(16, value)) });
+              }}
+              className="w-28 px-3 py-1.5 bg-[#1a1a1a] border border-[#2a2a2a] rounded-lg text-[10px] text-gray-200 focus:outline-none focus:border-orange-600"
+            />
+            <span className="text-[9px] text-gray-500 uppercase tracking-widest">px</span>
+          </div>
+        )}
+        {settings.resize.mode === 'percent' && (
+          <ControlSlider label={t.exportDialog.scale} value={settings.resize.percent} min={1} max={100} onChange={percent => updateResize({ percent })} />
+        )}
+        <p className="text-[9px] text-gray-500 tracking-wider mb-5">
+          {size.width} × {size.height} px
+          {estimate !== null && ` · ≈ ${formatBytes(estimate)}${count > 1 ? ` ${t.exportDialog.activePhoto}` : ''}`}
+        </p>
+
+        <label className={sectionLabel}>{t.exportDialog.sharpening}</label>
+        <div className="flex gap-2 mb-5">
+          {SHARPENING.map(key => (
+            <button
+              key={key}
+              onClick={() => update({ sharpening: key })}
+              className={`${optionButton} ${settings.sharpening === key ? 'bg-orange-600 border-orange-600 text-white' : 'bg-[#1a1a1a] border-[#2a2a2a] text-gray-400 hover:bg-[#222]'}`}
+            >
+              {t.exportDialog.sharpeningModes[key]}
+            </button>
+          ))}
+        </div>
+
+        <label className={sectionLabel}>{t.common.color}</label>
+        <div className="flex gap-2 mb-2">
+          {COLOR_SPACES.map(({ key, label }) => (
+            <button
+              key={key}
+              onClick={() => update({ colorSpace: key })}
+              disabled={key === 'display-p3' && !supportsDisplayP3()}
+              className={`${optionButton} ${settings.colorSpace === key ? 'bg-orange-600 border-orange-600 text-white' : 'bg-[#1a1a1a] border-[#2a2a2a] text-gray-400 hover:bg-[#222]'} disabled:opacity-30 disabled:cursor-not-allowed`}
+            >
+              {label}
+            </button>
+          ))}
+          <button
+            onClick={() => update({ dither: !settings.dither })}
+            title={t.exportDialog.ditherHint}
+            className={`${optionButton} ${settings.dither ? 'bg-orange-600 border-orange-600 text-white' : 'bg-[#1a1a1a] border-[#2a2a2a] text-gray-400 hover:bg-[#222]'}`}
+          >
+            {t.exportDialog.dither}
+          </button>
+        </div>
+        <p className="text-[8px] text-gray-600 tracking-wider mb-5">
+          {supportsDisplayP3()
+            ? t.exportDialog.wideGamut
+            : t.exportDialog.srgbOnly}
+        </p>
+
+        <label className={sectionLabel}>{t.exportDialog.metadata}</label>
+        <div className="flex gap-2 mb-2">
+          {METADATA_MODES.map(key => (
+            <button
+              key={key}
+              onClick={() => update({ metadata: key })}
+              className={`${optionButton} ${settings.metadata === key ? 'bg-orange-600 border-orange-600 text-white' : 'bg-[#1a1a1a] border-[#2a2a2a] text-gray-400 hover:bg-[#222]'}`}
+            >
+              {t.exportDialog.metadataModes[key]}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-2 mb-1">
+          <input
+            value={settings.artist}
+            onChange={e => update({ artist: e.target.value })}
+            placeholder={t.exportDialog.artist}
+            className={textInput}
+          />
+          <input
+            value={settings.copyright}
+            onChange={e => update({ copyright: e.target.value })}
+            placeholder={t.exportDialog.copyright}
+            className={textInput}
+          />
+        </div>
+        <p className="text-[8px] text-gray-600 tracking-wider mb-5">
+          {supportsMetadata(format.mimeType)
+            ? t.exportDialog.creditsKept
+            : t.exportDialog.noMetadata(format.label)}
+        </p>
+
+        <label className={sectionLabel}>{t.exportDialog.fileName}</label>
+        <input
+          value={settings.fileNameTemplate}
+          onChange={e => update({ fileNameTemplate: e.target.value })}
+          className={`${textInput} mb-1`}
+        />
+        <p className="text-[8px] text-gray-600 tracking-wider mb-6 truncate">
+          {'{name} {n} {date}'} · {exportFileName(settings, photoName)}
+        </p>
+
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 text-[9px] font-black text-gray-500 hover:text-white bg-[#1a1a1a] border border-[#2a2a2a] rounded-xl hover:bg-[#222] transition-all uppercase tracking-[0.3em]"
+          >
+            {t.common.cancel}
+          </button>
+          <button
+            onClick={onExport}
+            className="flex-1 py-3 text-[9px] font-black rounded-xl bg-white text-black hover:bg-orange-600 hover:text-white transition-all uppercase tracking-[0.3em]"
+          >
+            {t.common.export}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { INITIAL_SETTINGS } from '../constants';
+import { Filmstrip as FilmstripState } from '../hooks/useFilmstrip';
+import { useI18n } from '../hooks/useI18n';
+
+/**
+ * Thumbnails of the open photos. Click edits a photo, Ctrl/⌘-click toggles
+ * it in the selection and Shift-click selects a range; the corner dot
+ * toggles selection on touch screens.
+ */
+const Filmstrip: React.FC<{
+  filmstrip: FilmstripState;
+  onActivate: (id: number) => void;
+  onRemove: (id: number) => void;
+  onAdd: () => void;
+}> = ({ filmstrip, onActivate, onRemove, onAdd }) => {
+  const { t } = useI18n();
+  const { photos, activeId, selectedIds } = filmstrip;
+
+  const onClick = (e: React.MouseEvent, id: number) => {
+    if (e.shiftKey) filmstrip.selectRange(id);
+    else if (e.ctrlKey || e.metaKey) filmstrip.toggleSelected(id);
+    else if (id !== activeId) onActivate(id);
+    else filmstrip.setSelectedIds([id]);
+  };
+
+  return (
+    <div className="shrink-0 flex items-center gap-2 px-3 py-2 bg-[#0d0d0d] border-t border-[#2a2a2a] overflow-x-auto custom-scrollbar">
+      {photos.map(photo => {
+        const selected = selectedIds.includes(photo.id);
+        return (
+          <div
+            key={photo.id}
+            onClick={e => onClick(e, photo.id)}
+            title={photo.name}
+            className={`relative shrink-0 h-14 w-20 sm:h-16 sm:w-24 rounded-lg overflow-hidden cursor-pointer border-2 transition-all group
+              ${photo.id === activeId ? 'border-orange-600' : selected ? 'border-white/60' : 'border-transparent opacity-60 hover:opacity-100'}`}
+          >
+            <img src={photo.thumbnail} alt={photo.name} className="w-full h-full object-cover" draggable={false} />
+            <button
+              onClick={e => { e.stopPropagation(); filmstrip.toggleSelected(photo.id); }}
+              className={`absolute top-1 left-1 w-3.5 h-3.5 rounded-full border border-white/70 ${selected ? 'bg-orange-600' : 'bg-black/40'}`}
+              title={t.filmstrip.select}
+            />
+            <button
+              onClick={e => { e.stopPropagation(); onRemove(photo.id); }}
+              className="absolute top-0.5 right-1 text-[10px] text-white/80 hover:text-white opacity-0 group-hover:opacity-100"
+              title={t.filmstrip.remove}
+            >
+              ✕
+            </button>
+            {photo.settings !== INITIAL_SETTINGS && (
+              <span className="absolute bottom-1 right-1 w-1.5 h-1.5 rounded-full bg-orange-500" title={t.filmstrip.edited} />
+            )}
+          </div>
+        );
+      })}
+      <button
+        onClick={onAdd}
+        className="shrink-0 h-14 w-14 sm:h-16 sm:w-16 rounded-lg border border-dashed border-[#333] text-gray-500 hover:text-white hover:border-orange-600 text-lg transition-all"
+        title={t.filmstrip.add}
+      >
+        +
+      </button>
+    </div>
+  );
+};
+
+export default Filmstrip;
@@ -0,0 +1,93 @@
+import React from 'react';
+import { AspectRatioKey, Geometry } from '../types';
+import { ASPECT_RATIOS, INITIAL_GEOMETRY } from '../constants';
+import { aspectRatioValue, constrainCrop, cropForAspect, flipGeometry, orientedSize, rotateGeometry } from '../services/geometry';
+import { useI18n } from '../hooks/useI18n';
+import ControlSlider from './ControlSlider';
+
+const toolButton = 'flex-1 py-2 text-[10px] font-black rounded-lg border border-[#2a2a2a] bg-[#1a1a1a] hover:bg-[#222] text-gray-300 transition-all active:scale-95';
+
+const GeometryPanel: React.FC<{
+  geometry: Geometry;
+  imageWidth: number;
+  imageHeight: number;
+  cropMode: boolean;
+  onToggleCropMode: () => void;
+  onChange: (geometry: Geometry, label: string, mergeKey?: string) => void;
+  onCommit: () => void;
+}> = ({ geometry, imageWidth, imageHeight, cropMode, onToggleCropMode, onChange, onCommit }) => {
+  const { t } = useI18n();
+  const frame = orientedSize(imageWidth, imageHeight, geometry.rotation);
+  const aspectLabel = (aspect: AspectRatioKey) => t.geometry.aspects[aspect] ?? aspect;
+
+  // Fixed ratios are re-fitted after a quarter turn so a 4:5 crop stays portrait.
+  const refit = (g: Geometry): Geometry => {
+    const f = orientedSize(imageWidth, imageHeight, g.rotation);
+    const ratio = aspectRatioValue(g, f.width, f.height);
+    return ratio === null || g.aspect === 'original'
+      ? { ...g, crop: constrainCrop(g.crop, f.width, f.height, g.straighten) }
+      : { ...g, crop: cropForAspect(ratio, f.width, f.height, g.straighten) };
+  };
+
+  const setAspect = (aspect: AspectRatioKey) => {
+    const next = { ...geometry, aspect };
+    const ratio = aspectRatioValue(next, frame.width, frame.height);
+    const crop = ratio === null ? geometry.crop : cropForAspect(ratio, frame.width, frame.height, geometry.straighten);
+    onChange({ ...next, crop }, t.geometry.aspect(aspectLabel(aspect)));
+  };
+
+  // Straightening re-centers the largest crop of the current proportions that avoids empty corners.
+  const setStraighten = (straighten: number) => {
+    const { crop } = geometry;
+    const ratio = aspectRatioValue(geometry, frame.width, frame.height)
+      ?? (crop.width * frame.width) / (crop.height * frame.height);
+    onChange(
+      { ...geometry, straighten, crop: cropForAspect(ratio, frame.width, frame.height, straighten) },
+      t.geometry.straighten,
+      'geometry:straighten'
+    );
+  };
+
+  return (
+    <div>
+      <button
+        onClick={onToggleCropMode}
+        className={`w-full mb-5 py-3 text-[9px] sm:text-[10px] font-black uppercase tracking-[0.3em] rounded-xl border transition-all
+          ${cropMode ? 'border-orange-600 bg-orange-600 text-white' : 'border-[#2a2a2a] bg-[#1a1a1a] text-gray-400 hover:bg-[#222]'}`}
+      >
+        {cropMode ? t.geometry.applyCrop : t.geometry.crop}
+      </button>
+
+      <div className="grid grid-cols-4 gap-1.5 mb-5">
+        {ASPECT_RATIOS.map(a => (
+          <button
+            key={a.key}
+            onClick={() => setAspect(a.key)}
+            className={`py-1.5 text-[8px] sm:text-[9px] font-black uppercase rounded-md border transition-all
+              ${geometry.aspect === a.key ? 'border-orange-600 bg-[#222] text-orange-400' : 'border-[#2a2a2a] bg-[#1a1a1a] text-gray-500'}`}
+          >
+            {aspectLabel(a.key)}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-2 mb-5">
+        <button className={toolButton} title={t.geometry.rotateLeft} onClick={() => onChange(refit(rotateGeometry(geometry, -1)), t.geometry.rotatedLeft)}>↺</button>
+        <button className={toolButton} title={t.geometry.rotateRight} onClick={() => onChange(refit(rotateGeometry(geometry, 1)), t.geometry.rotatedRight)}>↻</button>
+        <button className={toolButton} title={t.geometry.flipHorizontal} onClick={() => onChange(flipGeometry(geometry, 'horizontal'), t.geometry.flipHorizontal)}>⇋</button>
+        <button className={toolButton} title={t.geometry.flipVertical} onClick={() => onChange(flipGeometry(geometry, 'vertical'), t.geometry.flipVertical)}>⇅</button>
+      </div>
+
+      <ControlSlider label={t.geometry.straighten} value={geometry.straighten} min={-45} max={45} defaultValue={INITIAL_GEOMETRY.straighten} onChange={setStraighten} onCommit={onCommit} />
+
+      <button
+        onClick={() => onChange(INITIAL_GEOMETRY, t.geometry.resetCrop)}
+        className="text-[8px] text-gray-500 hover:text-white uppercase tracking-widest font-bold"
+      >
+        {t.geometry.reset}
+      </button>
+    </div>
+  );
+};
+
+export default GeometryPanel;
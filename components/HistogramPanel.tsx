@@ -0,0 +1,129 @@
+import React, { useEffect, useRef } from 'react';
+import { Histogram, Waveform } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+const WIDTH = 256;
+const HEIGHT = 96;
+
+export interface ClippingToggles {
+  highlights: boolean;
+  shadows: boolean;
+}
+
+// Square-root scaling keeps small bins visible next to a dominant peak;
+// the end bins are ignored for normalisation so clipping spikes don't flatten the rest.
+const drawHistogram = (ctx: CanvasRenderingContext2D, histogram: Histogram) => {
+  const channels: [Uint32Array, string][] = [
+    [histogram.red, 'rgba(239,68,68,0.6)'],
+    [histogram.green, 'rgba(34,197,94,0.6)'],
+    [histogram.blue, 'rgba(59,130,246,0.6)']
+  ];
+  let peak = 1;
+  for (const bins of [histogram.luminance, histogram.red, histogram.green, histogram.blue]) {
+    for (let i = 1; i < 255; i++) peak = Math.max(peak, bins[i]);
+  }
+  const scale = HEIGHT / Math.sqrt(peak);
+
+  ctx.fillStyle = 'rgba(160,160,160,0.35)';
+  for (let i = 0; i < 256; i++) {
+    const h = Math.min(HEIGHT, Math.sqrt(histogram.luminance[i]) * scale);
+    ctx.fillRect(i, HEIGHT - h, 1, h);
+  }
+  ctx.globalCompositeOperation = 'screen';
+  for (const [bins, color] of channels) {
+    ctx.fillStyle = color;
+    for (let i = 0; i < 256; i++) {
+      const h = Math.min(HEIGHT, Math.sqrt(bins[i]) * scale);
+      ctx.fillRect(i, HEIGHT - h, 1, h);
+    }
+  }
+  ctx.globalCompositeOperation = 'source-over';
+};
+
+/** Red, green and blue waveforms side by side, brighter where more pixels share a level. */
+const drawParade = (ctx: CanvasRenderingContext2D, waveform: Waveform) => {
+  const { columns, levels } = waveform;
+  const channels: [Uint32Array, number][] = [[waveform.red, 0], [waveform.green, 1], [waveform.blue, 2]];
+  const image = ctx.createImageData(columns * 3, levels);
+  let peak = 1;
+  for (const [bins] of channels) {
+    for (let i = 0; i < bins.length; i++) peak = Math.max(peak, bins[i]);
+  }
+  const norm = 255 / Math.log1p(peak);
+  for (const [bins, channel] of channels) {
+    for (let x = 0; x < columns; x++) {
+      for (let level = 0; level < levels; level++) {
+        const value = Math.log1p(bins[x * levels + level]) * norm;
+        const i = ((levels - 1 - level) * columns * 3 + channel * columns + x) * 4;
+        image.data[i + channel] = Math.min(255, value * 1.5);
+        image.data[i + 3] = 255;
+      }
+    }
+  }
+  const bitmap = document.createElement('canvas');
+  bitmap.width = image.width;
+  bitmap.height = image.height;
+  bitmap.getContext('2d')!.putImageData(image, 0, 0);
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(bitmap, 0, 0, WIDTH, HEIGHT);
+};
+
+const HistogramPanel: React.FC<{
+  histogram: Histogram | null;
+  waveform: Waveform | null;
+  showParade: boolean;
+  onToggleParade: () => void;
+  clipping: ClippingToggles;
+  onToggleClipping: (key: keyof ClippingToggles) => void;
+}> = ({ histogram, waveform, showParade, onToggleParade, clipping, onToggleClipping }) => {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, WIDTH, HEIGHT);
+    if (showParade && waveform) drawParade(ctx, waveform);
+    else if (histogram) drawHistogram(ctx, histogram);
+  }, [histogram, waveform, showParade]);
+
+  const clipsShadows = !!histogram && (histogram.red[0] + histogram.green[0] + histogram.blue[0]) > 0;
+  const clipsHighlights = !!histogram && (histogram.red[255] + histogram.green[255] + histogram.blue[255]) > 0;
+
+  const indicator = (key: keyof ClippingToggles, active: boolean, label: string) => (
+    <button
+      onClick={() => onToggleClipping(key)}
+      title={key === 'shadows' ? t.histogram.shadowClipping : t.histogram.highlightClipping}
+      className={`px-2 py-1 text-[8px] font-black rounded-md border transition-all
+        ${clipping[key] ? 'border-orange-600 text-orange-400 bg-[#222]' : 'border-[#2a2a2a] bg-[#1a1a1a]'}
+        ${active ? (key === 'shadows' ? 'text-blue-400' : 'text-red-400') : 'text-gray-600'}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <section className="mb-8">
+      <canvas
+        ref={canvasRef}
+        width={WIDTH}
+        height={HEIGHT}
+        className="w-full h-24 bg-[#0d0d0d] border border-[#2a2a2a] rounded-lg"
+        style={{ boxShadow: 'none', imageRendering: showParade ? 'auto' : 'pixelated' }}
+      />
+      <div className="flex items-center justify-between mt-2">
+        {indicator('shadows', clipsShadows, t.histogram.shadows)}
+        <button
+          onClick={onToggleParade}
+          className={`px-2 py-1 text-[8px] font-black uppercase tracking-widest rounded-md border transition-all
+            ${showParade ? 'border-orange-600 text-orange-400 bg-[#222]' : 'border-[#2a2a2a] bg-[#1a1a1a] text-gray-500'}`}
+        >
+          {showParade ? t.histogram.histogram : t.histogram.parade}
+        </button>
+        {indicator('highlights', clipsHighlights, t.histogram.highlights)}
+      </div>
+    </section>
+  );
+};
+
+export default HistogramPanel;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { HistorySource } from '../types';
+import { diffSettings, EditHistory } from '../hooks/useEditHistory';
+import { useI18n } from '../hooks/useI18n';
+
+const SOURCE_ICONS: Record<HistorySource, string> = {
+  load: '📂',
+  slider: '🎚️',
+  geometry: '📐',
+  mask: '🖌️',
+  retouch: '🩹',
+  preset: '🎨',
+  lut: '🎞️',
+  sync: '🔁',
+  import: '📄',
+  ai: '✨',
+  reset: '↺',
+  snapshot: '📌'
+};
+
+const formatValue = (value: unknown, edited: string) => (typeof value === 'number' ? String(value) : edited);
+
+const smallButton = 'px-3 py-1.5 text-[8px] sm:text-[9px] font-black uppercase tracking-widest rounded-lg border border-[#2a2a2a] bg-[#1a1a1a] hover:bg-[#222] transition-all disabled:opacity-30 disabled:cursor-not-allowed';
+
+const HistoryPanel: React.FC<{
+  history: EditHistory;
+  comparingId: number | null;
+  onCompare: (id: number | null) => void;
+}> = ({ history, comparingId, onCompare }) => {
+  const { t } = useI18n();
+  const [snapshotName, setSnapshotName] = useState('');
+  const comparing = history.snapshots.find(s => s.id === comparingId);
+
+  const saveSnapshot = () => {
+    history.saveSnapshot(snapshotName.trim() || t.history.snapshot(history.snapshots.length + 1));
+    setSnapshotName('');
+  };
+
+  return (
+    <section className="mb-10">
+      <div className="flex items-center justify-between mb-5 border-b border-[#2a2a2a] pb-2">
+        <h4 className="text-[9px] sm:text-[10px] uppercase font-black text-gray-500 tracking-[0.4em]">{t.history.title}</h4>
+        <div className="flex gap-2">
+          <button className={smallButton} disabled={!history.canUndo} onClick={history.undo} title={t.history.undo}>↶</button>
+          <button className={smallButton} disabled={!history.canRedo} onClick={history.redo} title={t.history.redo}>↷</button>
+        </div>
+      </div>
+
+      <ol className="max-h-40 overflow-y-auto custom-scrollbar space-y-1 mb-6">
+        {history.entries.map((entry, i) => (
+          <li key={entry.id}>
+            <button
+              onClick={() => history.jumpTo(i)}
+              className={`w-full flex items-center gap-2 px-3 py-1.5 rounded-lg text-left text-[9px] uppercase tracking-wider transition-all
+                ${i === history.index ? 'bg-orange-600/20 text-orange-400 font-bold' : i > history.index ? 'text-gray-700 hover:bg-[#1a1a1a]' : 'text-gray-400 hover:bg-[#1a1a1a]'}`}
+            >
+              <span className="w-4 text-center">{SOURCE_ICONS[entry.source]}</span>
+              <span className="truncate">{entry.label}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex gap-2 mb-3">
+        <input
+          value={snapshotName}
+          onChange={e => setSnapshotName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && saveSnapshot()}
+          placeholder={t.history.snapshotName}
+          className="flex-1 min-w-0 px-3 py-1.5 bg-[#1a1a1a] border border-[#2a2a2a] rounded-lg text-[10px] text-gray-200 placeholder-gray-600 focus:outline-none focus:border-orange-600"
+        />
+        <button className={smallButton} onClick={saveSnapshot}>{t.history.saveSnapshot}</button>
+      </div>
+
+      <ul className="space-y-2">
+        {history.snapshots.map(snapshot => (
+          <li key={snapshot.id} className="flex items-center gap-2 px-3 py-2 bg-[#161616] border border-[#262626] rounded-xl">
+            <span className="flex-1 truncate text-[9px] text-gray-300 font-bold uppercase tracking-wider">{snapshot.name}</span>
+            <button
+              className={`${smallButton} ${comparingId === snapshot.id ? 'border-orange-600 text-orange-400' : ''}`}
+              onClick={() => onCompare(comparingId === snapshot.id ? null : snapshot.id)}
+            >
+              {t.history.compare}
+            </button>
+            <button className={smallButton} onClick={() => { onCompare(null); history.restoreSnapshot(snapshot.id); }}>{t.history.restore}</button>
+            <button className={smallButton} onClick={() => { if (comparingId === snapshot.id) onCompare(null); history.deleteSnapshot(snapshot.id); }}>✕</button>
+          </li>
+        ))}
+      </ul>
+
+      {comparing && (
+        <div className="mt-3 px-3 py-2 bg-[#161616] border border-orange-600/30 rounded-xl text-[9px] text-gray-400 uppercase tracking-wider">
+          <p className="text-orange-400 font-bold mb-1">{t.history.viewing(comparing.name)}</p>
+          {diffSettings(comparing.settings, history.settings).map(key => (
+            <p key={key} className="flex justify-between">
+              <span>{t.settings[key]}</span>
+              <span>{formatValue(comparing.settings[key], t.history.edited)} → {formatValue(history.settings[key], t.history.edited)}</span>
+            </p>
+          ))}
+          {diffSettings(comparing.settings, history.settings).length === 0 && <p>{t.history.noDifferences}</p>}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { HslAdjustment, HslMixer, HueBand } from '../types';
+import { HUE_BANDS } from '../constants';
+import { useI18n } from '../hooks/useI18n';
+import ControlSlider from './ControlSlider';
+
+const MODES: (keyof HslAdjustment)[] = ['hue', 'saturation', 'luminance'];
+
+/** Lightroom-style mixer: pick a property, then adjust it for each of the eight bands. */
+const HslMixerPanel: React.FC<{
+  hsl: HslMixer;
+  onChange: (band: HueBand, key: keyof HslAdjustment, value: number, label: string) => void;
+  onCommit: () => void;
+}> = ({ hsl, onChange, onCommit }) => {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<keyof HslAdjustment>('saturation');
+  const modeLabel = t.hsl.modes[mode];
+
+  return (
+    <div>
+      <div className="flex gap-1 mb-5">
+        {MODES.map(m => (
+          <button
+            key={m}
+            onClick={() => setMode(m)}
+            className={`flex-1 py-1.5 text-[8px] sm:text-[9px] font-black uppercase tracking-widest rounded-md border transition-all
+              ${mode === m ? 'border-orange-600 bg-[#222] text-orange-400' : 'border-[#2a2a2a] bg-[#1a1a1a] text-gray-500'}`}
+          >
+            {t.hsl.modes[m]}
+          </button>
+        ))}
+      </div>
+      {HUE_BANDS.map(band => (
+        <ControlSlider
+          key={band.key}
+          label={t.hsl.bands[band.key]}
+          swatch={band.color}
+          value={hsl[band.key][mode]}
+          min={-100}
+          max={100}
+          defaultValue={0}
+          onChange={v => onChange(band.key, mode, v, `HSL ${t.hsl.bands[band.key]} · ${modeLabel}`)}
+          onCommit={onCommit}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default HslMixerPanel;
@@ -0,0 +1,26 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Locale } from '../types';
+import { loadLocale, messagesFor, saveLocale } from '../services/i18n';
+import { I18nContext } from '../hooks/useI18n';
+
+/**
+ * Holds the interface language for everything below it. The choice is
+ * remembered across sessions and mirrored in the document's `lang`.
+ */
+const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    try {
+      saveLocale(locale);
+    } catch {
+      // Without storage the choice lasts until the page is closed
+    }
+  }, [locale]);
+
+  const value = useMemo(() => ({ locale, setLocale, t: messagesFor(locale) }), [locale]);
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
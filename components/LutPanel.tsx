@@ -0,0 +1,109 @@
+import React, { useRef, useState } from 'react';
+import { EditorSettings, LutInterpolation } from '../types';
+import { INITIAL_SETTINGS } from '../constants';
+import { parseCubeLut, serializeCubeLut } from '../services/lut';
+import { bakeColorLut } from '../services/pipeline';
+import { downloadBlob } from '../services/download';
+import { fileErrorMessage } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+import ControlSlider from './ControlSlider';
+
+const INTERPOLATIONS: LutInterpolation[] = ['trilinear', 'tetrahedral'];
+
+const EXPORT_SIZES = [17, 33, 65];
+
+const smallButton = 'px-3 py-1.5 text-[8px] sm:text-[9px] font-black uppercase tracking-widest rounded-lg border border-[#2a2a2a] bg-[#1a1a1a] hover:bg-[#222] transition-all disabled:opacity-30 disabled:cursor-not-allowed';
+
+/**
+ * Loads a .cube 3D LUT into the edit, and exports the color part of the
+ * current edit (tone, white balance, curves, color, HSL, color grading and LUT) as a .cube.
+ */
+const LutPanel: React.FC<{
+  settings: EditorSettings;
+  onChange: (patch: Partial<EditorSettings>, label: string, mergeKey?: string) => void;
+  onCommit: () => void;
+  onNotify: (message: string) => void;
+}> = ({ settings, onChange, onCommit, onNotify }) => {
+  const { t } = useI18n();
+  const [exportSize, setExportSize] = useState(33);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { lut } = settings;
+
+  const load = async (file: File) => {
+    try {
+      const loaded = parseCubeLut(await file.text(), file.name.replace(/\.[^.]+$/, ''));
+      onChange({ lut: loaded, lutIntensity: 100 }, `${t.settings.lut} ${loaded.title}`);
+      onNotify(t.lut.loaded(loaded.title));
+    } catch (error) {
+      onNotify(t.lut.invalid(fileErrorMessage(t, error)));
+    }
+  };
+
+  const exportLut = () => {
+    const title = `Redmi Pro Studio ${new Date().toISOString().slice(0, 10)}`;
+    const cube = serializeCubeLut(bakeColorLut(settings, title, exportSize));
+    downloadBlob(new Blob([cube], { type: 'text/plain' }), `redmi_look_${exportSize}.cube`);
+  };
+
+  return (
+    <div>
+      <input
+        type="file"
+        ref={fileInputRef}
+        accept=".cube"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) load(file);
+        }}
+      />
+
+      <div className="flex items-center gap-2 mb-4">
+        <span className="flex-1 min-w-0 truncate text-[9px] text-gray-300 font-bold uppercase tracking-wider">
+          {lut ? `${lut.title} · ${lut.size}³` : t.lut.none}
+        </span>
+        <button className={smallButton} onClick={() => fileInputRef.current?.click()}>{t.lut.load}</button>
+        {lut && <button className={smallButton} onClick={() => onChange({ lut: null }, `− ${t.settings.lut}`)}>✕</button>}
+      </div>
+
+      {lut && (
+        <>
+          <ControlSlider
+            label={t.settings.lutIntensity}
+            value={settings.lutIntensity}
+            min={0}
+            max={100}
+            defaultValue={INITIAL_SETTINGS.lutIntensity}
+            onChange={value => onChange({ lutIntensity: value }, t.settings.lutIntensity, 'lutIntensity')}
+            onCommit={onCommit}
+          />
+          <div className="flex gap-2 mb-6">
+            {INTERPOLATIONS.map(key => (
+              <button
+                key={key}
+                onClick={() => onChange({ lutInterpolation: key }, `${t.settings.lutInterpolation}: ${t.lut.interpolations[key]}`)}
+                className={`${smallButton} flex-1 ${settings.lutInterpolation === key ? 'border-orange-600 text-orange-400' : 'text-gray-400'}`}
+              >
+                {t.lut.interpolations[key]}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      <div className="flex gap-2">
+        <select
+          value={exportSize}
+          onChange={e => setExportSize(Number(e.target.value))}
+          className="px-2 py-1.5 bg-[#1a1a1a] border border-[#2a2a2a] rounded-lg text-[9px] text-gray-300 focus:outline-none focus:border-orange-600"
+        >
+          {EXPORT_SIZES.map(size => <option key={size} value={size}>{size}³</option>)}
+        </select>
+        <button className={`${smallButton} flex-1 text-gray-300`} onClick={exportLut}>{t.lut.exportLook}</button>
+      </div>
+    </div>
+  );
+};
+
+export default LutPanel;
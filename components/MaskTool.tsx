@@ -0,0 +1,221 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { BrushStroke, Geometry, LocalMask, MaskPoint } from '../types';
+import { createFrameMapper } from '../services/geometry';
+
+export interface BrushOptions {
+  /** Radius as a fraction of the source width. */
+  size: number;
+  feather: number;
+  erase: boolean;
+}
+
+type DragTarget = 'start' | 'end' | 'line' | 'center' | 'radiusX' | 'radiusY' | 'paint';
+
+const HANDLE_PX = 16; // hit radius in CSS pixels
+
+/**
+ * On-canvas editor for the selected mask. Mask geometry is stored in source
+ * coordinates, so everything is mapped through the current crop/rotation.
+ */
+const MaskTool: React.FC<{
+  width: number;
+  height: number;
+  geometry: Geometry;
+  imageWidth: number;
+  imageHeight: number;
+  mask: LocalMask;
+  brush: BrushOptions;
+  onChange: (mask: LocalMask, mergeKey: string) => void;
+  onCommit: () => void;
+}> = ({ width, height, geometry, imageWidth, imageHeight, mask, brush, onChange, onCommit }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ target: DragTarget; origin: MaskPoint; mask: LocalMask } | null>(null);
+  const [cursor, setCursor] = useState<[number, number] | null>(null);
+
+  const mapper = useMemo(() => createFrameMapper(geometry, imageWidth, imageHeight), [geometry, imageWidth, imageHeight]);
+
+  const toCanvas = (p: MaskPoint): [number, number] => {
+    const [fx, fy] = mapper.toFrame(p.x * imageWidth, p.y * imageHeight);
+    return [(fx / mapper.width) * width, (fy / mapper.height) * height];
+  };
+
+  const toSource = (x: number, y: number): MaskPoint => {
+    const [sx, sy] = mapper.toSource((x / width) * mapper.width, (y / height) * mapper.height);
+    return { x: sx / imageWidth, y: sy / imageHeight };
+  };
+
+  const cssScale = () => width / (canvasRef.current?.getBoundingClientRect().width || width);
+
+  const handles = (): [DragTarget, [number, number]][] => {
+    switch (mask.kind) {
+      case 'linear':
+        return [['start', toCanvas(mask.start)], ['end', toCanvas(mask.end)]];
+      case 'radial':
+        return [
+          ['radiusX', toCanvas({ x: mask.center.x + mask.radiusX, y: mask.center.y })],
+          ['radiusY', toCanvas({ x: mask.center.x, y: mask.center.y - mask.radiusY })],
+          ['center', toCanvas(mask.center)]
+        ];
+      case 'brush':
+        return [];
+    }
+  };
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const s = cssScale();
+    ctx.clearRect(0, 0, width, height);
+    ctx.lineWidth = 1.5 * s;
+    ctx.strokeStyle = 'rgba(255,255,255,0.85)';
+    ctx.setLineDash([]);
+
+    if (mask.kind === 'linear') {
+      const [x0, y0] = toCanvas(mask.start);
+      const [x1, y1] = toCanvas(mask.end);
+      const len = Math.hypot(x1 - x0, y1 - y0) || 1;
+      const nx = (-(y1 - y0) / len) * Math.hypot(width, height);
+      const ny = ((x1 - x0) / len) * Math.hypot(width, height);
+      ctx.beginPath();
+      ctx.moveTo(x0 - nx, y0 - ny); ctx.lineTo(x0 + nx, y0 + ny);
+      ctx.stroke();
+      ctx.setLineDash([6 * s, 6 * s]);
+      ctx.beginPath();
+      ctx.moveTo(x1 - nx, y1 - ny); ctx.lineTo(x1 + nx, y1 + ny);
+      ctx.moveTo(x0, y0); ctx.lineTo(x1, y1);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    } else if (mask.kind === 'radial') {
+      ctx.beginPath();
+      for (let i = 0; i <= 64; i++) {
+        const a = (i / 64) * Math.PI * 2;
+        const [x, y] = toCanvas({ x: mask.center.x + Math.cos(a) * mask.radiusX, y: mask.center.y + Math.sin(a) * mask.radiusY });
+        if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+      }
+      ctx.stroke();
+    } else {
+      ctx.strokeStyle = 'rgba(234,88,12,0.6)';
+      for (const stroke of mask.strokes) {
+        ctx.lineWidth = Math.max(1, ((stroke.size * imageWidth) / mapper.width) * width * 2);
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.globalCompositeOperation = stroke.erase ? 'destination-out' : 'source-over';
+        ctx.beginPath();
+        stroke.points.forEach((p, i) => {
+          const [x, y] = toCanvas(p);
+          if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+        });
+        if (stroke.points.length === 1) ctx.lineTo(...toCanvas(stroke.points[0]));
+        ctx.stroke();
+      }
+      ctx.globalCompositeOperation = 'source-over';
+      if (cursor) {
+        const r = ((brush.size * imageWidth) / mapper.width) * width;
+        ctx.lineWidth = 1.5 * s;
+        ctx.strokeStyle = brush.erase ? '#ef4444' : '#fff';
+        ctx.beginPath();
+        ctx.arc(cursor[0], cursor[1], r, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.setLineDash([4 * s, 4 * s]);
+        ctx.beginPath();
+        ctx.arc(cursor[0], cursor[1], r * (1 - brush.feather), 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+    }
+
+    for (const [target, [x, y]] of handles()) {
+      ctx.beginPath();
+      ctx.arc(x, y, (target === 'center' || target === 'start' ? 7 : 5) * s, 0, Math.PI * 2);
+      ctx.fillStyle = target === 'end' ? '#0d0d0d' : '#ea580c';
+      ctx.fill();
+      ctx.strokeStyle = '#fff';
+      ctx.stroke();
+    }
+  });
+
+  const toLocal = (e: React.PointerEvent): [number, number] => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return [((e.clientX - rect.left) / rect.width) * width, ((e.clientY - rect.top) / rect.height) * height];
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const [x, y] = toLocal(e);
+    const hit = HANDLE_PX * cssScale();
+    let target: DragTarget | null = handles().find(([, [hx, hy]]) => Math.hypot(hx - x, hy - y) <= hit)?.[0] ?? null;
+    if (!target && mask.kind === 'linear') target = 'line';
+    if (!target && mask.kind === 'radial') target = 'center';
+    let start = mask;
+    if (mask.kind === 'brush') {
+      target = 'paint';
+      const stroke: BrushStroke = { points: [toSource(x, y)], size: brush.size, feather: brush.feather, erase: brush.erase };
+      start = { ...mask, strokes: [...mask.strokes, stroke] };
+      onChange(start, `mask:${mask.id}:paint`);
+    }
+    if (!target) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { target, origin: toSource(x, y), mask: start };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const [x, y] = toLocal(e);
+    if (mask.kind === 'brush') setCursor([x, y]);
+    const drag = dragRef.current;
+    if (!drag) return;
+    const p = toSource(x, y);
+    const dx = p.x - drag.origin.x;
+    const dy = p.y - drag.origin.y;
+    const base = drag.mask;
+    const key = `mask:${mask.id}:${drag.target}`;
+
+    if (base.kind === 'linear') {
+      if (drag.target === 'start') onChange({ ...base, start: p }, key);
+      else if (drag.target === 'end') onChange({ ...base, end: p }, key);
+      else onChange({
+        ...base,
+        start: { x: base.start.x + dx, y: base.start.y + dy },
+        end: { x: base.end.x + dx, y: base.end.y + dy }
+      }, key);
+    } else if (base.kind === 'radial') {
+      const c = base.center;
+      if (drag.target === 'center') onChange({ ...base, center: { x: c.x + dx, y: c.y + dy } }, key);
+      else {
+        // Distance in source pixels, expressed along the dragged axis.
+        const d = Math.hypot((p.x - c.x) * imageWidth, (p.y - c.y) * imageHeight);
+        onChange(drag.target === 'radiusX'
+          ? { ...base, radiusX: Math.max(0.01, d / imageWidth) }
+          : { ...base, radiusY: Math.max(0.01, d / imageHeight) }, key);
+      }
+    } else {
+      // The stroke being painted lives in the drag state so fast moves never append to a stale mask.
+      const strokes = base.strokes.slice();
+      const last = strokes[strokes.length - 1];
+      strokes[strokes.length - 1] = { ...last, points: [...last.points, p] };
+      drag.mask = { ...base, strokes };
+      onChange(drag.mask, key);
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    onCommit();
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      style={{ gridArea: '1 / 1', boxShadow: 'none' }}
+      className={`w-full h-full touch-none ${mask.kind === 'brush' ? 'cursor-none' : 'cursor-crosshair'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={() => setCursor(null)}
+    />
+  );
+};
+
+export default MaskTool;
@@ -0,0 +1,130 @@
+import React from 'react';
+import { LocalAdjustmentKey, LocalMask } from '../types';
+import { LOCAL_ADJUSTMENTS } from '../constants';
+import { maskName } from '../services/masks';
+import { useI18n } from '../hooks/useI18n';
+import ControlSlider from './ControlSlider';
+import { BrushOptions } from './MaskTool';
+
+const KIND_ICONS: Record<LocalMask['kind'], string> = {
+  linear: '▤',
+  radial: '◎',
+  brush: '🖌'
+};
+
+const smallButton = 'px-2 py-1 text-[9px] font-black rounded-md border border-[#2a2a2a] bg-[#1a1a1a] hover:bg-[#222] transition-all';
+
+const MasksPanel: React.FC<{
+  masks: LocalMask[];
+  selectedId: number | null;
+  onSelect: (id: number | null) => void;
+  onAdd: (kind: LocalMask['kind']) => void;
+  onUpdate: (mask: LocalMask, label: string, mergeKey?: string) => void;
+  onRemove: (id: number) => void;
+  onCommit: () => void;
+  brush: BrushOptions;
+  onBrushChange: (brush: BrushOptions) => void;
+}> = ({ masks, selectedId, onSelect, onAdd, onUpdate, onRemove, onCommit, brush, onBrushChange }) => {
+  const { t } = useI18n();
+  const selected = masks.find(m => m.id === selectedId);
+  const nameOf = (mask: LocalMask) => maskName(mask, masks, t.masks.kinds);
+
+  const setAdjustment = (mask: LocalMask, key: LocalAdjustmentKey) => (value: number) =>
+    onUpdate(
+      { ...mask, adjustments: { ...mask.adjustments, [key]: value } },
+      `${nameOf(mask)} · ${t.settings[key]}`,
+      `mask:${mask.id}:${key}`
+    );
+
+  return (
+    <div>
+      <div className="grid grid-cols-3 gap-2 mb-5">
+        {(Object.keys(KIND_ICONS) as LocalMask['kind'][]).map(kind => (
+          <button
+            key={kind}
+            onClick={() => onAdd(kind)}
+            className="py-2 text-[8px] sm:text-[9px] font-black uppercase tracking-wider rounded-lg border border-[#2a2a2a] bg-[#1a1a1a] hover:bg-[#222] text-gray-400 transition-all active:scale-95"
+          >
+            + {t.masks.kinds[kind]}
+          </button>
+        ))}
+      </div>
+
+      <ul className="space-y-2 mb-5">
+        {masks.map(mask => (
+          <li
+            key={mask.id}
+            className={`flex items-center gap-2 px-3 py-2 rounded-xl border transition-all
+              ${mask.id === selectedId ? 'border-orange-600 bg-[#1e1e1e]' : 'border-[#262626] bg-[#161616]'}`}
+          >
+            <button
+              onClick={() => onSelect(mask.id === selectedId ? null : mask.id)}
+              className={`flex-1 flex items-center gap-2 text-left text-[9px] font-bold uppercase tracking-wider truncate
+                ${mask.enabled ? 'text-gray-300' : 'text-gray-600 line-through'}`}
+            >
+              <span>{KIND_ICONS[mask.kind]}</span>
+              <span className="truncate">{nameOf(mask)}</span>
+            </button>
+            <button
+              className={`${smallButton} ${mask.enabled ? 'text-gray-300' : 'text-gray-600'}`}
+              title={mask.enabled ? t.masks.disable : t.masks.enable}
+              onClick={() => onUpdate({ ...mask, enabled: !mask.enabled }, `${nameOf(mask)} · ${mask.enabled ? t.masks.disabled : t.masks.enabled}`)}
+            >
+              {mask.enabled ? '👁' : '—'}
+            </button>
+            <button
+              className={`${smallButton} ${mask.inverted ? 'text-orange-400 border-orange-600' : 'text-gray-500'}`}
+              title={t.masks.invert}
+              onClick={() => onUpdate({ ...mask, inverted: !mask.inverted }, `${nameOf(mask)} · ${t.masks.invert}`)}
+            >
+              ⇄
+            </button>
+            <button className={`${smallButton} text-gray-500`} title={t.common.remove} onClick={() => onRemove(mask.id)}>✕</button>
+          </li>
+        ))}
+      </ul>
+
+      {selected && (
+        <div className="p-4 bg-[#161616] border border-[#262626] rounded-xl">
+          {selected.kind === 'brush' && (
+            <div className="mb-5 pb-4 border-b border-[#262626]">
+              <ControlSlider label={t.common.size} value={Math.round(brush.size * 100 * 4)} min={1} max={100} onChange={v => onBrushChange({ ...brush, size: v / 400 })} />
+              <ControlSlider label={t.common.feather} value={Math.round(brush.feather * 100)} min={0} max={100} onChange={v => onBrushChange({ ...brush, feather: v / 100 })} />
+              <button
+                onClick={() => onBrushChange({ ...brush, erase: !brush.erase })}
+                className={`w-full py-2 text-[9px] font-black uppercase tracking-widest rounded-lg border transition-all
+                  ${brush.erase ? 'border-red-500 text-red-400 bg-[#222]' : 'border-[#2a2a2a] text-gray-400 bg-[#1a1a1a]'}`}
+              >
+                {brush.erase ? t.masks.erasing : t.masks.painting}
+              </button>
+            </div>
+          )}
+          {selected.kind === 'radial' && (
+            <ControlSlider
+              label={t.common.feather}
+              value={Math.round(selected.feather * 100)}
+              min={0}
+              max={100}
+              onChange={v => onUpdate({ ...selected, feather: v / 100 }, `${nameOf(selected)} · ${t.common.feather}`, `mask:${selected.id}:feather`)}
+              onCommit={onCommit}
+            />
+          )}
+          {LOCAL_ADJUSTMENTS.map(({ key, min, max }) => (
+            <ControlSlider
+              key={key}
+              label={t.settings[key]}
+              value={selected.adjustments[key] ?? 0}
+              min={min}
+              max={max}
+              defaultValue={0}
+              onChange={setAdjustment(selected, key)}
+              onCommit={onCommit}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MasksPanel;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Locale, PhotoMetadata } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+/** "1/250 s" below a second, "2.5 s" above. */
+const formatShutter = (seconds: number) =>
+  seconds < 1 ? `1/${Math.round(1 / seconds)} s` : `${Math.round(seconds * 10) / 10} s`;
+
+/** "2022:08:14 18:03:11" → "14/08/2022 18:03" in Spanish, "08/14/2022, 18:03" in English. */
+const formatDate = (value: string, locale: Locale) => {
+  const match = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2})/.exec(value);
+  if (!match) return value;
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  return new Date(year, month - 1, day, hour, minute).toLocaleString(locale, {
+    day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit', hourCycle: 'h23'
+  });
+};
+
+/** Drops the maker from the model when the camera repeats it ("Canon Canon EOS R5"). */
+const cameraName = ({ make, model }: PhotoMetadata) =>
+  make && model && !model.toLowerCase().startsWith(make.split(' ')[0].toLowerCase()) ? `${make} ${model}` : model ?? make;
+
+/** Camera, lens and exposure of the active photo, as read from its EXIF. */
+const MetadataPanel: React.FC<{ metadata: PhotoMetadata | null }> = ({ metadata }) => {
+  const { locale, t } = useI18n();
+  const rows: [string, string | undefined][] = metadata
+    ? [
+        [t.metadata.camera, cameraName(metadata)],
+        [t.metadata.lens, metadata.lens],
+        [t.metadata.iso, metadata.iso !== undefined ? String(metadata.iso) : undefined],
+        [t.metadata.shutter, metadata.exposureTime !== undefined ? formatShutter(metadata.exposureTime) : undefined],
+        [t.metadata.aperture, metadata.fNumber !== undefined ? `f/${Math.round(metadata.fNumber * 10) / 10}` : undefined],
+        [
+          t.metadata.focalLength,
+          metadata.focalLength !== undefined
+            ? `${Math.round(metadata.focalLength)} mm${metadata.focalLength35 ? ` (${t.metadata.equivalent(metadata.focalLength35)})` : ''}`
+            : undefined
+        ],
+        [t.metadata.date, metadata.dateTaken && formatDate(metadata.dateTaken, locale)],
+        [t.metadata.artist, metadata.artist],
+        [t.metadata.copyright, metadata.copyright],
+        [t.metadata.gps, metadata.gps && `${metadata.gps.latitude.toFixed(5)}, ${metadata.gps.longitude.toFixed(5)}`]
+      ]
+    : [];
+  const shown = rows.filter((row): row is [string, string] => Boolean(row[1]));
+
+  return (
+    <section className="mb-10">
+      <h4 className="text-[9px] sm:text-[10px] uppercase font-black text-gray-500 tracking-[0.4em] mb-5 border-b border-[#2a2a2a] pb-2">{t.metadata.title}</h4>
+      {shown.length === 0 ? (
+        <p className="text-[9px] text-gray-600 tracking-wider">{t.metadata.empty}</p>
+      ) : (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1.5 text-[9px] tracking-wider">
+          {shown.map(([label, value]) => (
+            <React.Fragment key={label}>
+              <dt className="text-gray-500 uppercase">{label}</dt>
+              <dd className="text-gray-300 truncate" title={value}>{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+    </section>
+  );
+};
+
+export default MetadataPanel;
@@ -0,0 +1,185 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EditorSettings, PresetConfig } from '../types';
+import { PresetLibrary } from '../hooks/usePresetLibrary';
+import { parsePresetPack, presetSettingsFrom, serializePresetPack } from '../services/presets';
+import { parseXmpPreset } from '../services/xmp';
+import { downloadBlob } from '../services/download';
+import { fileErrorMessage } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface ImportReport {
+  file: string;
+  ignored: string[];
+  error?: string;
+}
+
+const smallButton = 'px-3 py-1.5 text-[8px] sm:text-[9px] font-black uppercase tracking-widest rounded-lg border border-[#2a2a2a] bg-[#1a1a1a] hover:bg-[#222] transition-all disabled:opacity-30 disabled:cursor-not-allowed';
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+const readPresetFile = async (file: File): Promise<{ presets: PresetConfig[]; ignored: string[] }> => {
+  const text = await file.text();
+  if (/\.xmp$/i.test(file.name)) {
+    const { preset, ignored } = parseXmpPreset(text, baseName(file.name));
+    return { presets: [preset], ignored };
+  }
+  return { presets: parsePresetPack(text), ignored: [] };
+};
+
+/**
+ * "My Presets": saves the current look, applies and manages saved presets,
+ * and moves them in and out as JSON packs or Lightroom .xmp files.
+ */
+const PresetLibraryPanel: React.FC<{
+  library: PresetLibrary;
+  settings: EditorSettings;
+  onApply: (preset: PresetConfig) => void;
+  onNotify: (message: string) => void;
+}> = ({ library, settings, onApply, onNotify }) => {
+  const { t } = useI18n();
+  const [name, setName] = useState('');
+  const [color, setColor] = useState('#ea580c');
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [reports, setReports] = useState<ImportReport[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Presets that could not be stored only last until the page is closed
+  useEffect(() => {
+    if (library.storageFailed) onNotify(t.presetLibrary.notStored);
+  }, [library.storageFailed, onNotify, t]);
+
+  const save = () => {
+    const presetName = name.trim() || t.presetLibrary.defaultName(library.presets.length + 1);
+    library.save(presetName, color, presetSettingsFrom(settings));
+    setName('');
+    onNotify(t.presetLibrary.saved(presetName));
+  };
+
+  const importFiles = async (files: File[]) => {
+    const imported: PresetConfig[] = [];
+    const results: ImportReport[] = [];
+    for (const file of files) {
+      try {
+        const { presets, ignored } = await readPresetFile(file);
+        imported.push(...presets);
+        if (ignored.length > 0) results.push({ file: file.name, ignored });
+      } catch (error) {
+        results.push({ file: file.name, ignored: [], error: fileErrorMessage(t, error) });
+      }
+    }
+    if (imported.length > 0) library.importMany(imported);
+    setReports(results);
+    onNotify(t.presetLibrary.imported(imported.length));
+  };
+
+  const exportPack = () => {
+    const blob = new Blob([serializePresetPack(library.presets)], { type: 'application/json' });
+    downloadBlob(blob, 'redmi_presets.json');
+  };
+
+  return (
+    <section className="mb-10">
+      <div className="flex items-center justify-between mb-5 border-b border-[#2a2a2a] pb-2">
+        <h4 className="text-[9px] sm:text-[10px] uppercase font-black text-gray-500 tracking-[0.4em]">{t.presetLibrary.title}</h4>
+        <div className="flex gap-2">
+          <button className={smallButton} onClick={() => fileInputRef.current?.click()} title={t.presetLibrary.importHint}>{t.common.import}</button>
+          <button className={smallButton} disabled={library.presets.length === 0} onClick={exportPack}>{t.common.export}</button>
+        </div>
+        <input
+          type="file"
+          ref={fileInputRef}
+          multiple
+          accept=".json,.xmp,application/json"
+          className="hidden"
+          onChange={e => {
+            const files = Array.from(e.target.files ?? []) as File[];
+            e.target.value = '';
+            if (files.length > 0) importFiles(files);
+          }}
+        />
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        <input
+          type="color"
+          value={color}
+          onChange={e => setColor(e.target.value)}
+          className="w-8 h-8 shrink-0 bg-transparent border border-[#2a2a2a] rounded-lg cursor-pointer"
+          title={t.common.color}
+        />
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && save()}
+          placeholder={t.presetLibrary.namePlaceholder}
+          className="flex-1 min-w-0 px-3 py-1.5 bg-[#1a1a1a] border border-[#2a2a2a] rounded-lg text-[10px] text-gray-200 placeholder-gray-600 focus:outline-none focus:border-orange-600"
+        />
+        <button className={smallButton} onClick={save}>{t.common.save}</button>
+      </div>
+
+      {library.presets.length === 0 && (
+        <p className="text-[9px] text-gray-600 uppercase tracking-wider">{t.presetLibrary.empty}</p>
+      )}
+
+      <ul className="max-h-56 overflow-y-auto custom-scrollbar space-y-2">
+        {library.presets.map(preset => (
+          <li key={preset.id} className="flex items-center gap-2 px-3 py-2 bg-[#161616] border border-[#262626] rounded-xl">
+            <input
+              type="color"
+              value={preset.color}
+              onChange={e => library.update(preset.id, { color: e.target.value })}
+              className="w-4 h-4 shrink-0 bg-transparent border-0 rounded-full cursor-pointer"
+              title={t.common.color}
+            />
+            {editingId === preset.id ? (
+              <input
+                autoFocus
+                defaultValue={preset.name}
+                onBlur={e => {
+                  const value = e.target.value.trim();
+                  if (value) library.update(preset.id, { name: value.slice(0, 60) });
+                  setEditingId(null);
+                }}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') e.currentTarget.blur();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="flex-1 min-w-0 px-2 py-0.5 bg-[#1a1a1a] border border-orange-600 rounded text-[9px] text-gray-200 focus:outline-none"
+              />
+            ) : (
+              <button
+                onClick={() => onApply(preset)}
+                onDoubleClick={() => setEditingId(preset.id)}
+                title={t.presetLibrary.itemHint}
+                className="flex-1 min-w-0 text-left truncate text-[9px] text-gray-300 hover:text-white font-bold uppercase tracking-wider"
+              >
+                {preset.name}
+              </button>
+            )}
+            <button className={smallButton} onClick={() => setEditingId(preset.id)} title={t.presetLibrary.rename}>✎</button>
+            <button className={smallButton} onClick={() => library.remove(preset.id)} title={t.common.remove}>✕</button>
+          </li>
+        ))}
+      </ul>
+
+      {reports.length > 0 && (
+        <div className="mt-3 px-3 py-2 bg-[#161616] border border-orange-600/30 rounded-xl text-[9px] text-gray-400 tracking-wider">
+          <div className="flex items-center justify-between mb-1">
+            <p className="text-orange-400 font-bold uppercase">{t.presetLibrary.report}</p>
+            <button className="text-gray-500 hover:text-white" onClick={() => setReports([])}>✕</button>
+          </div>
+          {reports.map(report => (
+            <p key={report.file} className="mb-1">
+              <span className="text-gray-300 font-bold">{report.file}</span>
+              {report.error
+                ? <span className="text-red-400"> · {t.presetLibrary.error} {report.error}</span>
+                : <span> · {t.presetLibrary.ignored} {report.ignored.join(', ')}</span>}
+            </p>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default PresetLibraryPanel;
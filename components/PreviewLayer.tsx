@@ -0,0 +1,63 @@
+import React, { useEffect, useRef } from 'react';
+import { FrameRegion, RasterImage } from '../types';
+import { toImageData } from '../services/imageProcessor';
+
+/** Full-resolution render of part of the frame, shown over the proxy while zoomed. */
+export interface DetailImage {
+  image: RasterImage;
+  region: FrameRegion;
+}
+
+// A canvas keeps the color space of its first context; renders all share the
+// worker's working space, so the first image decides it.
+const draw = (canvas: HTMLCanvasElement | null, image: RasterImage | null | undefined) => {
+  if (!canvas || !image) return;
+  const ctx = canvas.getContext('2d', { colorSpace: image.colorSpace ?? 'srgb' });
+  if (!ctx) return;
+  canvas.width = image.width;
+  canvas.height = image.height;
+  ctx.putImageData(toImageData(image), 0, 0);
+};
+
+/**
+ * One rendered version of the photo: the proxy stretched over the whole
+ * frame, plus the detail render positioned over the region it covers.
+ */
+const PreviewLayer: React.FC<{
+  image: RasterImage | null;
+  detail: DetailImage | null;
+  /** Show magnified pixels as hard squares instead of smoothing them. */
+  pixelated: boolean;
+  canvasRef?: React.RefObject<HTMLCanvasElement>;
+}> = ({ image, detail, pixelated, canvasRef }) => {
+  const ownRef = useRef<HTMLCanvasElement>(null);
+  const baseRef = canvasRef ?? ownRef;
+  const detailRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => draw(baseRef.current, image), [image]);
+  useEffect(() => draw(detailRef.current, detail?.image), [detail]);
+
+  return (
+    <div className="relative w-full h-full" style={{ gridArea: '1 / 1' }}>
+      <canvas ref={baseRef} className="w-full h-full" />
+      {detail && (
+        <canvas
+          ref={detailRef}
+          className="absolute"
+          style={{
+            left: `${detail.region.x * 100}%`,
+            top: `${detail.region.y * 100}%`,
+            width: `${detail.region.width * 100}%`,
+            height: `${detail.region.height * 100}%`,
+            maxWidth: 'none',
+            maxHeight: 'none',
+            boxShadow: 'none',
+            imageRendering: pixelated ? 'pixelated' : 'auto'
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PreviewLayer;
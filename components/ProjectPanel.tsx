@@ -0,0 +1,72 @@
+import React, { useRef } from 'react';
+import { EditorSettings, Locale, Photo } from '../types';
+import { parseSidecar, serializeSidecar, sidecarFileName } from '../services/sidecar';
+import { downloadBlob } from '../services/download';
+import { fileErrorMessage } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+const smallButton = 'px-3 py-1.5 text-[8px] sm:text-[9px] font-black uppercase tracking-widest rounded-lg border border-[#2a2a2a] bg-[#1a1a1a] hover:bg-[#222] transition-all disabled:opacity-30 disabled:cursor-not-allowed';
+
+const formatTime = (time: number, locale: Locale) => new Date(time).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * The open project: autosave status, the edit of the active photo as a
+ * .redmi.json sidecar (export and import), and closing the project.
+ */
+const ProjectPanel: React.FC<{
+  photo: Photo;
+  settings: EditorSettings;
+  savedAt: number | null;
+  onImport: (settings: EditorSettings, label: string) => void;
+  onClose: () => void;
+  onNotify: (message: string) => void;
+}> = ({ photo, settings, savedAt, onImport, onClose, onNotify }) => {
+  const { locale, t } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const exportEdit = () => {
+    const json = serializeSidecar(settings, { name: photo.name, width: photo.width, height: photo.height });
+    downloadBlob(new Blob([json], { type: 'application/json' }), sidecarFileName(photo.name));
+  };
+
+  const importEdit = async (file: File) => {
+    try {
+      const { settings: imported, source } = parseSidecar(await file.text());
+      onImport(imported, file.name.replace(/\.json$/i, ''));
+      const otherPhoto = source && (source.width !== photo.width || source.height !== photo.height);
+      onNotify(otherPhoto ? t.project.importedFromOther(source.name) : t.project.imported);
+    } catch (error) {
+      onNotify(t.project.invalid(fileErrorMessage(t, error)));
+    }
+  };
+
+  return (
+    <section className="mb-10">
+      <div className="flex items-center justify-between mb-5 border-b border-[#2a2a2a] pb-2">
+        <h4 className="text-[9px] sm:text-[10px] uppercase font-black text-gray-500 tracking-[0.4em]">{t.project.title}</h4>
+        <span className="text-[9px] text-gray-600 tracking-wider">
+          {savedAt !== null ? t.project.savedAt(formatTime(savedAt, locale)) : t.project.unsaved}
+        </span>
+      </div>
+
+      <input
+        type="file"
+        ref={fileInputRef}
+        accept=".json,application/json"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) importEdit(file);
+        }}
+      />
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        <button className={smallButton} onClick={exportEdit}>{t.project.exportEdit}</button>
+        <button className={smallButton} onClick={() => fileInputRef.current?.click()}>{t.project.importEdit}</button>
+      </div>
+      <button className={`${smallButton} w-full`} onClick={onClose}>{t.project.close}</button>
+    </section>
+  );
+};
+
+export default ProjectPanel;
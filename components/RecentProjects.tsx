@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { Locale } from '../types';
+import { ProjectSummary } from '../services/projectStore';
+import { useI18n } from '../hooks/useI18n';
+
+const formatDate = (time: number, locale: Locale) =>
+  new Date(time).toLocaleString(locale, { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/** Object URLs for the project thumbnails, released when the list changes. */
+const useThumbnails = (projects: ProjectSummary[]) => {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  useEffect(() => {
+    const created = Object.fromEntries(
+      projects.flatMap(p => (p.thumbnail ? [[p.id, URL.createObjectURL(p.thumbnail)]] : []))
+    );
+    setUrls(created);
+    return () => Object.values(created).forEach(url => URL.revokeObjectURL(url));
+  }, [projects]);
+  return urls;
+};
+
+/** Saved projects on the empty screen, most recent first. */
+const RecentProjects: React.FC<{
+  projects: ProjectSummary[];
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+}> = ({ projects, onOpen, onDelete }) => {
+  const { locale, t } = useI18n();
+  const thumbnails = useThumbnails(projects);
+  if (projects.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-md">
+      <h4 className="text-[9px] sm:text-[10px] uppercase font-black text-gray-500 tracking-[0.4em] mb-4 border-b border-[#2a2a2a] pb-2">
+        {t.recentProjects.title}
+      </h4>
+      <ul className="space-y-2 max-h-[40vh] overflow-y-auto custom-scrollbar">
+        {projects.map(project => (
+          <li
+            key={project.id}
+            onClick={() => onOpen(project.id)}
+            className="flex items-center gap-3 p-2 rounded-xl bg-[#121212] border border-[#2a2a2a] hover:border-orange-600 cursor-pointer transition-all group"
+          >
+            <div className="w-14 h-10 shrink-0 rounded-lg overflow-hidden bg-[#1a1a1a]">
+              {thumbnails[project.id] && (
+                <img src={thumbnails[project.id]} alt={project.name} className="w-full h-full object-cover" draggable={false} />
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-[10px] text-gray-200 font-bold truncate">{project.name}</p>
+              <p className="text-[8px] text-gray-500 tracking-wider">
+                {formatDate(project.updatedAt, locale)} · {t.recentProjects.photos(project.photoCount)}
+              </p>
+            </div>
+            <button
+              onClick={e => { e.stopPropagation(); onDelete(project.id); }}
+              className="px-2 text-[10px] text-gray-600 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all"
+              title={t.recentProjects.remove}
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default RecentProjects;
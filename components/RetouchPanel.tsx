@@ -0,0 +1,94 @@
+import React from 'react';
+import { RetouchMode, RetouchSpot } from '../types';
+import { spotName } from '../services/retouch';
+import { useI18n } from '../hooks/useI18n';
+import ControlSlider from './ControlSlider';
+import { RetouchOptions } from './RetouchTool';
+
+const MODE_ICONS: Record<RetouchMode, string> = {
+  heal: '🩹',
+  clone: '⧉'
+};
+
+const smallButton = 'px-2 py-1 text-[9px] font-black rounded-md border border-[#2a2a2a] bg-[#1a1a1a] hover:bg-[#222] transition-all';
+
+/**
+ * Spot removal: turns the on-canvas tool on and off and lists the spots.
+ * The sliders edit the selected spot, or the next one when none is selected.
+ */
+const RetouchPanel: React.FC<{
+  active: boolean;
+  onToggle: () => void;
+  spots: RetouchSpot[];
+  selectedId: number | null;
+  onSelect: (id: number | null) => void;
+  onUpdate: (spot: RetouchSpot, label: string, mergeKey?: string) => void;
+  onRemove: (id: number) => void;
+  onCommit: () => void;
+  options: RetouchOptions;
+  onOptionsChange: (options: RetouchOptions) => void;
+}> = ({ active, onToggle, spots, selectedId, onSelect, onUpdate, onRemove, onCommit, options, onOptionsChange }) => {
+  const { t } = useI18n();
+  const selected = spots.find(s => s.id === selectedId);
+  const current = selected ?? options;
+
+  const set = <K extends keyof RetouchOptions>(key: K, field: string) => (value: RetouchOptions[K]) => {
+    onOptionsChange({ ...options, [key]: value });
+    if (selected) onUpdate({ ...selected, [key]: value }, `${spotName(selected, spots, t.retouch.modes)} · ${field}`, `spot:${selected.id}:${key}`);
+  };
+
+  return (
+    <div>
+      <button
+        onClick={onToggle}
+        className={`w-full py-3 mb-5 text-[9px] sm:text-[10px] font-black uppercase tracking-widest rounded-xl border transition-all active:scale-95
+          ${active ? 'border-orange-600 bg-[#222] text-orange-400' : 'border-[#2a2a2a] bg-[#1a1a1a] hover:bg-[#222] text-gray-400'}`}
+      >
+        {active ? t.retouch.active : t.retouch.start}
+      </button>
+
+      <div className="grid grid-cols-2 gap-2 mb-5">
+        {(Object.keys(MODE_ICONS) as RetouchMode[]).map(mode => (
+          <button
+            key={mode}
+            onClick={() => {
+              set('mode', t.retouch.mode)(mode);
+              onCommit();
+            }}
+            className={`py-2 text-[8px] sm:text-[9px] font-black uppercase tracking-wider rounded-lg border transition-all active:scale-95
+              ${current.mode === mode ? 'border-orange-600 bg-[#222] text-orange-400' : 'border-[#2a2a2a] bg-[#1a1a1a] hover:bg-[#222] text-gray-400'}`}
+          >
+            {MODE_ICONS[mode]} {t.retouch.modes[mode]}
+          </button>
+        ))}
+      </div>
+
+      <ControlSlider label={t.common.size} value={Math.round(current.size * 100 * 4)} min={1} max={100} onChange={v => set('size', t.common.size)(v / 400)} onCommit={onCommit} />
+      <ControlSlider label={t.common.feather} value={Math.round(current.feather * 100)} min={0} max={100} onChange={v => set('feather', t.common.feather)(v / 100)} onCommit={onCommit} />
+      <ControlSlider label={t.retouch.opacity} value={current.opacity} min={0} max={100} onChange={set('opacity', t.retouch.opacity)} onCommit={onCommit} />
+
+      {spots.length > 0 && (
+        <ul className="space-y-2">
+          {spots.map(spot => (
+            <li
+              key={spot.id}
+              className={`flex items-center gap-2 px-3 py-2 rounded-xl border transition-all
+                ${spot.id === selectedId ? 'border-orange-600 bg-[#1e1e1e]' : 'border-[#262626] bg-[#161616]'}`}
+            >
+              <button
+                onClick={() => onSelect(spot.id === selectedId ? null : spot.id)}
+                className="flex-1 flex items-center gap-2 text-left text-[9px] font-bold uppercase tracking-wider truncate text-gray-300"
+              >
+                <span>{MODE_ICONS[spot.mode]}</span>
+                <span className="truncate">{spotName(spot, spots, t.retouch.modes)}</span>
+              </button>
+              <button className={`${smallButton} text-gray-500`} title={t.common.remove} onClick={() => onRemove(spot.id)}>✕</button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RetouchPanel;
@@ -0,0 +1,198 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Geometry, MaskPoint, RetouchMode, RetouchSpot } from '../types';
+import { createFrameMapper } from '../services/geometry';
+
+/** Settings for the next spot painted. */
+export interface RetouchOptions {
+  mode: RetouchMode;
+  /** Radius as a fraction of the source width. */
+  size: number;
+  feather: number;
+  opacity: number;
+}
+
+const HANDLE_PX = 12; // extra hit slop in CSS pixels
+
+/**
+ * On-canvas spot removal: click or paint over a spot to retouch it, click a
+ * spot to select it and drag its source (the dashed outline) elsewhere.
+ */
+const RetouchTool: React.FC<{
+  width: number;
+  height: number;
+  geometry: Geometry;
+  imageWidth: number;
+  imageHeight: number;
+  spots: RetouchSpot[];
+  selectedId: number | null;
+  /** Brush path of a spot whose source is still being picked. */
+  pending: MaskPoint[] | null;
+  options: RetouchOptions;
+  onSelect: (id: number | null) => void;
+  onAdd: (points: MaskPoint[]) => void;
+  onChange: (spot: RetouchSpot, mergeKey: string) => void;
+  onCommit: () => void;
+}> = ({ width, height, geometry, imageWidth, imageHeight, spots, selectedId, pending, options, onSelect, onAdd, onChange, onCommit }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ kind: 'paint'; points: MaskPoint[] } | { kind: 'source'; origin: MaskPoint; spot: RetouchSpot } | null>(null);
+  const [stroke, setStroke] = useState<MaskPoint[] | null>(null);
+  const [cursor, setCursor] = useState<[number, number] | null>(null);
+
+  const mapper = useMemo(() => createFrameMapper(geometry, imageWidth, imageHeight), [geometry, imageWidth, imageHeight]);
+  const selected = spots.find(s => s.id === selectedId);
+
+  const toCanvas = (p: MaskPoint): [number, number] => {
+    const [fx, fy] = mapper.toFrame(p.x * imageWidth, p.y * imageHeight);
+    return [(fx / mapper.width) * width, (fy / mapper.height) * height];
+  };
+
+  const toSource = (x: number, y: number): MaskPoint => {
+    const [sx, sy] = mapper.toSource((x / width) * mapper.width, (y / height) * mapper.height);
+    return { x: sx / imageWidth, y: sy / imageHeight };
+  };
+
+  const radiusOnCanvas = (size: number) => ((size * imageWidth) / mapper.width) * width;
+  const cssScale = () => width / (canvasRef.current?.getBoundingClientRect().width || width);
+  const shifted = (points: MaskPoint[], offset: MaskPoint) => points.map(p => ({ x: p.x + offset.x, y: p.y + offset.y }));
+
+  const hitsPath = (points: MaskPoint[], size: number, x: number, y: number) => {
+    const reach = radiusOnCanvas(size) + HANDLE_PX * cssScale();
+    return points.some(p => {
+      const [px, py] = toCanvas(p);
+      return Math.hypot(px - x, py - y) <= reach;
+    });
+  };
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const s = cssScale();
+    ctx.clearRect(0, 0, width, height);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    // A click is drawn as a circle, a painted path as a translucent band.
+    const drawPath = (points: MaskPoint[], size: number, color: string, dashed = false) => {
+      const r = radiusOnCanvas(size);
+      const canvasPoints = points.map(toCanvas);
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1.5 * s;
+      ctx.setLineDash(dashed ? [4 * s, 4 * s] : []);
+      if (canvasPoints.length === 1) {
+        ctx.beginPath();
+        ctx.arc(canvasPoints[0][0], canvasPoints[0][1], r, 0, Math.PI * 2);
+        ctx.stroke();
+      } else {
+        ctx.lineWidth = r * 2;
+        ctx.globalAlpha = 0.35;
+        ctx.beginPath();
+        canvasPoints.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+        ctx.stroke();
+        ctx.globalAlpha = 1;
+      }
+      ctx.setLineDash([]);
+    };
+
+    for (const spot of spots) {
+      if (spot.id === selectedId) continue;
+      drawPath(spot.points, spot.size, 'rgba(255,255,255,0.6)');
+    }
+    if (selected) {
+      const source = shifted(selected.points, selected.offset);
+      const [tx, ty] = toCanvas(selected.points[0]);
+      const [sx, sy] = toCanvas(source[0]);
+      ctx.strokeStyle = 'rgba(255,255,255,0.8)';
+      ctx.lineWidth = 1 * s;
+      ctx.beginPath();
+      ctx.moveTo(tx, ty);
+      ctx.lineTo(sx, sy);
+      ctx.stroke();
+      drawPath(source, selected.size, '#fff', true);
+      drawPath(selected.points, selected.size, '#ea580c');
+    }
+    const painting = stroke ?? pending;
+    if (painting) drawPath(painting, options.size, '#ea580c');
+
+    if (cursor && !painting) {
+      const r = radiusOnCanvas(options.size);
+      ctx.lineWidth = 1.5 * s;
+      ctx.strokeStyle = '#fff';
+      ctx.beginPath();
+      ctx.arc(cursor[0], cursor[1], r, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.setLineDash([4 * s, 4 * s]);
+      ctx.beginPath();
+      ctx.arc(cursor[0], cursor[1], r * (1 - options.feather), 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+  });
+
+  const toLocal = (e: React.PointerEvent): [number, number] => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return [((e.clientX - rect.left) / rect.width) * width, ((e.clientY - rect.top) / rect.height) * height];
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (pending) return;
+    const [x, y] = toLocal(e);
+    const p = toSource(x, y);
+    if (selected && hitsPath(shifted(selected.points, selected.offset), selected.size, x, y)) {
+      dragRef.current = { kind: 'source', origin: p, spot: selected };
+    } else {
+      // Later spots are drawn on top, so they win the hit test.
+      const hit = [...spots].reverse().find(spot => hitsPath(spot.points, spot.size, x, y));
+      if (hit) {
+        onSelect(hit.id);
+        return;
+      }
+      dragRef.current = { kind: 'paint', points: [p] };
+      setStroke([p]);
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const [x, y] = toLocal(e);
+    setCursor([x, y]);
+    const drag = dragRef.current;
+    if (!drag) return;
+    const p = toSource(x, y);
+    if (drag.kind === 'paint') {
+      drag.points = [...drag.points, p];
+      setStroke(drag.points);
+    } else {
+      const { spot, origin } = drag;
+      onChange({ ...spot, offset: { x: spot.offset.x + p.x - origin.x, y: spot.offset.y + p.y - origin.y } }, `spot:${spot.id}:source`);
+    }
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    dragRef.current = null;
+    if (drag.kind === 'paint') {
+      setStroke(null);
+      onAdd(drag.points);
+    } else {
+      onCommit();
+    }
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      style={{ gridArea: '1 / 1', boxShadow: 'none' }}
+      className={`w-full h-full touch-none ${pending ? 'cursor-wait' : 'cursor-none'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={() => setCursor(null)}
+    />
+  );
+};
+
+export default RetouchTool;
@@ -0,0 +1,81 @@
+import React, { useEffect, useRef } from 'react';
+import { SHORTCUTS } from '../constants';
+import { formatCombo } from '../services/shortcuts';
+import { useDialogFocus } from '../hooks/useDialogFocus';
+import { useI18n } from '../hooks/useI18n';
+
+const sectionTitle = 'text-[9px] uppercase font-black text-gray-500 tracking-[0.3em] mb-3';
+
+const Keys: React.FC<{ keys: string[] }> = ({ keys }) => (
+  <span className="flex items-center gap-1 shrink-0">
+    {/* Long runs (the preset digits) show as a range */}
+    {(keys.length > 3 ? [keys[0], keys[keys.length - 1]] : keys).map((combo, i) => (
+      <React.Fragment key={combo}>
+        {i > 0 && <span className="text-gray-600">{keys.length > 3 ? '–' : '/'}</span>}
+        <kbd className="px-1.5 py-0.5 text-[9px] font-bold text-gray-200 bg-[#222] border border-[#333] rounded">{formatCombo(combo)}</kbd>
+      </React.Fragment>
+    ))}
+  </span>
+);
+
+const Row: React.FC<{ keys: string[]; label: string }> = ({ keys, label }) => (
+  <li className="flex items-center justify-between gap-4 py-1.5 border-b border-[#1e1e1e] text-[10px] text-gray-400">
+    <span>{label}</span>
+    <Keys keys={keys} />
+  </li>
+);
+
+/** Overlay listing the keyboard shortcuts and the slider controls. */
+const ShortcutHelp: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { t } = useI18n();
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useDialogFocus(dialogRef);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === 'Escape' && onClose();
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-[90] grid place-items-center bg-black/70 p-4" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label={t.shortcuts.title}
+        tabIndex={-1}
+        onClick={e => e.stopPropagation()}
+        className="w-full max-w-md max-h-full overflow-y-auto custom-scrollbar bg-[#161616] border border-[#2a2a2a] rounded-2xl p-6 shadow-2xl focus:outline-none"
+      >
+        <h3 className="text-[10px] uppercase font-black text-gray-300 tracking-[0.4em] mb-6 border-b border-[#2a2a2a] pb-2">
+          {t.shortcuts.title}
+        </h3>
+
+        <ul className="mb-6">
+          {SHORTCUTS.map(({ action, keys }) => (
+            <Row key={action} keys={keys} label={t.shortcuts.actions[action]} />
+          ))}
+        </ul>
+
+        <h4 className={sectionTitle}>{t.shortcuts.sliders}</h4>
+        <ul className="mb-6">
+          <Row keys={['←', '→']} label={t.shortcuts.step} />
+          <Row keys={['Shift+←', 'Shift+→']} label={t.shortcuts.coarse} />
+          <Row keys={['Alt+←', 'Alt+→']} label={t.shortcuts.fine} />
+          <Row keys={[t.shortcuts.doubleClick]} label={t.shortcuts.reset} />
+        </ul>
+        <p className="text-[9px] text-gray-600 tracking-wider mb-6">{t.shortcuts.type}</p>
+
+        <button
+          onClick={onClose}
+          className="w-full py-3 text-[9px] font-black text-gray-500 hover:text-white bg-[#1a1a1a] border border-[#2a2a2a] rounded-xl hover:bg-[#222] transition-all uppercase tracking-[0.3em]"
+        >
+          {t.shortcuts.close}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutHelp;
@@ -0,0 +1,161 @@
+import React, { useRef } from 'react';
+import { CompareMode, RasterImage } from '../types';
+import { ZoomPan } from '../hooks/useZoomPan';
+import { useI18n } from '../hooks/useI18n';
+import PreviewLayer, { DetailImage } from './PreviewLayer';
+
+// null fits the frame to the viewport.
+const ZOOM_STEPS: (number | null)[] = [null, 1, 2];
+
+const COMPARE_MODES: { mode: CompareMode; label: string }[] = [
+  { mode: 'off', label: '▣' },
+  { mode: 'split', label: '◧' },
+  { mode: 'side', label: '◫' }
+];
+
+const toolbarButton = 'px-2.5 py-1 text-[9px] font-black uppercase tracking-wider rounded-md transition-all';
+
+// A `fit`-sized stack of layers centered in its cell, moved by the shared zoom transform.
+const ZoomLayer: React.FC<{ zoomPan: ZoomPan; clipPath?: string; interactive?: boolean; children: React.ReactNode }> = ({
+  zoomPan, clipPath, interactive, children
+}) => (
+  <div className="absolute inset-0 grid place-items-center pointer-events-none" style={{ clipPath }}>
+    <div
+      className={`relative grid ${interactive ? 'pointer-events-auto' : ''}`}
+      style={{ width: zoomPan.fit!.width, height: zoomPan.fit!.height, transform: zoomPan.transform, transformOrigin: 'center' }}
+    >
+      {children}
+    </div>
+  </div>
+);
+
+const Badge: React.FC<{ children: React.ReactNode; side: 'left' | 'right' }> = ({ children, side }) => (
+  <span className={`absolute top-3 ${side === 'left' ? 'left-3' : 'right-3'} px-2 py-0.5 bg-black/60 text-[8px] font-black uppercase tracking-widest text-gray-300 rounded pointer-events-none`}>
+    {children}
+  </span>
+);
+
+/**
+ * Preview area: zoomable result with optional before/after comparison
+ * (split slider, side by side, or press-and-hold for the original).
+ * Editing tools are passed in and stacked over the result.
+ */
+const Viewport: React.FC<{
+  containerRef: React.RefObject<HTMLDivElement>;
+  zoomPan: ZoomPan;
+  compareMode: CompareMode;
+  onCompareModeChange: (mode: CompareMode) => void;
+  split: number;
+  onSplitChange: (split: number) => void;
+  showOriginal: boolean;
+  onShowOriginalChange: (show: boolean) => void;
+  after: RasterImage | null;
+  afterDetail: DetailImage | null;
+  before: RasterImage | null;
+  beforeDetail: DetailImage | null;
+  canvasRef: React.RefObject<HTMLCanvasElement>;
+  tools?: React.ReactNode;
+}> = ({
+  containerRef, zoomPan, compareMode, onCompareModeChange, split, onSplitChange, showOriginal, onShowOriginalChange,
+  after, afterDetail, before, beforeDetail, canvasRef, tools
+}) => {
+  const { t } = useI18n();
+  const splitDragRef = useRef(false);
+  const pixelated = (zoomPan.zoom ?? 0) > 1;
+  const ready = zoomPan.fit !== null;
+
+  const afterLayer = <PreviewLayer image={after} detail={afterDetail} pixelated={pixelated} canvasRef={canvasRef} />;
+  const beforeLayer = <PreviewLayer image={before} detail={beforeDetail} pixelated={pixelated} />;
+
+  const moveSplit = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!splitDragRef.current) return;
+    const rect = (e.currentTarget.parentElement as HTMLElement).getBoundingClientRect();
+    onSplitChange(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+  };
+
+  const zoomLabel = (zoom: number | null) => (zoom === null ? t.viewport.fit : `${Math.round(zoom * 100)}%`);
+
+  return (
+    <>
+      {after && (
+        <div className="absolute top-2 left-1/2 -translate-x-1/2 z-10 flex items-center gap-1 p-1 bg-[#161616]/90 border border-[#2a2a2a] rounded-lg">
+          {ZOOM_STEPS.map(zoom => (
+            <button
+              key={String(zoom)}
+              onClick={() => zoomPan.setZoom(zoom)}
+              className={`${toolbarButton} ${zoomPan.zoom === zoom ? 'bg-orange-600 text-white' : 'text-gray-400 hover:bg-[#222]'}`}
+            >
+              {zoomLabel(zoom)}
+            </button>
+          ))}
+          <span className="px-2 text-[9px] font-bold text-orange-500 tabular-nums min-w-[3.5rem] text-center">{zoomLabel(zoomPan.zoom)}</span>
+          <span className="w-px h-4 bg-[#2a2a2a]" />
+          {COMPARE_MODES.map(({ mode, label }) => (
+            <button
+              key={mode}
+              title={t.viewport.compareModes[mode]}
+              onClick={() => onCompareModeChange(mode)}
+              className={`${toolbarButton} ${compareMode === mode ? 'bg-orange-600 text-white' : 'text-gray-400 hover:bg-[#222]'}`}
+            >
+              {label}
+            </button>
+          ))}
+          <button
+            title={t.viewport.holdOriginal}
+            onPointerDown={() => onShowOriginalChange(true)}
+            onPointerUp={() => onShowOriginalChange(false)}
+            onPointerLeave={() => onShowOriginalChange(false)}
+            onPointerCancel={() => onShowOriginalChange(false)}
+            className={`${toolbarButton} select-none ${showOriginal ? 'bg-white text-black' : 'text-gray-400 hover:bg-[#222]'}`}
+          >
+            {t.common.original}
+          </button>
+        </div>
+      )}
+
+      <div ref={containerRef} className={`w-full h-full grid ${compareMode === 'side' ? 'grid-cols-2 gap-2' : ''}`}>
+        {ready && compareMode === 'side' && (
+          <div data-zoom-cell className="relative overflow-hidden touch-none" {...zoomPan.handlers}>
+            <ZoomLayer zoomPan={zoomPan}>{beforeLayer}</ZoomLayer>
+            <Badge side="left">{t.viewport.before}</Badge>
+          </div>
+        )}
+        {ready && (
+          <div data-zoom-cell className="relative overflow-hidden touch-none" {...zoomPan.handlers}>
+            <ZoomLayer zoomPan={zoomPan}>{afterLayer}</ZoomLayer>
+            {(compareMode === 'split' || showOriginal) && (
+              <ZoomLayer zoomPan={zoomPan} clipPath={showOriginal ? undefined : `inset(0 ${(1 - split) * 100}% 0 0)`}>
+                {beforeLayer}
+              </ZoomLayer>
+            )}
+            {tools && <ZoomLayer zoomPan={zoomPan} interactive>{tools}</ZoomLayer>}
+            {compareMode === 'split' && !showOriginal && (
+              <>
+                <div
+                  className="absolute inset-y-0 w-6 -ml-3 flex justify-center cursor-ew-resize touch-none"
+                  style={{ left: `${split * 100}%` }}
+                  onPointerDown={e => {
+                    e.stopPropagation();
+                    e.currentTarget.setPointerCapture(e.pointerId);
+                    splitDragRef.current = true;
+                  }}
+                  onPointerMove={moveSplit}
+                  onPointerUp={() => { splitDragRef.current = false; }}
+                  onPointerCancel={() => { splitDragRef.current = false; }}
+                >
+                  <div className="w-0.5 h-full bg-white/80 shadow" />
+                </div>
+                <Badge side="left">{t.viewport.before}</Badge>
+                <Badge side="right">{t.viewport.after}</Badge>
+              </>
+            )}
+            {compareMode === 'side' && <Badge side="right">{t.viewport.after}</Badge>}
+            {showOriginal && <Badge side="left">{t.common.original}</Badge>}
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default Viewport;
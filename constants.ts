@@ -1,7 +1,77 @@
 
-import { EditorSettings, PresetConfig } from './types';
+import {
+  AiSettingKey, AspectRatioKey, BuiltInPreset, BuiltInPresetKey, ColorGrading, CropRect, CurvePoint, EditorSettings, ExportFormat,
+  ExportSettings, Geometry, GradingRange, GradingWheel, HslAdjustment, HslMixer, HueBand, LocalAdjustmentKey, NumericSettingKey, Shortcut, ToneCurves
+} from './types';
+
+export const IDENTITY_CURVE: CurvePoint[] = [{ x: 0, y: 0 }, { x: 255, y: 255 }];
+
+export const IDENTITY_CURVES: ToneCurves = {
+  master: IDENTITY_CURVE,
+  red: IDENTITY_CURVE,
+  green: IDENTITY_CURVE,
+  blue: IDENTITY_CURVE
+};
+
+/** Hue bands of the HSL mixer, with their center hue in degrees. */
+export const HUE_BANDS: { key: HueBand; hue: number; color: string }[] = [
+  { key: 'red', hue: 0, color: '#ef4444' },
+  { key: 'orange', hue: 30, color: '#f97316' },
+  { key: 'yellow', hue: 60, color: '#eab308' },
+  { key: 'green', hue: 120, color: '#22c55e' },
+  { key: 'aqua', hue: 180, color: '#06b6d4' },
+  { key: 'blue', hue: 225, color: '#3b82f6' },
+  { key: 'purple', hue: 270, color: '#8b5cf6' },
+  { key: 'magenta', hue: 315, color: '#d946ef' }
+];
+
+const NEUTRAL_HSL: HslAdjustment = { hue: 0, saturation: 0, luminance: 0 };
+
+/** Builds a full mixer from the bands a preset actually changes. */
+export const hslMixer = (bands: Partial<Record<HueBand, Partial<HslAdjustment>>> = {}): HslMixer =>
+  Object.fromEntries(
+    HUE_BANDS.map(({ key }) => [key, { ...NEUTRAL_HSL, ...bands[key] }])
+  ) as HslMixer;
+
+/** Tonal ranges of the color grading wheels. */
+export const GRADING_RANGES: GradingRange[] = ['shadows', 'midtones', 'highlights'];
+
+const NEUTRAL_WHEEL: GradingWheel = { hue: 0, saturation: 0, luminance: 0 };
+
+/** Builds full color grading from the wheels and fields a preset actually changes. */
+export const colorGrading = (
+  patch: Partial<Record<GradingRange, Partial<GradingWheel>>> & { balance?: number; blending?: number } = {}
+): ColorGrading => ({
+  shadows: { ...NEUTRAL_WHEEL, ...patch.shadows },
+  midtones: { ...NEUTRAL_WHEEL, ...patch.midtones },
+  highlights: { ...NEUTRAL_WHEEL, ...patch.highlights },
+  balance: patch.balance ?? 0,
+  blending: patch.blending ?? 50
+});
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const INITIAL_GEOMETRY: Geometry = {
+  rotation: 0,
+  flipHorizontal: false,
+  straighten: 0,
+  crop: FULL_CROP,
+  aspect: 'free'
+};
+
+/** Crop aspect locks; `ratio` is width / height, null where it depends on the photo or is unlocked. */
+export const ASPECT_RATIOS: { key: AspectRatioKey; ratio: number | null }[] = [
+  { key: 'free', ratio: null },
+  { key: 'original', ratio: null },
+  { key: '1:1', ratio: 1 },
+  { key: '4:5', ratio: 4 / 5 },
+  { key: '3:2', ratio: 3 / 2 },
+  { key: '16:9', ratio: 16 / 9 },
+  { key: '9:16', ratio: 9 / 16 }
+];
 
 export const INITIAL_SETTINGS: EditorSettings = {
+  dehaze: 0,
   exposure: 0,
   contrast: 0,
   shadows: 0,
@@ -11,60 +81,177 @@ export const INITIAL_SETTINGS: EditorSettings = {
   tint: 0,
   saturation: 0,
   vibrance: 0,
+  noiseReduction: 0,
+  noiseDetail: 50,
+  colorNoiseReduction: 0,
+  colorNoiseDetail: 50,
   sharpness: 0,
+  sharpenRadius: 1,
+  sharpenDetail: 25,
+  sharpenMasking: 0,
   clarity: 0,
-  vignette: 0
+  vignette: 0,
+  grainAmount: 0,
+  grainSize: 25,
+  grainRoughness: 50,
+  grainSeed: 0,
+  lut: null,
+  lutIntensity: 100,
+  lutInterpolation: 'tetrahedral',
+  curves: IDENTITY_CURVES,
+  hsl: hslMixer(),
+  grading: colorGrading(),
+  geometry: INITIAL_GEOMETRY,
+  masks: [],
+  spots: []
+};
+
+/** Valid range of every numeric setting, used to clamp imported values. */
+export const SETTING_RANGES: Record<NumericSettingKey, { min: number; max: number }> = {
+  dehaze: { min: -100, max: 100 },
+  exposure: { min: -100, max: 100 },
+  contrast: { min: -100, max: 100 },
+  shadows: { min: -100, max: 100 },
+  highlights: { min: -100, max: 100 },
+  whites: { min: -100, max: 100 },
+  temp: { min: -100, max: 100 },
+  tint: { min: -100, max: 100 },
+  saturation: { min: -100, max: 100 },
+  vibrance: { min: -100, max: 100 },
+  noiseReduction: { min: 0, max: 100 },
+  noiseDetail: { min: 0, max: 100 },
+  colorNoiseReduction: { min: 0, max: 100 },
+  colorNoiseDetail: { min: 0, max: 100 },
+  sharpness: { min: 0, max: 100 },
+  sharpenRadius: { min: 0.5, max: 3 },
+  sharpenDetail: { min: 0, max: 100 },
+  sharpenMasking: { min: 0, max: 100 },
+  clarity: { min: -100, max: 100 },
+  vignette: { min: -100, max: 100 },
+  grainAmount: { min: 0, max: 100 },
+  grainSize: { min: 0, max: 100 },
+  grainRoughness: { min: 0, max: 100 },
+  grainSeed: { min: 0, max: 9999 },
+  lutIntensity: { min: 0, max: 100 }
 };
 
-export const PRESETS: Record<string, PresetConfig> = {
+export const AI_SETTING_KEYS: AiSettingKey[] = [
+  'dehaze', 'exposure', 'contrast', 'shadows', 'highlights', 'whites', 'temp', 'tint',
+  'saturation', 'vibrance', 'sharpness', 'clarity', 'vignette'
+];
+
+/** Settings a local mask can carry, with their slider ranges. */
+export const LOCAL_ADJUSTMENTS: { key: LocalAdjustmentKey; min: number; max: number }[] = [
+  { key: 'exposure', min: -100, max: 100 },
+  { key: 'contrast', min: -100, max: 100 },
+  { key: 'shadows', min: -100, max: 100 },
+  { key: 'highlights', min: -100, max: 100 },
+  { key: 'whites', min: -100, max: 100 },
+  { key: 'temp', min: -100, max: 100 },
+  { key: 'tint', min: -100, max: 100 },
+  { key: 'saturation', min: -100, max: 100 },
+  { key: 'clarity', min: -100, max: 100 },
+  { key: 'sharpness', min: 0, max: 100 }
+];
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; mimeType: string; extension: string; lossy: boolean }> = {
+  jpeg: { label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', lossy: true },
+  png: { label: 'PNG', mimeType: 'image/png', extension: 'png', lossy: false },
+  webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp', lossy: true }
+};
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'jpeg',
+  quality: 95,
+  resize: { mode: 'original', longEdge: 2048, percent: 50 },
+  sharpening: 'none',
+  dither: true,
+  colorSpace: 'srgb',
+  fileNameTemplate: 'redmi_{name}',
+  metadata: 'all',
+  artist: '',
+  copyright: ''
+};
+
+/** Presets shipped with the app; their names are in the locale messages. */
+export const PRESETS: Record<BuiltInPresetKey, BuiltInPreset> = {
   natgeo: {
-    name: '🌍 Nat Geo',
+    icon: '🌍',
     color: '#8BC34A',
     settings: { contrast: 15, shadows: 20, highlights: -30, clarity: 20, saturation: 10, vibrance: 15, temp: 10 }
   },
   sony: {
-    name: '🏆 Sony Award',
+    icon: '🏆',
     color: '#2196F3',
     settings: { exposure: 5, contrast: 20, highlights: -50, shadows: 30, whites: 10, clarity: 10, sharpness: 30, temp: -10 }
   },
   cinematic: {
-    name: '🎬 Cinematic',
+    icon: '🎬',
     color: '#9C27B0',
-    settings: { contrast: 25, shadows: -20, highlights: -10, saturation: -15, temp: -20, tint: 10, vignette: 60, clarity: 30 }
+    settings: {
+      contrast: 25, shadows: -20, highlights: -10, saturation: -15, vignette: 60, clarity: 30, grainAmount: 15,
+      curves: {
+        ...IDENTITY_CURVES,
+        master: [{ x: 0, y: 14 }, { x: 64, y: 56 }, { x: 192, y: 202 }, { x: 255, y: 246 }]
+      },
+      // Teal shadows against warm skin and highlights.
+      grading: colorGrading({
+        shadows: { hue: 190, saturation: 45, luminance: -5 },
+        midtones: { hue: 30, saturation: 10 },
+        highlights: { hue: 35, saturation: 35 },
+        balance: -10
+      })
+    }
   },
   clean: {
-    name: '✨ Clean Pro',
+    icon: '✨',
     color: '#FFFFFF',
     settings: { exposure: 0, contrast: 5, shadows: 10, highlights: -10, clarity: 10, sharpness: 10 }
   },
   hdr: {
-    name: '⚡ HDR+ Pro',
+    icon: '⚡',
     color: '#FF9800',
     settings: { highlights: -40, shadows: 40, whites: 10, contrast: 15, clarity: 25, vibrance: 15, sharpness: 10 }
   },
   drone: {
-    name: '🚁 Drone/Dehaze',
+    icon: '🚁',
     color: '#00BCD4',
-    settings: { contrast: 30, clarity: 45, saturation: 20, vibrance: 40, highlights: -15, shadows: 10, sharpness: 25 }
+    settings: { dehaze: 45, contrast: 10, clarity: 20, vibrance: 25, highlights: -20, shadows: 15, sharpness: 25 }
   },
   automotive: {
-    name: '🚗 Automotriz',
+    icon: '🚗',
     color: '#607D8B',
     settings: { clarity: 35, contrast: 15, sharpness: 40, highlights: -25, exposure: 5, temp: -5 }
   },
   moon: {
-    name: '🌑 Luna/Estrellas',
+    icon: '🌑',
     color: '#3F51B5',
-    settings: { exposure: 10, contrast: 40, shadows: -60, highlights: -40, clarity: 50, sharpness: 60, temp: -10 }
+    settings: { exposure: 10, contrast: 40, shadows: -60, highlights: -40, clarity: 50, sharpness: 60, temp: -10, noiseReduction: 25, colorNoiseReduction: 40 }
   },
   night: {
-    name: '🌃 Modo Nocturno',
+    icon: '🌃',
     color: '#673AB7',
-    settings: { exposure: 20, shadows: 50, highlights: -15, contrast: 10, clarity: 15, saturation: 10, temp: -5, tint: 5 }
+    settings: { exposure: 20, shadows: 50, highlights: -15, contrast: 10, clarity: 15, saturation: 10, temp: -5, tint: 5, noiseReduction: 40, colorNoiseReduction: 50 }
   },
   selfie: {
-    name: '🤳 Selfie/Retrato',
+    icon: '🤳',
     color: '#E91E63',
-    settings: { exposure: 5, contrast: -10, shadows: 15, highlights: -15, clarity: -35, sharpness: 20, saturation: -5, vignette: 30 }
+    settings: {
+      exposure: 5, contrast: -10, shadows: 15, highlights: -15, clarity: -35, sharpness: 20, saturation: -5, vignette: 30,
+      hsl: hslMixer({ orange: { saturation: -10, luminance: 10 }, red: { saturation: -5 } })
+    }
   }
 };
+
+/** Keyboard shortcuts, in the order the help overlay lists them. */
+export const SHORTCUTS: Shortcut[] = [
+  { action: 'nextSlider', keys: ['.'] },
+  { action: 'previousSlider', keys: [','] },
+  { action: 'toggleCompare', keys: ['Y'] },
+  { action: 'holdOriginal', keys: ['\\'] },
+  { action: 'applyPreset', keys: ['1', '2', '3', '4', '5', '6', '7', '8', '9', '0'] },
+  { action: 'undo', keys: ['Mod+Z'] },
+  { action: 'redo', keys: ['Mod+Shift+Z', 'Mod+Y'] },
+  { action: 'export', keys: ['Mod+Shift+E'] },
+  { action: 'help', keys: ['?'] }
+];
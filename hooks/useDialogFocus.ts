@@ -0,0 +1,38 @@
+import { RefObject, useEffect } from 'react';
+
+const FOCUSABLE = 'button:not(:disabled), [href], input:not(:disabled), select:not(:disabled), textarea:not(:disabled), [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Keyboard focus for a modal dialog: moves focus into it when it opens,
+ * keeps Tab cycling inside it and gives focus back to whatever had it when
+ * the dialog closes.
+ */
+export const useDialogFocus = (ref: RefObject<HTMLElement | null>) => {
+  useEffect(() => {
+    const dialog = ref.current;
+    if (!dialog) return;
+    const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    const focusable = () => Array.from<HTMLElement>(dialog.querySelectorAll<HTMLElement>(FOCUSABLE));
+    (focusable()[0] ?? dialog).focus();
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Tab') return;
+      const elements = focusable();
+      if (elements.length === 0) return;
+      const first = elements[0];
+      const last = elements[elements.length - 1];
+      if (e.shiftKey && document.activeElement === first) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+    dialog.addEventListener('keydown', onKeyDown);
+    return () => {
+      dialog.removeEventListener('keydown', onKeyDown);
+      previous?.focus();
+    };
+  }, [ref]);
+};
@@ -0,0 +1,186 @@
+import { useCallback, useReducer } from 'react';
+import { EditorSettings, HistoryEntry, HistorySource, Snapshot } from '../types';
+
+const MAX_ENTRIES = 100;
+
+export interface CommitMeta {
+  source: HistorySource;
+  label: string;
+  mergeKey?: string;
+}
+
+interface HistoryState {
+  entries: HistoryEntry[];
+  index: number;
+  /** Set when the current gesture ended, so the next commit starts a new step. */
+  sealed: boolean;
+  snapshots: Snapshot[];
+  nextId: number;
+}
+
+type HistoryAction =
+  | { type: 'commit'; update: (settings: EditorSettings) => EditorSettings; meta: CommitMeta }
+  | { type: 'seal' }
+  | { type: 'reset'; settings: EditorSettings; meta: CommitMeta }
+  | { type: 'restore'; entries: Omit<HistoryEntry, 'id'>[]; index: number; snapshots: Omit<Snapshot, 'id'>[] }
+  | { type: 'jump'; index: number }
+  | { type: 'step'; delta: number }
+  | { type: 'saveSnapshot'; name: string }
+  | { type: 'restoreSnapshot'; id: number }
+  | { type: 'deleteSnapshot'; id: number };
+
+const entry = (id: number, settings: EditorSettings, meta: CommitMeta): HistoryEntry => ({
+  id,
+  settings,
+  source: meta.source,
+  label: meta.label,
+  mergeKey: meta.mergeKey
+});
+
+const push = (state: HistoryState, settings: EditorSettings, meta: CommitMeta): HistoryState => {
+  const current = state.entries[state.index];
+  if (!state.sealed && meta.mergeKey && current.mergeKey === meta.mergeKey) {
+    const entries = state.entries.slice(0, state.index + 1);
+    entries[state.index] = { ...current, settings };
+    return { ...state, entries };
+  }
+  const entries = [...state.entries.slice(0, state.index + 1), entry(state.nextId, settings, meta)]
+    .slice(-MAX_ENTRIES);
+  return { ...state, entries, index: entries.length - 1, sealed: false, nextId: state.nextId + 1 };
+};
+
+const reducer = (state: HistoryState, action: HistoryAction): HistoryState => {
+  switch (action.type) {
+    case 'commit': {
+      const current = state.entries[state.index].settings;
+      const next = action.update(current);
+      if (next === current) return state;
+      return push(state, next, action.meta);
+    }
+    case 'seal':
+      return state.sealed ? state : { ...state, sealed: true };
+    case 'reset':
+      // A new photo starts from scratch: another photo's snapshots would carry its crop, masks and spots over
+      return {
+        entries: [entry(state.nextId, action.settings, action.meta)],
+        index: 0,
+        sealed: true,
+        snapshots: [],
+        nextId: state.nextId + 1
+      };
+    case 'restore': {
+      if (action.entries.length === 0) return state;
+      const entries = action.entries.map((e, i) => ({ ...e, id: state.nextId + i }));
+      const snapshots = action.snapshots.map((s, i) => ({ ...s, id: state.nextId + entries.length + i }));
+      return {
+        entries,
+        index: Math.max(0, Math.min(entries.length - 1, action.index)),
+        sealed: true,
+        snapshots,
+        nextId: state.nextId + entries.length + snapshots.length
+      };
+    }
+    case 'jump':
+    case 'step': {
+      const target = action.type === 'jump' ? action.index : state.index + action.delta;
+      const index = Math.max(0, Math.min(state.entries.length - 1, target));
+      return index === state.index ? state : { ...state, index, sealed: true };
+    }
+    case 'saveSnapshot': {
+      const snapshot: Snapshot = {
+        id: state.nextId,
+        name: action.name,
+        settings: state.entries[state.index].settings,
+        createdAt: Date.now()
+      };
+      return { ...state, snapshots: [...state.snapshots, snapshot], nextId: state.nextId + 1 };
+    }
+    case 'restoreSnapshot': {
+      const snapshot = state.snapshots.find(s => s.id === action.id);
+      if (!snapshot) return state;
+      return { ...push({ ...state, sealed: true }, snapshot.settings, { source: 'snapshot', label: snapshot.name }), sealed: true };
+    }
+    case 'deleteSnapshot':
+      return { ...state, snapshots: state.snapshots.filter(s => s.id !== action.id) };
+  }
+};
+
+const initState = ({ settings, label }: { settings: EditorSettings; label: string }): HistoryState => ({
+  entries: [entry(0, settings, { source: 'load', label })],
+  index: 0,
+  sealed: true,
+  snapshots: [],
+  nextId: 1
+});
+
+/**
+ * Undo/redo stack of `EditorSettings` plus named snapshots. Commits sharing a
+ * `mergeKey` collapse into one entry until `seal()` marks the end of a gesture.
+ * The stack starts with `initial`, listed as `initialLabel`.
+ */
+export const useEditHistory = (initial: EditorSettings, initialLabel: string) => {
+  const [state, dispatch] = useReducer(reducer, { settings: initial, label: initialLabel }, initState);
+
+  const commit = useCallback(
+    (update: EditorSettings | ((settings: EditorSettings) => EditorSettings), meta: CommitMeta) =>
+      dispatch({ type: 'commit', update: typeof update === 'function' ? update : () => update, meta }),
+    []
+  );
+  const seal = useCallback(() => dispatch({ type: 'seal' }), []);
+  /** Starts a fresh stack, without snapshots, for newly loaded settings. */
+  const reset = useCallback(
+    (settings: EditorSettings, meta: CommitMeta) => dispatch({ type: 'reset', settings, meta }),
+    []
+  );
+  /** Replaces the whole stack and the snapshots, e.g. with a saved project's. */
+  const restore = useCallback(
+    (entries: Omit<HistoryEntry, 'id'>[], index: number, snapshots: Omit<Snapshot, 'id'>[]) =>
+      dispatch({ type: 'restore', entries, index, snapshots }),
+    []
+  );
+  const jumpTo = useCallback((index: number) => dispatch({ type: 'jump', index }), []);
+  const undo = useCallback(() => dispatch({ type: 'step', delta: -1 }), []);
+  const redo = useCallback(() => dispatch({ type: 'step', delta: 1 }), []);
+  const saveSnapshot = useCallback((name: string) => dispatch({ type: 'saveSnapshot', name }), []);
+  const restoreSnapshot = useCallback((id: number) => dispatch({ type: 'restoreSnapshot', id }), []);
+  const deleteSnapshot = useCallback((id: number) => dispatch({ type: 'deleteSnapshot', id }), []);
+
+  return {
+    settings: state.entries[state.index].settings,
+    entries: state.entries,
+    index: state.index,
+    snapshots: state.snapshots,
+    canUndo: state.index > 0,
+    canRedo: state.index < state.entries.length - 1,
+    commit,
+    seal,
+    reset,
+    restore,
+    jumpTo,
+    undo,
+    redo,
+    saveSnapshot,
+    restoreSnapshot,
+    deleteSnapshot
+  };
+};
+
+export type EditHistory = ReturnType<typeof useEditHistory>;
+
+/** Structural equality of plain values: numbers, strings, booleans, arrays and objects. */
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length &&
+    keys.every(key => isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+};
+
+/**
+ * Fields whose values differ between two settings objects. Nested fields are
+ * compared structurally, except the LUT: its table can hold hundreds of
+ * thousands of values, and a LUT is only replaced by loading another one.
+ */
+export const diffSettings = (a: EditorSettings, b: EditorSettings) =>
+  (Object.keys(a) as (keyof EditorSettings)[]).filter(key => (key === 'lut' ? a.lut !== b.lut : !isEqual(a[key], b[key])));
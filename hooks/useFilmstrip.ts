@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { EditorSettings, Photo } from '../types';
+import { withLook } from '../services/presets';
+
+/**
+ * Photos open in the session, each with its own settings, plus which one is
+ * being edited and which are selected for sync and batch export.
+ */
+export const useFilmstrip = () => {
+  const [photos, setPhotos] = useState<Photo[]>([]);
+  const [activeId, setActiveId] = useState<number | null>(null);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const nextIdRef = useRef(1);
+  const photosRef = useRef(photos);
+  photosRef.current = photos;
+
+  // Thumbnails are object URLs; release whatever is still open on unmount.
+  useEffect(() => () => photosRef.current.forEach(p => URL.revokeObjectURL(p.thumbnail)), []);
+
+  /** Adds photos and returns them with their ids. */
+  const add = useCallback((items: Omit<Photo, 'id'>[]): Photo[] => {
+    const added = items.map(item => ({ ...item, id: nextIdRef.current++ }));
+    setPhotos(current => [...current, ...added]);
+    return added;
+  }, []);
+
+  const remove = useCallback((id: number) => {
+    const photo = photosRef.current.find(p => p.id === id);
+    if (photo) URL.revokeObjectURL(photo.thumbnail);
+    setPhotos(current => current.filter(p => p.id !== id));
+    setSelectedIds(current => current.filter(selected => selected !== id));
+  }, []);
+
+  /** Removes every photo, e.g. when the project is closed. */
+  const clear = useCallback(() => {
+    photosRef.current.forEach(p => URL.revokeObjectURL(p.thumbnail));
+    setPhotos([]);
+    setActiveId(null);
+    setSelectedIds([]);
+  }, []);
+
+  const activate = useCallback((id: number | null) => {
+    setActiveId(id);
+    setSelectedIds(id === null ? [] : [id]);
+  }, []);
+
+  const updateSettings = useCallback((id: number, settings: EditorSettings) =>
+    setPhotos(current =>
+      current.some(p => p.id === id && p.settings !== settings)
+        ? current.map(p => (p.id === id ? { ...p, settings } : p))
+        : current
+    ), []);
+
+  /** Replaces the look of the given photos, keeping each one's crop and masks. */
+  const applyLook = useCallback((ids: number[], look: Partial<EditorSettings>) =>
+    setPhotos(current => current.map(p => (ids.includes(p.id) ? { ...p, settings: withLook(p.settings, look) } : p))), []);
+
+  const toggleSelected = useCallback((id: number) =>
+    setSelectedIds(current => (current.includes(id) ? current.filter(s => s !== id) : [...current, id])), []);
+
+  /** Selects every photo between the active one and `id`. */
+  const selectRange = useCallback((id: number) => {
+    const ids = photosRef.current.map(p => p.id);
+    const from = ids.indexOf(activeId ?? id);
+    const to = ids.indexOf(id);
+    setSelectedIds(ids.slice(Math.min(from, to), Math.max(from, to) + 1));
+  }, [activeId]);
+
+  const selectAll = useCallback(() => setSelectedIds(photosRef.current.map(p => p.id)), []);
+
+  return {
+    photos,
+    activeId,
+    active: photos.find(p => p.id === activeId) ?? null,
+    selectedIds,
+    add,
+    remove,
+    clear,
+    activate,
+    updateSettings,
+    applyLook,
+    toggleSelected,
+    selectRange,
+    selectAll,
+    setSelectedIds
+  };
+};
+
+export type Filmstrip = ReturnType<typeof useFilmstrip>;
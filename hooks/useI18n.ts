@@ -0,0 +1,19 @@
+import { createContext, useContext } from 'react';
+import { Locale } from '../types';
+import { DEFAULT_LOCALE, Messages, messagesFor } from '../services/i18n';
+
+export interface I18n {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  /** Messages of the active locale. */
+  t: Messages;
+}
+
+export const I18nContext = createContext<I18n>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => {},
+  t: messagesFor(DEFAULT_LOCALE)
+});
+
+/** The active locale and its messages, provided by `I18nProvider`. */
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react';
+import { EditorSettings, PresetConfig, UserPreset } from '../types';
+import { loadUserPresets, saveUserPresets } from '../services/presets';
+
+/** The user's own presets, kept in localStorage across sessions. */
+export const usePresetLibrary = () => {
+  const [presets, setPresets] = useState<UserPreset[]>(loadUserPresets);
+  /** Whether the last change could not be written (storage full or unavailable). */
+  const [storageFailed, setStorageFailed] = useState(false);
+
+  useEffect(() => {
+    try {
+      saveUserPresets(presets);
+      setStorageFailed(false);
+    } catch {
+      setStorageFailed(true);
+    }
+  }, [presets]);
+
+  const importMany = useCallback((incoming: PresetConfig[]) => {
+    setPresets(current => {
+      let nextId = current.reduce((max, p) => Math.max(max, p.id), 0) + 1;
+      const now = Date.now();
+      return [...current, ...incoming.map(preset => ({ ...preset, id: nextId++, createdAt: now }))];
+    });
+  }, []);
+
+  const save = useCallback((name: string, color: string, settings: Partial<EditorSettings>) =>
+    importMany([{ name, color, settings }]), [importMany]);
+
+  const update = useCallback((id: number, changes: Partial<Pick<UserPreset, 'name' | 'color'>>) =>
+    setPresets(current => current.map(p => (p.id === id ? { ...p, ...changes } : p))), []);
+
+  const remove = useCallback((id: number) => setPresets(current => current.filter(p => p.id !== id)), []);
+
+  return { presets, storageFailed, save, update, remove, importMany };
+};
+
+export type PresetLibrary = ReturnType<typeof usePresetLibrary>;
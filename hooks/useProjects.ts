@@ -0,0 +1,193 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { HistoryEntry, HistorySource, Photo, Snapshot } from '../types';
+import {
+  deleteProject, listProjects, loadProject, ProjectSummary, saveProject, StoredFile, StoredProject
+} from '../services/projectStore';
+import { EDIT_FORMAT_VERSION, readSettings } from '../services/sidecar';
+
+const SAVE_DELAY = 1000;
+
+const HISTORY_SOURCES: HistorySource[] = ['load', 'slider', 'geometry', 'mask', 'retouch', 'preset', 'lut', 'sync', 'import', 'ai', 'reset', 'snapshot'];
+
+/** What autosave writes: the filmstrip plus the history of the photo being edited. */
+export interface ProjectSession {
+  photos: Photo[];
+  activeId: number | null;
+  entries: HistoryEntry[];
+  index: number;
+  snapshots: Snapshot[];
+}
+
+/** A saved project ready to be put back into the filmstrip and history. */
+export interface RestoredProject {
+  photos: Omit<Photo, 'id'>[];
+  activeIndex: number;
+  history: { entries: Omit<HistoryEntry, 'id'>[]; index: number; snapshots: Omit<Snapshot, 'id'>[] } | null;
+}
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const projectName = (photos: Photo[]) => {
+  const first = photos[0].name.replace(/\.[^.]+$/, '');
+  return photos.length > 1 ? `${first} +${photos.length - 1}` : first;
+};
+
+/**
+ * Sessions saved in IndexedDB. The open session is written a moment after
+ * each change; original files are stored once, when a photo is first saved.
+ */
+export const useProjects = () => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [savedAt, setSavedAt] = useState<number | null>(null);
+  const currentIdRef = useRef<string | null>(null);
+  // Keys of the original files already stored for the current project.
+  const fileKeysRef = useRef(new WeakMap<Blob, string>());
+  const storedKeysRef = useRef<string[]>([]);
+  const pendingRef = useRef<ProjectSession | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const savingRef = useRef<Promise<void>>(Promise.resolve());
+
+  const refresh = useCallback(() => {
+    listProjects().then(setProjects).catch(() => setProjects([]));
+  }, []);
+
+  useEffect(refresh, [refresh]);
+
+  const write = useCallback(async (session: ProjectSession) => {
+    if (session.photos.length === 0) return;
+    const id = currentIdRef.current ?? newId();
+    currentIdRef.current = id;
+
+    const newFiles: StoredFile[] = [];
+    for (const photo of session.photos) {
+      if (fileKeysRef.current.has(photo.file)) continue;
+      const key = newId();
+      const thumbnail = await (await fetch(photo.thumbnail)).blob();
+      newFiles.push({ key, projectId: id, file: photo.file, thumbnail });
+      fileKeysRef.current.set(photo.file, key);
+    }
+    const keys = session.photos.map(p => fileKeysRef.current.get(p.file)!);
+    const removedKeys = storedKeysRef.current.filter(key => !keys.includes(key));
+
+    const activeIndex = Math.max(0, session.photos.findIndex(p => p.id === session.activeId));
+    const thumbnailKey = keys[activeIndex];
+    const project: StoredProject = {
+      id,
+      name: projectName(session.photos),
+      updatedAt: Date.now(),
+      photoCount: session.photos.length,
+      thumbnail: newFiles.find(f => f.key === thumbnailKey)?.thumbnail
+        ?? await (await fetch(session.photos[activeIndex].thumbnail)).blob(),
+      version: EDIT_FORMAT_VERSION,
+      activeIndex,
+      photos: session.photos.map((photo, i) => ({
+        fileKey: keys[i],
+        name: photo.name,
+        width: photo.width,
+        height: photo.height,
+        metadata: photo.metadata,
+        settings: photo.settings
+      })),
+      history: session.activeId === null ? null : {
+        entries: session.entries.map(({ source, label, settings }) => ({ source, label, settings })),
+        index: session.index,
+        snapshots: session.snapshots.map(({ name, settings, createdAt }) => ({ name, settings, createdAt }))
+      }
+    };
+    await saveProject(project, newFiles, removedKeys);
+    storedKeysRef.current = keys;
+    setSavedAt(project.updatedAt);
+  }, []);
+
+  /** Writes whatever is pending now; saves never overlap. */
+  const flush = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+    const session = pendingRef.current;
+    pendingRef.current = null;
+    if (session) savingRef.current = savingRef.current.then(() => write(session)).catch(() => setSavedAt(null));
+    return savingRef.current;
+  }, [write]);
+
+  const schedule = useCallback((session: ProjectSession) => {
+    pendingRef.current = session;
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(flush, SAVE_DELAY);
+  }, [flush]);
+
+  // A tab that goes to the background may never come back, so save right away.
+  useEffect(() => {
+    const onHide = () => document.visibilityState === 'hidden' && flush();
+    document.addEventListener('visibilitychange', onHide);
+    return () => document.removeEventListener('visibilitychange', onHide);
+  }, [flush]);
+
+  /** Saves the open project and detaches from it, so new photos start another one. */
+  const close = useCallback(async () => {
+    await flush();
+    currentIdRef.current = null;
+    storedKeysRef.current = [];
+    setSavedAt(null);
+    refresh();
+  }, [flush, refresh]);
+
+  const open = useCallback(async (id: string): Promise<RestoredProject> => {
+    await close();
+    const { project, files } = await loadProject(id);
+    const photos: Omit<Photo, 'id'>[] = [];
+    const keys: string[] = [];
+    let activeIndex = 0;
+    let activeRestored = false;
+    project.photos.forEach((stored, i) => {
+      const file = files.get(stored.fileKey);
+      if (!file) return;
+      if (i === project.activeIndex) {
+        activeIndex = photos.length;
+        activeRestored = true;
+      }
+      fileKeysRef.current.set(file.file, stored.fileKey);
+      keys.push(stored.fileKey);
+      photos.push({
+        file: file.file,
+        name: stored.name,
+        width: stored.width,
+        height: stored.height,
+        thumbnail: URL.createObjectURL(file.thumbnail),
+        metadata: stored.metadata,
+        settings: readSettings(stored.settings, project.version)
+      });
+    });
+    if (photos.length === 0) throw new Error('Project has no readable photos');
+
+    const history = project.history && activeRestored
+      ? {
+          entries: project.history.entries.map(({ source, label, settings }) => ({
+            source: HISTORY_SOURCES.includes(source as HistorySource) ? (source as HistorySource) : 'load',
+            label,
+            settings: readSettings(settings, project.version)
+          })),
+          index: project.history.index,
+          snapshots: project.history.snapshots.map(({ name, settings, createdAt }) => ({
+            name,
+            settings: readSettings(settings, project.version),
+            createdAt
+          }))
+        }
+      : null;
+
+    currentIdRef.current = project.id;
+    storedKeysRef.current = keys;
+    setSavedAt(project.updatedAt);
+    return { photos, activeIndex, history };
+  }, [close]);
+
+  const remove = useCallback(async (id: string) => {
+    if (id === currentIdRef.current) currentIdRef.current = null;
+    await deleteProject(id);
+    refresh();
+  }, [refresh]);
+
+  return { projects, savedAt, schedule, flush, open, close, remove };
+};
+
+export type Projects = ReturnType<typeof useProjects>;
@@ -0,0 +1,217 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { FrameRegion } from '../types';
+
+export const MAX_ZOOM = 4;
+const CELL_GAP = 8; // px between side-by-side cells, matches gap-2
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+interface ViewState {
+  /** Device pixels per full-resolution pixel (1 = 100%), or null when fitted. */
+  zoom: number | null;
+  /** Frame point at the middle of the view, normalized. */
+  center: { x: number; y: number };
+}
+
+const FITTED: ViewState = { zoom: null, center: { x: 0.5, y: 0.5 } };
+
+export interface ZoomPan {
+  zoom: number | null;
+  /** Zoom level at which the frame exactly fits a cell. */
+  fitZoom: number;
+  setZoom: (zoom: number | null) => void;
+  /** Fitted size of the frame in CSS pixels, or null until measured. */
+  fit: Size | null;
+  /** CSS transform for a layer of `fit` size centered in its cell. */
+  transform: string;
+  /** Visible part of the frame while zoomed in. */
+  region: FrameRegion | null;
+  handlers: {
+    onPointerDown: (e: React.PointerEvent<HTMLElement>) => void;
+    onPointerMove: (e: React.PointerEvent<HTMLElement>) => void;
+    onPointerUp: (e: React.PointerEvent<HTMLElement>) => void;
+    onPointerCancel: (e: React.PointerEvent<HTMLElement>) => void;
+    onDoubleClick: (e: React.MouseEvent<HTMLElement>) => void;
+  };
+}
+
+const clampCenter = (center: { x: number; y: number }, half: { x: number; y: number }) => ({
+  x: half.x >= 0.5 ? 0.5 : Math.min(1 - half.x, Math.max(half.x, center.x)),
+  y: half.y >= 0.5 ? 0.5 : Math.min(1 - half.y, Math.max(half.y, center.y))
+});
+
+/**
+ * Zoom and pan state for the preview viewport: wheel and pinch zoom around
+ * the pointer, drag to pan. Cells are the `[data-zoom-cell]` children of
+ * `containerRef`; with two columns both show the same view side by side.
+ * Plain drags only pan while `panEnabled` (no tool owns the pointer); the
+ * middle button always pans.
+ */
+export const useZoomPan = (
+  containerRef: React.RefObject<HTMLElement>,
+  options: { frame: Size | null; frameWidth: number; columns: 1 | 2; panEnabled: boolean }
+): ZoomPan => {
+  const { frame, frameWidth, columns, panEnabled } = options;
+  const [container, setContainer] = useState<Size | null>(null);
+  const [view, setView] = useState<ViewState>(FITTED);
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const pinchRef = useRef<{ distance: number; zoom: number } | null>(null);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) =>
+      setContainer({ width: entry.contentRect.width, height: entry.contentRect.height })
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [containerRef]);
+
+  const cell = useMemo<Size | null>(() => container && {
+    width: columns === 2 ? (container.width - CELL_GAP) / 2 : container.width,
+    height: container.height
+  }, [container, columns]);
+
+  const fit = useMemo<Size | null>(() => {
+    if (!cell || !frame || cell.width <= 0 || cell.height <= 0) return null;
+    const ratio = Math.min(cell.width / frame.width, cell.height / frame.height);
+    return { width: frame.width * ratio, height: frame.height * ratio };
+  }, [cell, frame]);
+
+  const dpr = window.devicePixelRatio || 1;
+  const fitZoom = fit ? (fit.width * dpr) / frameWidth : 1;
+  const scale = view.zoom === null ? 1 : view.zoom / fitZoom;
+
+  // Everything the event handlers need, without re-binding them on each render.
+  const latest = useRef({ fit, cell, fitZoom });
+  latest.current = { fit, cell, fitZoom };
+  const viewRef = useRef(view);
+  viewRef.current = view;
+
+  const halfExtent = (zoom: number) => {
+    const { fit: f, cell: c, fitZoom: fz } = latest.current;
+    const k = zoom / fz;
+    return { x: c!.width / (2 * k * f!.width), y: c!.height / (2 * k * f!.height) };
+  };
+
+  /** Zooms keeping the frame point at `offset` (CSS px from the cell center) in place. */
+  const zoomAt = useCallback((next: number, offset: { x: number; y: number }) => {
+    setView(current => {
+      const { fit: f, fitZoom: fz } = latest.current;
+      if (!f) return current;
+      const zoom = Math.min(MAX_ZOOM, next);
+      if (zoom <= fz * 1.001) return FITTED;
+      const k = (current.zoom ?? fz) / fz;
+      const k2 = zoom / fz;
+      const point = { x: current.center.x + offset.x / (k * f.width), y: current.center.y + offset.y / (k * f.height) };
+      const center = { x: point.x - offset.x / (k2 * f.width), y: point.y - offset.y / (k2 * f.height) };
+      return { zoom, center: clampCenter(center, halfExtent(zoom)) };
+    });
+  }, []);
+
+  const panBy = (dx: number, dy: number) => {
+    setView(current => {
+      const { fit: f, fitZoom: fz } = latest.current;
+      if (current.zoom === null || !f) return current;
+      const k = current.zoom / fz;
+      const center = { x: current.center.x - dx / (k * f.width), y: current.center.y - dy / (k * f.height) };
+      return { ...current, center: clampCenter(center, halfExtent(current.zoom)) };
+    });
+  };
+
+  const offsetInCell = (target: EventTarget | null, clientX: number, clientY: number) => {
+    const cellElement = (target as Element | null)?.closest('[data-zoom-cell]') ?? containerRef.current;
+    const rect = cellElement!.getBoundingClientRect();
+    return { x: clientX - rect.left - rect.width / 2, y: clientY - rect.top - rect.height / 2 };
+  };
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const onWheel = (e: WheelEvent) => {
+      if (!latest.current.fit) return;
+      e.preventDefault();
+      const base = viewRef.current.zoom ?? latest.current.fitZoom;
+      zoomAt(base * Math.exp(-e.deltaY * 0.0015), offsetInCell(e.target, e.clientX, e.clientY));
+    };
+    element.addEventListener('wheel', onWheel, { passive: false });
+    return () => element.removeEventListener('wheel', onWheel);
+  }, [containerRef, zoomAt]);
+
+  const setZoom = useCallback((zoom: number | null) => {
+    if (zoom === null) setView(FITTED);
+    else zoomAt(zoom, { x: 0, y: 0 });
+  }, [zoomAt]);
+
+  const onPointerDown = (e: React.PointerEvent<HTMLElement>) => {
+    if (!panEnabled && e.button !== 1) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointersRef.current.size === 2) {
+      const [a, b] = [...pointersRef.current.values()];
+      pinchRef.current = { distance: Math.hypot(a.x - b.x, a.y - b.y) || 1, zoom: viewRef.current.zoom ?? latest.current.fitZoom };
+    }
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLElement>) => {
+    const pointers = pointersRef.current;
+    const previous = pointers.get(e.pointerId);
+    if (!previous) return;
+    const [oldA, oldB] = [...pointers.values()];
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pointers.size === 2 && pinchRef.current) {
+      const [a, b] = [...pointers.values()];
+      const oldMid = { x: (oldA.x + oldB.x) / 2, y: (oldA.y + oldB.y) / 2 };
+      const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+      panBy(mid.x - oldMid.x, mid.y - oldMid.y);
+      const { distance, zoom } = pinchRef.current;
+      zoomAt(zoom * (Math.hypot(a.x - b.x, a.y - b.y) / distance), offsetInCell(e.target, mid.x, mid.y));
+    } else if (pointers.size === 1) {
+      panBy(e.clientX - previous.x, e.clientY - previous.y);
+    }
+  };
+
+  const onPointerUp = (e: React.PointerEvent<HTMLElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    pinchRef.current = null;
+  };
+
+  // Double click toggles between the fitted view and 100% at the clicked point.
+  const onDoubleClick = (e: React.MouseEvent<HTMLElement>) => {
+    if (!panEnabled) return;
+    if (viewRef.current.zoom !== null) setView(FITTED);
+    else zoomAt(1, offsetInCell(e.target, e.clientX, e.clientY));
+  };
+
+  const region = useMemo<FrameRegion | null>(() => {
+    if (view.zoom === null || !fit || !cell) return null;
+    const k = view.zoom / fitZoom;
+    const half = { x: cell.width / (2 * k * fit.width), y: cell.height / (2 * k * fit.height) };
+    const x = Math.max(0, view.center.x - half.x);
+    const y = Math.max(0, view.center.y - half.y);
+    return {
+      x,
+      y,
+      width: Math.min(1, view.center.x + half.x) - x,
+      height: Math.min(1, view.center.y + half.y) - y
+    };
+  }, [view, fit, cell, fitZoom]);
+
+  const transform = fit && view.zoom !== null
+    ? `translate(${-scale * (view.center.x - 0.5) * fit.width}px, ${-scale * (view.center.y - 0.5) * fit.height}px) scale(${scale})`
+    : 'none';
+
+  return {
+    zoom: view.zoom,
+    fitZoom,
+    setZoom,
+    fit,
+    transform,
+    region,
+    handlers: { onPointerDown, onPointerMove, onPointerUp, onPointerCancel: onPointerUp, onDoubleClick }
+  };
+};
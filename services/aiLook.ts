@@ -0,0 +1,63 @@
+import { AiProvider, AiSettings, EditorSettings } from '../types';
+import { AI_SETTING_KEYS, INITIAL_SETTINGS } from '../constants';
+import { clampSetting } from './presets';
+import { createGeminiProvider } from './aiProviders/gemini';
+import { mockProvider } from './aiProviders/mock';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Accepts numbers and numeric strings ("12", "+12"); anything else is missing. */
+const toNumber = (value: unknown) => {
+  const number = typeof value === 'string' ? Number(value.trim()) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+};
+
+/**
+ * Turns a provider's answer (an object or JSON text, possibly in a markdown
+ * fence) into a complete set of AI settings: each field is rounded and
+ * clamped to its slider range, and missing ones get INITIAL_SETTINGS values.
+ * Throws when the answer contains none of the fields.
+ */
+export const validateAiSettings = (raw: unknown): AiSettings => {
+  let data = raw;
+  if (typeof data === 'string') {
+    const json = data.replace(/```(?:json)?/gi, '').trim();
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('AI response is not valid JSON');
+    }
+  }
+  if (!isRecord(data)) throw new Error('AI response is not an object');
+
+  let found = 0;
+  const settings = Object.fromEntries(AI_SETTING_KEYS.map(key => {
+    const value = toNumber(data[key]);
+    if (value === undefined) return [key, INITIAL_SETTINGS[key]];
+    found++;
+    return [key, clampSetting(key, Math.round(value)) || 0];
+  })) as AiSettings;
+  if (found === 0) throw new Error('AI response has no settings');
+  return settings;
+};
+
+/** `current` moved towards the AI settings by `strength` (0–1); other fields are kept. */
+export const blendAiSettings = (current: EditorSettings, target: AiSettings, strength: number): EditorSettings => {
+  if (strength <= 0) return current;
+  const blended = { ...current };
+  for (const key of AI_SETTING_KEYS) {
+    blended[key] = Math.round(current[key] + (target[key] - current[key]) * Math.min(1, strength));
+  }
+  return blended;
+};
+
+/**
+ * The provider named by AI_PROVIDER ('gemini' or 'mock'). Without a name,
+ * Gemini is used when an API key is configured and the offline mock otherwise.
+ */
+export const resolveAiProvider = (name = process.env.AI_PROVIDER, apiKey = process.env.API_KEY): AiProvider => {
+  if (name === 'mock' || (!name && !apiKey)) return mockProvider;
+  if (!apiKey) throw new Error('GEMINI_API_KEY is not set');
+  return createGeminiProvider(apiKey);
+};
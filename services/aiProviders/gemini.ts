@@ -0,0 +1,67 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { AiProvider, Locale, RasterImage } from '../../types';
+import { AI_SETTING_KEYS, SETTING_RANGES } from '../../constants';
+import { fitWithin, toImageData } from '../imageProcessor';
+import { messagesFor } from '../i18n';
+
+const DEFAULT_MODEL = 'gemini-3-flash-preview';
+
+/** Long edge of the image sent for analysis; color and tone don't need more. */
+const MAX_EDGE = 1024;
+
+/** The analysis request in the UI language; the setting keys stay as the schema names them. */
+const promptFor = (locale: Locale) => {
+  const { task, ranges, range } = messagesFor(locale).ai.prompt;
+  return [task, ranges, ...AI_SETTING_KEYS.map(key => range(key, SETTING_RANGES[key].min, SETTING_RANGES[key].max))].join('\n');
+};
+
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: Object.fromEntries(AI_SETTING_KEYS.map(key => [key, { type: Type.INTEGER }]))
+};
+
+const toBase64 = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+const encodeForAnalysis = async (image: RasterImage) => {
+  const { width, height } = fitWithin(image.width, image.height, MAX_EDGE);
+  const bitmap = await createImageBitmap(toImageData(image), {
+    resizeWidth: width,
+    resizeHeight: height,
+    resizeQuality: 'high'
+  });
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('2D context unavailable');
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return toBase64(await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.8 }));
+};
+
+/** Google Gemini, asked for JSON constrained to the AI settings schema. */
+export const createGeminiProvider = (apiKey: string, model = DEFAULT_MODEL): AiProvider => ({
+  id: 'gemini',
+  label: 'Gemini',
+  suggest: async (image, locale) => {
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await ai.models.generateContent({
+      model,
+      contents: {
+        parts: [
+          { text: promptFor(locale) },
+          { inlineData: { mimeType: 'image/jpeg', data: await encodeForAnalysis(image) } }
+        ]
+      },
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: RESPONSE_SCHEMA
+      }
+    });
+    if (!response.text) throw new Error('Empty AI response');
+    return response.text;
+  }
+});
@@ -0,0 +1,74 @@
+import { AiProvider, RasterImage } from '../../types';
+import { luminance } from '../pixelBuffer';
+import { srgbToLinear } from '../colorSpace';
+
+/** About this many pixels are sampled; enough for stable averages. */
+const SAMPLES = 40000;
+
+/** Mid-grey the exposure suggestion aims the average luminance at. */
+const TARGET_MEAN = 118;
+
+/** Settings that correct haze, the average level, spread, clipped ends and color cast. */
+const suggestFromStats = (image: RasterImage) => {
+  const { data } = image;
+  const pixels = data.length / 4;
+  const step = Math.max(1, Math.floor(pixels / SAMPLES));
+  const levels = new Uint32Array(256);
+  let r = 0, g = 0, b = 0, dark = 0, count = 0;
+  for (let p = 0; p < pixels; p += step) {
+    const i = p * 4;
+    r += data[i];
+    g += data[i + 1];
+    b += data[i + 2];
+    dark += Math.min(data[i], data[i + 1], data[i + 2]);
+    levels[Math.min(255, Math.round(luminance(data[i], data[i + 1], data[i + 2])))]++;
+    count++;
+  }
+  r /= count;
+  g /= count;
+  b /= count;
+  dark /= count;
+
+  const percentile = (fraction: number) => {
+    let seen = 0;
+    for (let level = 0; level < 256; level++) {
+      seen += levels[level];
+      if (seen >= fraction * count) return level;
+    }
+    return 255;
+  };
+  const mean = luminance(r, g, b);
+  const spread = percentile(0.98) - percentile(0.02);
+  const crushed = levels.slice(0, 16).reduce((a, v) => a + v, 0) / count;
+  const blown = levels.slice(240).reduce((a, v) => a + v, 0) / count;
+
+  return {
+    // Haze lifts the darkest channel everywhere and flattens the spread.
+    dehaze: Math.max(0, (dark - 40) * 0.6 + (160 - spread) * 0.2),
+    // Stops in linear light; the slider's ±100 is ±2 stops.
+    exposure: Math.log2(srgbToLinear(TARGET_MEAN) / srgbToLinear(Math.max(1, mean))) * 50,
+    contrast: (190 - spread) / 4,
+    shadows: crushed * 200,
+    highlights: -blown * 300,
+    whites: spread < 200 ? 10 : 0,
+    // Neutralize the average cast: positive temp warms, positive tint adds green.
+    temp: (b - r) * 0.6,
+    tint: ((r + b) / 2 - g) * 0.6,
+    saturation: 0,
+    vibrance: 15,
+    sharpness: 20,
+    clarity: 10,
+    vignette: 0
+  };
+};
+
+/**
+ * Offline stand-in for development and tests: deterministic, unrounded and
+ * unclamped suggestions in the shape a remote model returns, so they go
+ * through the same validation.
+ */
+export const mockProvider: AiProvider = {
+  id: 'mock',
+  label: 'Local',
+  suggest: async image => suggestFromStats(image)
+};
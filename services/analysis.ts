@@ -0,0 +1,106 @@
+import { AnalysisOptions, Histogram, PreviewResult, RasterImage, Waveform } from '../types';
+
+export const CLIP_HIGHLIGHT = 1;
+export const CLIP_SHADOW = 2;
+
+const WAVEFORM_COLUMNS = 128;
+const WAVEFORM_LEVELS = 64;
+// Every 2nd pixel in both directions is plenty for a 256-bin histogram.
+const HISTOGRAM_STEP = 2;
+
+export const computeHistogram = (image: RasterImage): Histogram => {
+  const { width, height, data } = image;
+  const histogram: Histogram = {
+    luminance: new Uint32Array(256),
+    red: new Uint32Array(256),
+    green: new Uint32Array(256),
+    blue: new Uint32Array(256)
+  };
+  for (let y = 0; y < height; y += HISTOGRAM_STEP) {
+    for (let x = 0; x < width; x += HISTOGRAM_STEP) {
+      const i = (y * width + x) * 4;
+      const r = data[i];
+      const g = data[i + 1];
+      const b = data[i + 2];
+      histogram.red[r]++;
+      histogram.green[g]++;
+      histogram.blue[b]++;
+      histogram.luminance[Math.round(0.299 * r + 0.587 * g + 0.114 * b)]++;
+    }
+  }
+  return histogram;
+};
+
+export const computeWaveform = (image: RasterImage): Waveform => {
+  const { width, height, data } = image;
+  const columns = Math.min(WAVEFORM_COLUMNS, width);
+  const levels = WAVEFORM_LEVELS;
+  const size = columns * levels;
+  const waveform: Waveform = {
+    columns,
+    levels,
+    red: new Uint32Array(size),
+    green: new Uint32Array(size),
+    blue: new Uint32Array(size)
+  };
+  const levelShift = 256 / levels;
+  for (let y = 0; y < height; y += HISTOGRAM_STEP) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const column = Math.floor((x * columns) / width) * levels;
+      waveform.red[column + Math.floor(data[i] / levelShift)]++;
+      waveform.green[column + Math.floor(data[i + 1] / levelShift)]++;
+      waveform.blue[column + Math.floor(data[i + 2] / levelShift)]++;
+    }
+  }
+  return waveform;
+};
+
+/** Flags pixels where any channel is fully clipped at either end. */
+export const computeClipping = (image: RasterImage): Uint8Array => {
+  const { data } = image;
+  const mask = new Uint8Array(image.width * image.height);
+  for (let p = 0, i = 0; p < mask.length; p++, i += 4) {
+    const max = Math.max(data[i], data[i + 1], data[i + 2]);
+    const min = Math.min(data[i], data[i + 1], data[i + 2]);
+    mask[p] = (max >= 255 ? CLIP_HIGHLIGHT : 0) | (min <= 0 ? CLIP_SHADOW : 0);
+  }
+  return mask;
+};
+
+export const analyzeImage = (image: RasterImage, options: AnalysisOptions): PreviewResult => ({
+  image,
+  histogram: computeHistogram(image),
+  waveform: options.waveform ? computeWaveform(image) : undefined,
+  clipping: options.clipping ? computeClipping(image) : undefined
+});
+
+/** Buffers of a preview result that can be transferred instead of copied. */
+export const transferablesOf = (result: PreviewResult): Transferable[] => [
+  result.image.data.buffer,
+  result.histogram.luminance.buffer,
+  result.histogram.red.buffer,
+  result.histogram.green.buffer,
+  result.histogram.blue.buffer,
+  ...(result.waveform ? [result.waveform.red.buffer, result.waveform.green.buffer, result.waveform.blue.buffer] : []),
+  ...(result.clipping ? [result.clipping.buffer] : [])
+];
+
+/** Copy of `image` with clipped pixels painted: red for blown highlights, blue for crushed shadows. */
+export const paintClipping = (
+  image: RasterImage,
+  clipping: Uint8Array,
+  show: { highlights: boolean; shadows: boolean }
+): RasterImage => {
+  const data = image.data.slice();
+  for (let p = 0; p < clipping.length; p++) {
+    const flags = clipping[p];
+    const i = p * 4;
+    if (show.highlights && flags & CLIP_HIGHLIGHT) {
+      data[i] = 255; data[i + 1] = 0; data[i + 2] = 0;
+    } else if (show.shadows && flags & CLIP_SHADOW) {
+      data[i] = 0; data[i + 1] = 90; data[i + 2] = 255;
+    }
+  }
+  return { width: image.width, height: image.height, data };
+};
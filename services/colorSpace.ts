@@ -0,0 +1,66 @@
+/**
+ * The sRGB transfer curve, shared by Display P3, between 0–255 encoded
+ * values and 0–1 linear light. Lookup tables with linear interpolation
+ * cover the normal range; values pushed outside it by earlier stages use
+ * the exact curve (mirrored for negatives) so nothing is clipped early.
+ */
+
+const TABLE_SIZE = 4096;
+
+const decode = (v: number) => (v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4));
+const encode = (v: number) => (v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055);
+
+const buildTable = (curve: (v: number) => number) => {
+  const table = new Float32Array(TABLE_SIZE + 1);
+  for (let i = 0; i <= TABLE_SIZE; i++) table[i] = curve(i / TABLE_SIZE);
+  return table;
+};
+
+const TO_LINEAR = buildTable(decode);
+const TO_ENCODED = buildTable(v => encode(v) * 255);
+
+// `v` must be in [0, 1).
+const lookup = (table: Float32Array, v: number) => {
+  const position = v * TABLE_SIZE;
+  const i = Math.floor(position);
+  return table[i] + (table[i + 1] - table[i]) * (position - i);
+};
+
+/** Encoded 0–255 value to linear light (0–1 for in-range input). */
+export const srgbToLinear = (value: number) => {
+  const v = value / 255;
+  if (v >= 0 && v < 1) return lookup(TO_LINEAR, v);
+  return v < 0 ? -decode(-v) : decode(v);
+};
+
+/** Linear light back to an encoded 0–255 value. */
+export const linearToSrgb = (value: number) => {
+  if (value >= 0 && value < 1) return lookup(TO_ENCODED, value);
+  return (value < 0 ? -encode(-value) : encode(value)) * 255;
+};
+
+let displayP3: boolean | undefined;
+
+/**
+ * Whether canvases in this context really store Display P3 pixels. Browsers
+ * without support either throw or quietly fall back to sRGB, so a P3 red
+ * (outside sRGB) is drawn and read back rather than trusting the option.
+ */
+export const supportsDisplayP3 = () => {
+  if (displayP3 === undefined) {
+    try {
+      const ctx = new OffscreenCanvas(1, 1).getContext('2d', { colorSpace: 'display-p3' });
+      if (!ctx) throw new Error('2D context unavailable');
+      ctx.fillStyle = 'color(display-p3 1 0 0)';
+      ctx.fillRect(0, 0, 1, 1);
+      const [r, g] = ctx.getImageData(0, 0, 1, 1, { colorSpace: 'display-p3' }).data;
+      displayP3 = r === 255 && g === 0;
+    } catch {
+      displayP3 = false;
+    }
+  }
+  return displayP3;
+};
+
+/** Space photos are decoded and edited in: Display P3 where supported, so wide-gamut photos keep their colors. */
+export const workingColorSpace = (): PredefinedColorSpace => (supportsDisplayP3() ? 'display-p3' : 'srgb');
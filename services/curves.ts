@@ -0,0 +1,87 @@
+import { CurvePoint } from '../types';
+
+/**
+ * Monotone cubic (Fritsch-Carlson) interpolation through the control points,
+ * sampled into a 256-entry lookup table. Monotone tangents keep the curve
+ * from overshooting between points, which a natural spline would do. The
+ * table is not clamped: `sampleLut` extends it past 0 and 255.
+ */
+export const buildCurveLut = (points: CurvePoint[]): Float32Array => {
+  const pts = [...points].sort((a, b) => a.x - b.x);
+  const lut = new Float32Array(256);
+  const n = pts.length;
+  if (n === 0) {
+    for (let i = 0; i < 256; i++) lut[i] = i;
+    return lut;
+  }
+  if (n === 1) return lut.fill(pts[0].y);
+
+  const slopes: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    const dx = pts[i + 1].x - pts[i].x;
+    slopes.push(dx === 0 ? 0 : (pts[i + 1].y - pts[i].y) / dx);
+  }
+
+  const tangents: number[] = [slopes[0]];
+  for (let i = 1; i < n - 1; i++) {
+    tangents.push(slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2);
+  }
+  tangents.push(slopes[n - 2]);
+
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / slopes[i];
+    const b = tangents[i + 1] / slopes[i];
+    const h = Math.hypot(a, b);
+    if (h > 3) {
+      tangents[i] = (3 / h) * a * slopes[i];
+      tangents[i + 1] = (3 / h) * b * slopes[i];
+    }
+  }
+
+  let seg = 0;
+  for (let x = 0; x < 256; x++) {
+    if (x <= pts[0].x) {
+      lut[x] = pts[0].y;
+      continue;
+    }
+    if (x >= pts[n - 1].x) {
+      lut[x] = pts[n - 1].y;
+      continue;
+    }
+    while (x > pts[seg + 1].x) seg++;
+    const p0 = pts[seg];
+    const p1 = pts[seg + 1];
+    const dx = p1.x - p0.x;
+    const t = (x - p0.x) / dx;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    lut[x] =
+      (2 * t3 - 3 * t2 + 1) * p0.y +
+      (t3 - 2 * t2 + t) * dx * tangents[seg] +
+      (-2 * t3 + 3 * t2) * p1.y +
+      (t3 - t2) * dx * tangents[seg + 1];
+  }
+
+  return lut;
+};
+
+export const isIdentityCurve = (points: CurvePoint[]) =>
+  points.every(p => p.x === p.y) && points.some(p => p.x === 0) && points.some(p => p.x === 255);
+
+/**
+ * Reads a LUT at a fractional input, interpolating between entries. Inputs
+ * outside 0–255 continue along the slope of the end entries, so highlights
+ * above 255 keep their detail until the final clamp.
+ */
+export const sampleLut = (lut: Float32Array, value: number) => {
+  if (value <= 0) return lut[0] + (lut[1] - lut[0]) * value;
+  if (value >= 255) return lut[255] + (lut[255] - lut[254]) * (value - 255);
+  const i = Math.floor(value);
+  const f = value - i;
+  return lut[i] + (lut[i + 1] - lut[i]) * f;
+};
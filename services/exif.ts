@@ -0,0 +1,425 @@
+import { GpsPosition, PhotoMetadata } from '../types';
+import { crc32 } from './zip';
+
+/**
+ * EXIF reading and writing. Reading walks the APP1 TIFF structure of a JPEG
+ * (IFD0, the Exif sub-IFD and the GPS IFD) for the fields in PhotoMetadata;
+ * writing builds a fresh, minimal TIFF block from those fields instead of
+ * patching the camera's original, so maker notes and thumbnails never carry
+ * stale offsets into an export.
+ */
+
+const TAG = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  software: 0x0131,
+  dateTime: 0x0132,
+  artist: 0x013b,
+  copyright: 0x8298,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  exposureTime: 0x829a,
+  fNumber: 0x829d,
+  iso: 0x8827,
+  dateTimeOriginal: 0x9003,
+  focalLength: 0x920a,
+  focalLength35: 0xa405,
+  lensMake: 0xa433,
+  lensModel: 0xa434,
+  gpsVersion: 0x0000,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004,
+  gpsAltitudeRef: 0x0005,
+  gpsAltitude: 0x0006
+};
+
+const BYTE = 1;
+const ASCII = 2;
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+const SRATIONAL = 10;
+
+/** Size in bytes of one value of each TIFF field type (1–12). */
+const TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0, 0]; // "Exif\0\0"
+
+/** EXIF lives in the first APP segments; this is plenty to find it. */
+const METADATA_READ_BYTES = 256 * 1024;
+
+interface JpegSegment {
+  marker: number;
+  /** Offset of the 0xFF marker byte, and one past the segment's end. */
+  start: number;
+  end: number;
+  data: Uint8Array;
+}
+
+/** Marker segments before the compressed image data. */
+const jpegSegments = (bytes: Uint8Array): JpegSegment[] => {
+  const segments: JpegSegment[] = [];
+  let i = 2;
+  while (i + 4 <= bytes.length && bytes[i] === 0xff) {
+    const marker = bytes[i + 1];
+    if (marker === 0xff) {
+      i++;
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) break;
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      i += 2;
+      continue;
+    }
+    const end = i + 2 + ((bytes[i + 2] << 8) | bytes[i + 3]);
+    if (end > bytes.length) break;
+    segments.push({ marker, start: i, end, data: bytes.subarray(i + 4, end) });
+    i = end;
+  }
+  return segments;
+};
+
+const isJpeg = (bytes: Uint8Array) => bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8;
+
+const isExifSegment = (segment: JpegSegment) =>
+  segment.marker === 0xe1 && EXIF_HEADER.every((byte, i) => segment.data[i] === byte);
+
+const decoder = new TextDecoder();
+
+/** Reads the fields of one IFD as lists of numbers or a string. */
+const readIfd = (view: DataView, offset: number, little: boolean) => {
+  const fields = new Map<number, number[] | string>();
+  if (offset + 2 > view.byteLength) return fields;
+  const count = view.getUint16(offset, little);
+  for (let n = 0; n < count; n++) {
+    const entry = offset + 2 + n * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const length = view.getUint32(entry + 4, little);
+    const size = (TYPE_SIZES[type] ?? 0) * length;
+    if (size === 0) continue;
+    const at = size <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+    if (at + size > view.byteLength) continue;
+
+    if (type === ASCII) {
+      const raw = new Uint8Array(view.buffer, view.byteOffset + at, length);
+      const end = raw.indexOf(0);
+      fields.set(tag, decoder.decode(end >= 0 ? raw.subarray(0, end) : raw).trim());
+      continue;
+    }
+    const values: number[] = [];
+    for (let i = 0; i < Math.min(length, 16); i++) {
+      if (type === BYTE || type === 7) values.push(view.getUint8(at + i));
+      else if (type === SHORT) values.push(view.getUint16(at + i * 2, little));
+      else if (type === LONG) values.push(view.getUint32(at + i * 4, little));
+      else if (type === 9) values.push(view.getInt32(at + i * 4, little));
+      else if (type === RATIONAL || type === SRATIONAL) {
+        const read = type === RATIONAL ? view.getUint32.bind(view) : view.getInt32.bind(view);
+        const den = read(at + i * 8 + 4, little);
+        values.push(den === 0 ? 0 : read(at + i * 8, little) / den);
+      }
+    }
+    fields.set(tag, values);
+  }
+  return fields;
+};
+
+const text = (fields: Map<number, number[] | string>, tag: number) => {
+  const value = fields.get(tag);
+  return typeof value === 'string' && value ? value : undefined;
+};
+
+const number = (fields: Map<number, number[] | string>, tag: number) => {
+  const value = fields.get(tag);
+  return Array.isArray(value) && value.length > 0 && Number.isFinite(value[0]) && value[0] > 0 ? value[0] : undefined;
+};
+
+const readGps = (fields: Map<number, number[] | string>): GpsPosition | undefined => {
+  const degrees = (tag: number) => {
+    const value = fields.get(tag);
+    return Array.isArray(value) && value.length >= 3 ? value[0] + value[1] / 60 + value[2] / 3600 : undefined;
+  };
+  const latitude = degrees(TAG.gpsLatitude);
+  const longitude = degrees(TAG.gpsLongitude);
+  if (latitude === undefined || longitude === undefined) return undefined;
+  const altitude = fields.get(TAG.gpsAltitude);
+  const altitudeRef = fields.get(TAG.gpsAltitudeRef);
+  return {
+    latitude: text(fields, TAG.gpsLatitudeRef) === 'S' ? -latitude : latitude,
+    longitude: text(fields, TAG.gpsLongitudeRef) === 'W' ? -longitude : longitude,
+    ...(Array.isArray(altitude) && altitude.length > 0
+      ? { altitude: Array.isArray(altitudeRef) && altitudeRef[0] === 1 ? -altitude[0] : altitude[0] }
+      : {})
+  };
+};
+
+/** Drops undefined fields so metadata objects compare and persist cleanly. */
+const compact = <T extends object>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+
+/** Parses the TIFF structure inside an EXIF block. */
+export const parseTiff = (tiff: Uint8Array): PhotoMetadata | null => {
+  if (tiff.length < 8) return null;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const order = view.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const little = order === 0x4949;
+  if (view.getUint16(2, little) !== 42) return null;
+
+  const ifd0 = readIfd(view, view.getUint32(4, little), little);
+  const exifOffset = number(ifd0, TAG.exifIfd);
+  const gpsOffset = number(ifd0, TAG.gpsIfd);
+  const exif = exifOffset ? readIfd(view, exifOffset, little) : new Map<number, number[] | string>();
+  const gps = gpsOffset ? readIfd(view, gpsOffset, little) : new Map<number, number[] | string>();
+
+  return compact<PhotoMetadata>({
+    make: text(ifd0, TAG.make),
+    model: text(ifd0, TAG.model),
+    lensMake: text(exif, TAG.lensMake),
+    lens: text(exif, TAG.lensModel),
+    iso: number(exif, TAG.iso),
+    exposureTime: number(exif, TAG.exposureTime),
+    fNumber: number(exif, TAG.fNumber),
+    focalLength: number(exif, TAG.focalLength),
+    focalLength35: number(exif, TAG.focalLength35),
+    dateTaken: text(exif, TAG.dateTimeOriginal) ?? text(ifd0, TAG.dateTime),
+    artist: text(ifd0, TAG.artist),
+    copyright: text(ifd0, TAG.copyright),
+    software: text(ifd0, TAG.software),
+    orientation: number(ifd0, TAG.orientation),
+    gps: readGps(gps)
+  });
+};
+
+/** Reads the EXIF metadata of a JPEG; null when it has none. */
+export const parseExif = (bytes: Uint8Array): PhotoMetadata | null => {
+  if (!isJpeg(bytes)) return null;
+  const segment = jpegSegments(bytes).find(isExifSegment);
+  return segment ? parseTiff(segment.data.subarray(EXIF_HEADER.length)) : null;
+};
+
+/** Reads a photo file's metadata, ignoring files without (or with broken) EXIF. */
+export const readMetadata = async (file: Blob): Promise<PhotoMetadata | null> => {
+  try {
+    return parseExif(new Uint8Array(await file.slice(0, METADATA_READ_BYTES).arrayBuffer()));
+  } catch {
+    return null;
+  }
+};
+
+// --- Writing ---------------------------------------------------------------
+
+interface TiffField {
+  tag: number;
+  type: number;
+  count: number;
+  /** Big-endian value bytes. */
+  bytes: Uint8Array;
+}
+
+const encoder = new TextEncoder();
+
+/** Written as UTF-8, which common readers accept in ASCII fields (for "©"). */
+const asciiField = (tag: number, value: string): TiffField => {
+  const bytes = encoder.encode(value + '\0');
+  return { tag, type: ASCII, count: bytes.length, bytes };
+};
+
+const shortField = (tag: number, value: number): TiffField => {
+  const bytes = new Uint8Array(2);
+  new DataView(bytes.buffer).setUint16(0, Math.max(0, Math.min(65535, Math.round(value))));
+  return { tag, type: SHORT, count: 1, bytes };
+};
+
+const longField = (tag: number, value: number): TiffField => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return { tag, type: LONG, count: 1, bytes };
+};
+
+const byteField = (tag: number, values: number[]): TiffField =>
+  ({ tag, type: BYTE, count: values.length, bytes: new Uint8Array(values) });
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+/** Shutter speeds stay exact fractions (1/250); other values keep 4 decimals. */
+const toRational = (value: number): [number, number] => {
+  if (value > 0 && value < 1) {
+    const inverse = 1 / value;
+    if (Math.abs(inverse - Math.round(inverse)) < 1e-3) return [1, Math.round(inverse)];
+  }
+  const num = Math.round(Math.abs(value) * 10000);
+  const divisor = gcd(num, 10000) || 1;
+  return [num / divisor, 10000 / divisor];
+};
+
+const rationalField = (tag: number, values: number[]): TiffField => {
+  const bytes = new Uint8Array(values.length * 8);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => {
+    const [num, den] = toRational(value);
+    view.setUint32(i * 8, num);
+    view.setUint32(i * 8 + 4, den);
+  });
+  return { tag, type: RATIONAL, count: values.length, bytes };
+};
+
+const dms = (degrees: number) => {
+  const abs = Math.abs(degrees);
+  const d = Math.floor(abs);
+  const m = Math.floor((abs - d) * 60);
+  return [d, m, Math.round(((abs - d) * 60 - m) * 60 * 100) / 100];
+};
+
+/** Encoded size of an IFD: count, entries, next-IFD link and out-of-line values. */
+const ifdSize = (fields: TiffField[]) =>
+  2 + fields.length * 12 + 4 + fields.reduce((sum, f) => sum + (f.bytes.length > 4 ? (f.bytes.length + 1) & ~1 : 0), 0);
+
+const writeIfd = (out: Uint8Array, offset: number, fields: TiffField[]) => {
+  const view = new DataView(out.buffer, out.byteOffset, out.byteLength);
+  const sorted = [...fields].sort((a, b) => a.tag - b.tag);
+  view.setUint16(offset, sorted.length);
+  let data = offset + 2 + sorted.length * 12 + 4;
+  sorted.forEach((field, n) => {
+    const entry = offset + 2 + n * 12;
+    view.setUint16(entry, field.tag);
+    view.setUint16(entry + 2, field.type);
+    view.setUint32(entry + 4, field.count);
+    if (field.bytes.length <= 4) {
+      out.set(field.bytes, entry + 8);
+    } else {
+      view.setUint32(entry + 8, data);
+      out.set(field.bytes, data);
+      data += (field.bytes.length + 1) & ~1;
+    }
+  });
+  view.setUint32(offset + 2 + sorted.length * 12, 0);
+};
+
+/**
+ * Builds a big-endian TIFF block holding the given metadata. Orientation is
+ * always written as 1: exported pixels are already upright.
+ */
+export const buildTiff = (meta: PhotoMetadata): Uint8Array => {
+  const ifd0: TiffField[] = [shortField(TAG.orientation, 1)];
+  if (meta.make) ifd0.push(asciiField(TAG.make, meta.make));
+  if (meta.model) ifd0.push(asciiField(TAG.model, meta.model));
+  if (meta.software) ifd0.push(asciiField(TAG.software, meta.software));
+  if (meta.dateTaken) ifd0.push(asciiField(TAG.dateTime, meta.dateTaken));
+  if (meta.artist) ifd0.push(asciiField(TAG.artist, meta.artist));
+  if (meta.copyright) ifd0.push(asciiField(TAG.copyright, meta.copyright));
+
+  const exif: TiffField[] = [];
+  if (meta.exposureTime) exif.push(rationalField(TAG.exposureTime, [meta.exposureTime]));
+  if (meta.fNumber) exif.push(rationalField(TAG.fNumber, [meta.fNumber]));
+  if (meta.iso) exif.push(shortField(TAG.iso, meta.iso));
+  if (meta.dateTaken) exif.push(asciiField(TAG.dateTimeOriginal, meta.dateTaken));
+  if (meta.focalLength) exif.push(rationalField(TAG.focalLength, [meta.focalLength]));
+  if (meta.focalLength35) exif.push(shortField(TAG.focalLength35, meta.focalLength35));
+  if (meta.lensMake) exif.push(asciiField(TAG.lensMake, meta.lensMake));
+  if (meta.lens) exif.push(asciiField(TAG.lensModel, meta.lens));
+
+  const gps: TiffField[] = [];
+  if (meta.gps) {
+    const { latitude, longitude, altitude } = meta.gps;
+    gps.push(
+      byteField(TAG.gpsVersion, [2, 3, 0, 0]),
+      asciiField(TAG.gpsLatitudeRef, latitude < 0 ? 'S' : 'N'),
+      rationalField(TAG.gpsLatitude, dms(latitude)),
+      asciiField(TAG.gpsLongitudeRef, longitude < 0 ? 'W' : 'E'),
+      rationalField(TAG.gpsLongitude, dms(longitude))
+    );
+    if (altitude !== undefined) {
+      gps.push(byteField(TAG.gpsAltitudeRef, [altitude < 0 ? 1 : 0]), rationalField(TAG.gpsAltitude, [Math.abs(altitude)]));
+    }
+  }
+
+  // Pointer entries have a fixed size, so offsets are known before their values.
+  const exifPointer = exif.length > 0 ? longField(TAG.exifIfd, 0) : null;
+  const gpsPointer = gps.length > 0 ? longField(TAG.gpsIfd, 0) : null;
+  if (exifPointer) ifd0.push(exifPointer);
+  if (gpsPointer) ifd0.push(gpsPointer);
+
+  const exifOffset = 8 + ifdSize(ifd0);
+  const gpsOffset = exifOffset + (exif.length > 0 ? ifdSize(exif) : 0);
+  const out = new Uint8Array(gpsOffset + (gps.length > 0 ? ifdSize(gps) : 0));
+  if (exifPointer) new DataView(exifPointer.bytes.buffer).setUint32(0, exifOffset);
+  if (gpsPointer) new DataView(gpsPointer.bytes.buffer).setUint32(0, gpsOffset);
+
+  out.set([0x4d, 0x4d, 0, 42, 0, 0, 0, 8]);
+  writeIfd(out, 8, ifd0);
+  if (exif.length > 0) writeIfd(out, exifOffset, exif);
+  if (gps.length > 0) writeIfd(out, gpsOffset, gps);
+  return out;
+};
+
+/**
+ * Inserts the metadata as an APP1 segment right after SOI, replacing any
+ * EXIF block and the JFIF APP0 header (EXIF and JFIF are alternatives).
+ */
+export const embedExifInJpeg = (jpeg: Uint8Array, tiff: Uint8Array): Uint8Array => {
+  if (!isJpeg(jpeg)) throw new Error('Not a JPEG file.');
+  const length = 2 + EXIF_HEADER.length + tiff.length;
+  if (length > 0xffff) throw new Error('EXIF block is too large for a JPEG segment.');
+
+  const dropped = jpegSegments(jpeg).filter(s => isExifSegment(s) || s.marker === 0xe0);
+  const keep: Uint8Array[] = [];
+  let from = 2;
+  for (const segment of dropped) {
+    keep.push(jpeg.subarray(from, segment.start));
+    from = segment.end;
+  }
+  keep.push(jpeg.subarray(from));
+
+  const app1 = new Uint8Array(2 + length);
+  app1.set([0xff, 0xe1, length >> 8, length & 0xff, ...EXIF_HEADER]);
+  app1.set(tiff, 4 + EXIF_HEADER.length);
+
+  const out = new Uint8Array(2 + app1.length + keep.reduce((sum, part) => sum + part.length, 0));
+  out.set([0xff, 0xd8]);
+  out.set(app1, 2);
+  let offset = 2 + app1.length;
+  for (const part of keep) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/** Inserts the metadata as an eXIf chunk right after IHDR. */
+export const embedExifInPng = (png: Uint8Array, tiff: Uint8Array): Uint8Array => {
+  if (!PNG_SIGNATURE.every((byte, i) => png[i] === byte)) throw new Error('Not a PNG file.');
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const ihdrEnd = 8 + 12 + view.getUint32(8);
+
+  const chunk = new Uint8Array(12 + tiff.length);
+  const chunkView = new DataView(chunk.buffer);
+  chunkView.setUint32(0, tiff.length);
+  chunk.set(encoder.encode('eXIf'), 4);
+  chunk.set(tiff, 8);
+  chunkView.setUint32(8 + tiff.length, crc32(chunk.subarray(4, 8 + tiff.length)));
+
+  const out = new Uint8Array(png.length + chunk.length);
+  out.set(png.subarray(0, ihdrEnd));
+  out.set(chunk, ihdrEnd);
+  out.set(png.subarray(ihdrEnd), ihdrEnd + chunk.length);
+  return out;
+};
+
+/** Whether exports in this format can carry metadata. */
+export const supportsMetadata = (mimeType: string) => mimeType === 'image/jpeg' || mimeType === 'image/png';
+
+/** Writes metadata into an encoded JPEG or PNG; other formats pass through. */
+export const embedMetadata = async (blob: Blob, metadata: PhotoMetadata | null): Promise<Blob> => {
+  if (!metadata || !supportsMetadata(blob.type)) return blob;
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const tiff = buildTiff(metadata);
+  const embedded = blob.type === 'image/jpeg' ? embedExifInJpeg(bytes, tiff) : embedExifInPng(bytes, tiff);
+  return new Blob([embedded], { type: blob.type });
+};
@@ -0,0 +1,80 @@
+import { ExportSettings, Photo, PhotoMetadata } from '../types';
+import { DEFAULT_EXPORT_SETTINGS, EXPORT_FORMATS } from '../constants';
+import { ExportOptions, Renderer } from './renderClient';
+import { createZip, ZipEntry } from './zip';
+
+const pad = (value: number, length: number) => String(value).padStart(length, '0');
+
+/**
+ * Expands a file name template: `{name}` is the original name without
+ * extension, `{n}` the 1-based position (zero padded) and `{date}` YYYYMMDD.
+ */
+export const formatFileName = (template: string, name: string, index: number, date = new Date()) => {
+  const base = name.replace(/\.[^.]+$/, '');
+  const stamp = `${date.getFullYear()}${pad(date.getMonth() + 1, 2)}${pad(date.getDate(), 2)}`;
+  const expanded = (template.trim() || DEFAULT_EXPORT_SETTINGS.fileNameTemplate)
+    .replace(/\{name\}/g, base)
+    .replace(/\{n\}/g, pad(index + 1, 3))
+    .replace(/\{date\}/g, stamp);
+  return expanded.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_').slice(0, 120) || base;
+};
+
+/** File name with extension for one exported photo. */
+export const exportFileName = (settings: ExportSettings, name: string, index = 0, date = new Date()) =>
+  `${formatFileName(settings.fileNameTemplate, name, index, date)}.${EXPORT_FORMATS[settings.format].extension}`;
+
+/**
+ * The metadata an export writes: the photo's EXIF (without GPS for 'noGps',
+ * nothing for 'none') plus the artist and copyright from the dialog, which
+ * are written even when the camera's metadata is stripped.
+ */
+export const metadataForExport = (metadata: PhotoMetadata | null, settings: ExportSettings): PhotoMetadata | null => {
+  const kept: PhotoMetadata = settings.metadata === 'none' ? {} : { ...metadata };
+  if (settings.metadata === 'noGps') delete kept.gps;
+  if (settings.artist.trim()) kept.artist = settings.artist.trim();
+  if (settings.copyright.trim()) kept.copyright = settings.copyright.trim();
+  return Object.keys(kept).length > 0 ? kept : null;
+};
+
+/** Renderer options for the given export settings and photo metadata. */
+export const exportOptionsFor = (settings: ExportSettings, metadata: PhotoMetadata | null = null): Omit<ExportOptions, 'onProgress'> => ({
+  mimeType: EXPORT_FORMATS[settings.format].mimeType,
+  quality: settings.quality / 100,
+  output: { resize: settings.resize, sharpening: settings.sharpening, dither: settings.dither, colorSpace: settings.colorSpace },
+  metadata: metadataForExport(metadata, settings)
+});
+
+const uniqueName = (taken: Set<string>, fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  let candidate = fileName;
+  for (let i = 2; taken.has(candidate.toLowerCase()); i++) candidate = `${fileName.slice(0, dot)}_${i}${fileName.slice(dot)}`;
+  taken.add(candidate.toLowerCase());
+  return candidate;
+};
+
+/**
+ * Renders every photo at full resolution with its own settings, one at a
+ * time, and packs the results into a zip. `renderer.cancelExport()` aborts.
+ * `onProgress` gets the overall fraction (0-1) and the photos finished.
+ */
+export const exportBatch = async (
+  renderer: Renderer,
+  photos: Photo[],
+  settings: ExportSettings,
+  onProgress?: (fraction: number, done: number) => void
+): Promise<Blob> => {
+  const taken = new Set<string>();
+  const entries: ZipEntry[] = [];
+  const date = new Date();
+
+  for (const [index, photo] of photos.entries()) {
+    const data = await renderer.exportImage(photo.file, photo.settings, {
+      ...exportOptionsFor(settings, photo.metadata),
+      onProgress: fraction => onProgress?.((index + fraction) / photos.length, index)
+    });
+    entries.push({ name: uniqueName(taken, exportFileName(settings, photo.name, index, date)), data });
+    onProgress?.((index + 1) / photos.length, index + 1);
+  }
+
+  return createZip(entries, date);
+};
@@ -0,0 +1,41 @@
+import { ExportResize, ExportSettings } from '../types';
+import { DEFAULT_EXPORT_SETTINGS, EXPORT_FORMATS } from '../constants';
+import { clamp } from './pixelBuffer';
+
+const STORAGE_KEY = 'redmi-studio.export';
+
+const RESIZE_MODES: ExportResize['mode'][] = ['original', 'longEdge', 'percent'];
+
+const numberOr = (value: unknown, fallback: number, min: number, max: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.round(clamp(value, min, max)) : fallback;
+
+/** Last-used export settings, with anything missing or invalid taken from the defaults. */
+export const loadExportSettings = (): ExportSettings => {
+  const defaults = DEFAULT_EXPORT_SETTINGS;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    const resize = stored?.resize ?? {};
+    return {
+      format: stored.format in EXPORT_FORMATS ? stored.format : defaults.format,
+      quality: numberOr(stored.quality, defaults.quality, 1, 100),
+      resize: {
+        mode: RESIZE_MODES.includes(resize.mode) ? resize.mode : defaults.resize.mode,
+        longEdge: numberOr(resize.longEdge, defaults.resize.longEdge, 16, 20000),
+        percent: numberOr(resize.percent, defaults.resize.percent, 1, 100)
+      },
+      sharpening: ['none', 'screen', 'print'].includes(stored.sharpening) ? stored.sharpening : defaults.sharpening,
+      dither: typeof stored.dither === 'boolean' ? stored.dither : defaults.dither,
+      colorSpace: ['srgb', 'display-p3'].includes(stored.colorSpace) ? stored.colorSpace : defaults.colorSpace,
+      fileNameTemplate: typeof stored.fileNameTemplate === 'string' ? stored.fileNameTemplate : defaults.fileNameTemplate,
+      metadata: ['all', 'noGps', 'none'].includes(stored.metadata) ? stored.metadata : defaults.metadata,
+      artist: typeof stored.artist === 'string' ? stored.artist : defaults.artist,
+      copyright: typeof stored.copyright === 'string' ? stored.copyright : defaults.copyright
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveExportSettings = (settings: ExportSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
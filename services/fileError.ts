@@ -0,0 +1,12 @@
+import { FileErrorDetail } from '../types';
+
+/**
+ * A user file that could not be read. The message is for developers; the
+ * interface shows the localized text for `detail` instead.
+ */
+export class FileError extends Error {
+  constructor(readonly detail: FileErrorDetail, message: string) {
+    super(message);
+    this.name = 'FileError';
+  }
+}
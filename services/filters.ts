@@ -0,0 +1,195 @@
+import { PixelBuffer } from '../types';
+import { boxRadiiForGauss } from './pixelBuffer';
+
+/**
+ * Single-channel ("plane") filters used by the detail stages. Planes are
+ * row-major Float32Arrays of width * height values.
+ */
+
+export const luminancePlane = (buffer: PixelBuffer): Float32Array => {
+  const { data } = buffer;
+  const plane = new Float32Array(buffer.width * buffer.height);
+  for (let p = 0, i = 0; p < plane.length; p++, i += 4) {
+    plane[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return plane;
+};
+
+/** Mean over a (2r+1)² window, edges clamped. O(1) per pixel via running sums. */
+export const boxFilterPlane = (plane: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const r = Math.max(0, Math.round(radius));
+  if (r === 0) return plane.slice();
+  const tmp = new Float32Array(plane.length);
+  const out = new Float32Array(plane.length);
+  const size = 2 * r + 1;
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let sum = 0;
+    for (let k = -r; k <= r; k++) sum += plane[row + Math.min(width - 1, Math.max(0, k))];
+    for (let x = 0; x < width; x++) {
+      tmp[row + x] = sum / size;
+      sum += plane[row + Math.min(width - 1, x + r + 1)] - plane[row + Math.max(0, x - r)];
+    }
+  }
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let k = -r; k <= r; k++) sum += tmp[Math.min(height - 1, Math.max(0, k)) * width + x];
+    for (let y = 0; y < height; y++) {
+      out[y * width + x] = sum / size;
+      sum += tmp[Math.min(height - 1, y + r + 1) * width + x] - tmp[Math.max(0, y - r) * width + x];
+    }
+  }
+  return out;
+};
+
+// One direction of the van Herk / Gil-Werman running minimum: block-wise
+// prefix and suffix minima make every window a single comparison.
+const minPass = (
+  src: Float32Array,
+  dst: Float32Array,
+  lines: number,
+  length: number,
+  lineStride: number,
+  step: number,
+  radius: number
+) => {
+  const size = 2 * radius + 1;
+  const padded = length + 2 * radius;
+  const prefix = new Float32Array(padded);
+  const suffix = new Float32Array(padded);
+  const last = length - 1;
+  for (let line = 0; line < lines; line++) {
+    const base = line * lineStride;
+    const at = (k: number) => src[base + Math.min(last, Math.max(0, k - radius)) * step];
+    for (let k = 0; k < padded; k++) {
+      prefix[k] = k % size === 0 ? at(k) : Math.min(prefix[k - 1], at(k));
+    }
+    for (let k = padded - 1; k >= 0; k--) {
+      suffix[k] = k % size === size - 1 || k === padded - 1 ? at(k) : Math.min(suffix[k + 1], at(k));
+    }
+    for (let i = 0; i < length; i++) dst[base + i * step] = Math.min(suffix[i], prefix[i + size - 1]);
+  }
+};
+
+/** Minimum over a (2r+1)² window, edges clamped. O(1) per pixel. */
+export const minFilterPlane = (plane: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const r = Math.max(0, Math.round(radius));
+  if (r === 0) return plane.slice();
+  const tmp = new Float32Array(plane.length);
+  const out = new Float32Array(plane.length);
+  minPass(plane, tmp, height, width, width, 1, r);
+  minPass(tmp, out, width, height, 1, width, r);
+  return out;
+};
+
+// Exact separable kernel for small sigmas, where a box approximation is too coarse.
+const kernelBlurPlane = (plane: Float32Array, width: number, height: number, sigma: number): Float32Array => {
+  const r = Math.ceil(sigma * 3);
+  const kernel = new Float32Array(2 * r + 1);
+  let total = 0;
+  for (let k = -r; k <= r; k++) {
+    kernel[k + r] = Math.exp(-(k * k) / (2 * sigma * sigma));
+    total += kernel[k + r];
+  }
+  for (let k = 0; k < kernel.length; k++) kernel[k] /= total;
+
+  const tmp = new Float32Array(plane.length);
+  const out = new Float32Array(plane.length);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -r; k <= r; k++) sum += plane[row + Math.min(width - 1, Math.max(0, x + k))] * kernel[k + r];
+      tmp[row + x] = sum;
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -r; k <= r; k++) sum += tmp[Math.min(height - 1, Math.max(0, y + k)) * width + x] * kernel[k + r];
+      out[y * width + x] = sum;
+    }
+  }
+  return out;
+};
+
+/** Gaussian blur of a plane: exact kernel below sigma 3, three box passes above. */
+export const gaussianBlurPlane = (plane: Float32Array, width: number, height: number, sigma: number): Float32Array => {
+  if (sigma <= 0.1) return plane.slice();
+  if (sigma < 3) return kernelBlurPlane(plane, width, height, sigma);
+  return boxRadiiForGauss(sigma).reduce((out, r) => boxFilterPlane(out, width, height, r), plane);
+};
+
+/**
+ * Guided filter (He et al.): edge-preserving smoothing of `input` steered by
+ * `guide`. Larger `eps` smooths across weaker edges.
+ */
+export const guidedFilter = (
+  input: Float32Array,
+  guide: Float32Array,
+  width: number,
+  height: number,
+  radius: number,
+  eps: number
+): Float32Array => {
+  const n = input.length;
+  const ip = new Float32Array(n);
+  const ii = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    ip[i] = guide[i] * input[i];
+    ii[i] = guide[i] * guide[i];
+  }
+  const meanI = boxFilterPlane(guide, width, height, radius);
+  const meanP = boxFilterPlane(input, width, height, radius);
+  const meanIP = boxFilterPlane(ip, width, height, radius);
+  const meanII = boxFilterPlane(ii, width, height, radius);
+
+  const a = new Float32Array(n);
+  const b = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    const cov = meanIP[i] - meanI[i] * meanP[i];
+    const variance = meanII[i] - meanI[i] * meanI[i];
+    a[i] = cov / (variance + eps);
+    b[i] = meanP[i] - a[i] * meanI[i];
+  }
+  const meanA = boxFilterPlane(a, width, height, radius);
+  const meanB = boxFilterPlane(b, width, height, radius);
+
+  const out = new Float32Array(n);
+  for (let i = 0; i < n; i++) out[i] = meanA[i] * guide[i] + meanB[i];
+  return out;
+};
+
+/** Sobel gradient magnitude. */
+export const gradientMagnitude = (plane: Float32Array, width: number, height: number): Float32Array => {
+  const out = new Float32Array(plane.length);
+  const at = (x: number, y: number) =>
+    plane[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx =
+        at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) -
+        at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+      const gy =
+        at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) -
+        at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+      out[y * width + x] = Math.hypot(gx, gy) / 4;
+    }
+  }
+  return out;
+};
+
+/** Adds a per-pixel luminance delta equally to R, G and B. */
+export const addLuminanceDelta = (input: PixelBuffer, delta: Float32Array): PixelBuffer => {
+  const src = input.data;
+  const data = new Float32Array(src.length);
+  for (let p = 0, i = 0; p < delta.length; p++, i += 4) {
+    const d = delta[p];
+    data[i] = src[i] + d;
+    data[i + 1] = src[i + 1] + d;
+    data[i + 2] = src[i + 2] + d;
+    data[i + 3] = src[i + 3];
+  }
+  return { width: input.width, height: input.height, data };
+};
@@ -0,0 +1,277 @@
+import { CropRect, Geometry, PixelBuffer, PixelRect, QuarterTurn } from '../types';
+import { ASPECT_RATIOS, FULL_CROP } from '../constants';
+import { createBuffer } from './pixelBuffer';
+
+const DEG = Math.PI / 180;
+
+/** Size of the frame after the quarter-turn rotation. */
+export const orientedSize = (width: number, height: number, rotation: QuarterTurn) =>
+  rotation === 90 || rotation === 270 ? { width: height, height: width } : { width, height };
+
+export const isIdentityGeometry = (g: Geometry) =>
+  g.rotation === 0 && !g.flipHorizontal && g.straighten === 0 &&
+  g.crop.x === 0 && g.crop.y === 0 && g.crop.width === 1 && g.crop.height === 1;
+
+/** Pixel width / height ratio for an aspect lock, or null when unlocked. */
+export const aspectRatioValue = (g: Geometry, frameWidth: number, frameHeight: number) => {
+  if (g.aspect === 'original') return frameWidth / frameHeight;
+  return ASPECT_RATIOS.find(a => a.key === g.aspect)?.ratio ?? null;
+};
+
+// True when a frame point (pixels) still lands on the image after straightening.
+const insideRotated = (x: number, y: number, width: number, height: number, angle: number) => {
+  const cx = width / 2;
+  const cy = height / 2;
+  const cos = Math.cos(-angle * DEG);
+  const sin = Math.sin(-angle * DEG);
+  const dx = x - cx;
+  const dy = y - cy;
+  const rx = dx * cos - dy * sin + cx;
+  const ry = dx * sin + dy * cos + cy;
+  const eps = 1e-6;
+  return rx >= -eps && rx <= width + eps && ry >= -eps && ry <= height + eps;
+};
+
+const fitsRotated = (crop: CropRect, width: number, height: number, angle: number) => {
+  const x0 = crop.x * width;
+  const y0 = crop.y * height;
+  const x1 = (crop.x + crop.width) * width;
+  const y1 = (crop.y + crop.height) * height;
+  return (
+    insideRotated(x0, y0, width, height, angle) && insideRotated(x1, y0, width, height, angle) &&
+    insideRotated(x0, y1, width, height, angle) && insideRotated(x1, y1, width, height, angle)
+  );
+};
+
+const scaleAround = (crop: CropRect, cx: number, cy: number, s: number): CropRect => ({
+  x: cx - (crop.width * s) / 2,
+  y: cy - (crop.height * s) / 2,
+  width: crop.width * s,
+  height: crop.height * s
+});
+
+/**
+ * Keeps a crop inside the frame and, when straightened, inside the rotated
+ * image so no empty corners show. Oversized crops shrink around their center
+ * (or the frame center if theirs falls off the image), preserving aspect.
+ */
+export const constrainCrop = (crop: CropRect, width: number, height: number, angle: number): CropRect => {
+  const fit = Math.min(1, 1 / crop.width, 1 / crop.height);
+  let next: CropRect = {
+    width: crop.width * fit,
+    height: crop.height * fit,
+    x: crop.x,
+    y: crop.y
+  };
+  next.x = Math.max(0, Math.min(1 - next.width, next.x));
+  next.y = Math.max(0, Math.min(1 - next.height, next.y));
+  if (angle === 0 || fitsRotated(next, width, height, angle)) return next;
+
+  let cx = next.x + next.width / 2;
+  let cy = next.y + next.height / 2;
+  if (!insideRotated(cx * width, cy * height, width, height, angle)) {
+    cx = 0.5;
+    cy = 0.5;
+  }
+  let lo = 0;
+  let hi = 1;
+  for (let i = 0; i < 24; i++) {
+    const mid = (lo + hi) / 2;
+    if (fitsRotated(scaleAround(next, cx, cy, mid), width, height, angle)) lo = mid;
+    else hi = mid;
+  }
+  next = scaleAround(next, cx, cy, lo);
+  return next;
+};
+
+/** Largest crop with the given pixel ratio, centered in the frame and clear of rotated corners. */
+export const cropForAspect = (ratio: number | null, width: number, height: number, angle: number): CropRect => {
+  if (ratio === null) return constrainCrop(FULL_CROP, width, height, angle);
+  const w = Math.min(width, height * ratio);
+  const h = w / ratio;
+  const crop = { x: (1 - w / width) / 2, y: (1 - h / height) / 2, width: w / width, height: h / height };
+  return constrainCrop(crop, width, height, angle);
+};
+
+/** Rotates the view a quarter turn clockwise (or counter-clockwise with `direction` -1). */
+export const rotateGeometry = (g: Geometry, direction: 1 | -1): Geometry => {
+  const { x, y, width, height } = g.crop;
+  const crop = direction === 1
+    ? { x: 1 - y - height, y: x, width: height, height: width }
+    : { x: y, y: 1 - x - width, width: height, height: width };
+  // Rotating a mirrored view clockwise is a counter-clockwise turn of the source.
+  const turn = (g.flipHorizontal ? -direction : direction) * 90;
+  return { ...g, crop, rotation: (((g.rotation + turn) % 360) + 360) % 360 as QuarterTurn };
+};
+
+/** Mirrors the view; straighten flips sign so the horizon stays level. */
+export const flipGeometry = (g: Geometry, axis: 'horizontal' | 'vertical'): Geometry => {
+  const { x, y, width, height } = g.crop;
+  if (axis === 'horizontal') {
+    return { ...g, flipHorizontal: !g.flipHorizontal, straighten: -g.straighten, crop: { x: 1 - x - width, y, width, height } };
+  }
+  // A vertical flip is a horizontal flip plus a half turn.
+  return {
+    ...g,
+    flipHorizontal: !g.flipHorizontal,
+    rotation: ((g.rotation + 180) % 360) as QuarterTurn,
+    straighten: -g.straighten,
+    crop: { x, y: 1 - y - height, width, height }
+  };
+};
+
+export interface FrameMapper {
+  /** Output (cropped frame) size in pixels for the source size the mapper was built for. */
+  width: number;
+  height: number;
+  /** Frame pixel position -> source pixel position. */
+  toSource: (x: number, y: number) => [number, number];
+  /** Source pixel position -> frame pixel position. */
+  toFrame: (x: number, y: number) => [number, number];
+}
+
+/**
+ * Coordinate mapping between the framed output and the source it was cut
+ * from. Frame -> source undoes the crop, straighten, mirror and quarter turn
+ * in that order; source -> frame applies them.
+ */
+export const createFrameMapper = (g: Geometry, sourceWidth: number, sourceHeight: number): FrameMapper => {
+  const sw = sourceWidth;
+  const sh = sourceHeight;
+  const { width: fw, height: fh } = orientedSize(sw, sh, g.rotation);
+  const cos = Math.cos(g.straighten * DEG);
+  const sin = Math.sin(g.straighten * DEG);
+  const cx = fw / 2;
+  const cy = fh / 2;
+  const ox = g.crop.x * fw;
+  const oy = g.crop.y * fh;
+  const flip = g.flipHorizontal;
+  const rotation = g.rotation;
+
+  return {
+    width: Math.max(1, Math.round(g.crop.width * fw)),
+    height: Math.max(1, Math.round(g.crop.height * fh)),
+    toSource: (x, y) => {
+      const dx = ox + x - cx;
+      const dy = oy + y - cy;
+      let vx = dx * cos + dy * sin + cx;
+      const vy = -dx * sin + dy * cos + cy;
+      if (flip) vx = fw - vx;
+      switch (rotation) {
+        case 90: return [vy, sh - vx];
+        case 180: return [sw - vx, sh - vy];
+        case 270: return [sw - vy, vx];
+        default: return [vx, vy];
+      }
+    },
+    toFrame: (x, y) => {
+      let vx: number;
+      let vy: number;
+      switch (rotation) {
+        case 90: vx = sh - y; vy = x; break;
+        case 180: vx = sw - x; vy = sh - y; break;
+        case 270: vx = y; vy = sw - x; break;
+        default: vx = x; vy = y;
+      }
+      if (flip) vx = fw - vx;
+      const dx = vx - cx;
+      const dy = vy - cy;
+      return [dx * cos - dy * sin + cx - ox, dx * sin + dy * cos + cy - oy];
+    }
+  };
+};
+
+/** Shifts a mapper so frame pixel (0, 0) lands at (`x`, `y`) of the original frame. */
+export const offsetMapper = (mapper: FrameMapper, x: number, y: number): FrameMapper =>
+  x === 0 && y === 0 ? mapper : {
+    width: mapper.width,
+    height: mapper.height,
+    toSource: (fx, fy) => mapper.toSource(fx + x, fy + y),
+    toFrame: (sx, sy) => {
+      const [fx, fy] = mapper.toFrame(sx, sy);
+      return [fx - x, fy - y];
+    }
+  };
+
+// Bilinear resample of `width` x `height` output pixels; `toInput` maps output positions to input pixels.
+const resample = (
+  input: PixelBuffer,
+  width: number,
+  height: number,
+  toInput: (x: number, y: number) => [number, number]
+): PixelBuffer => {
+  const sw = input.width;
+  const sh = input.height;
+  const output = createBuffer(width, height);
+  const src = input.data;
+  const dst = output.data;
+
+  for (let py = 0; py < height; py++) {
+    for (let px = 0; px < width; px++) {
+      const [sx, sy] = toInput(px + 0.5, py + 0.5);
+      const o = (py * width + px) * 4;
+      const fx = sx - 0.5;
+      const fy = sy - 0.5;
+      if (fx < -0.5 || fy < -0.5 || fx > sw - 0.5 || fy > sh - 0.5) continue;
+
+      const x0 = Math.max(0, Math.min(sw - 1, Math.floor(fx)));
+      const y0 = Math.max(0, Math.min(sh - 1, Math.floor(fy)));
+      const x1 = Math.min(sw - 1, x0 + 1);
+      const y1 = Math.min(sh - 1, y0 + 1);
+      const tx = Math.max(0, Math.min(1, fx - x0));
+      const ty = Math.max(0, Math.min(1, fy - y0));
+      const i00 = (y0 * sw + x0) * 4;
+      const i10 = (y0 * sw + x1) * 4;
+      const i01 = (y1 * sw + x0) * 4;
+      const i11 = (y1 * sw + x1) * 4;
+      for (let c = 0; c < 4; c++) {
+        const top = src[i00 + c] + (src[i10 + c] - src[i00 + c]) * tx;
+        const bottom = src[i01 + c] + (src[i11 + c] - src[i01 + c]) * tx;
+        dst[o + c] = top + (bottom - top) * ty;
+      }
+    }
+  }
+
+  return output;
+};
+
+/**
+ * Resamples `input` through the geometry (bilinear). The output covers the
+ * crop of the oriented, straightened frame; areas outside the image are transparent.
+ */
+export const applyGeometry = (input: PixelBuffer, g: Geometry): PixelBuffer => {
+  if (isIdentityGeometry(g)) return input;
+  const mapper = createFrameMapper(g, input.width, input.height);
+  return resample(input, mapper.width, mapper.height, mapper.toSource);
+};
+
+/**
+ * Resamples one `region` of the frame (pixels of `mapper`'s frame) from
+ * `patch`, a piece of the source whose top-left corner is at `origin`.
+ * The patch must cover every source pixel the region maps to.
+ */
+export const applyGeometryRegion = (
+  patch: PixelBuffer,
+  origin: { x: number; y: number },
+  mapper: FrameMapper,
+  region: PixelRect
+): PixelBuffer =>
+  resample(patch, region.width, region.height, (x, y) => {
+    const [sx, sy] = mapper.toSource(region.x + x, region.y + y);
+    return [sx - origin.x, sy - origin.y];
+  });
+
+/** Bounding box, in source pixels, of the source area a frame rectangle maps to. */
+export const sourceBounds = (mapper: FrameMapper, rect: PixelRect): PixelRect => {
+  const corners = [
+    mapper.toSource(rect.x, rect.y),
+    mapper.toSource(rect.x + rect.width, rect.y),
+    mapper.toSource(rect.x, rect.y + rect.height),
+    mapper.toSource(rect.x + rect.width, rect.y + rect.height)
+  ];
+  const xs = corners.map(c => c[0]);
+  const ys = corners.map(c => c[1]);
+  const x = Math.floor(Math.min(...xs));
+  const y = Math.floor(Math.min(...ys));
+  return { x, y, width: Math.ceil(Math.max(...xs)) - x, height: Math.ceil(Math.max(...ys)) - y };
+};
@@ -0,0 +1,50 @@
+import { FileErrorDetail, Locale } from '../types';
+import { FileError } from './fileError';
+import { es, Messages } from './locales/es';
+import { en } from './locales/en';
+
+export type { Messages } from './locales/es';
+
+const STORAGE_KEY = 'redmi-studio.locale';
+
+export const DEFAULT_LOCALE: Locale = 'es';
+
+const CATALOGS: Record<Locale, Messages> = { es, en };
+
+/** Every supported locale with its name in its own language, for the switcher. */
+export const LOCALES: { key: Locale; name: string }[] = [
+  { key: 'es', name: 'Español' },
+  { key: 'en', name: 'English' }
+];
+
+const isLocale = (value: unknown): value is Locale => typeof value === 'string' && value in CATALOGS;
+
+export const messagesFor = (locale: Locale): Messages => CATALOGS[locale];
+
+/** First supported language among the browser's preferences ("en-GB" counts as "en"). */
+const browserLocale = (): Locale | undefined => {
+  const languages = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  return languages.map(tag => tag.toLowerCase().split('-')[0]).find(isLocale);
+};
+
+/** The locale picked in the switcher, else the browser's language, else Spanish. */
+export const loadLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Without storage the browser's language still applies
+  }
+  return browserLocale() ?? DEFAULT_LOCALE;
+};
+
+/** Localized reason a user file was rejected; errors other than `FileError` get a generic message. */
+export const fileErrorMessage = (t: Messages, error: unknown): string => {
+  if (!(error instanceof FileError)) return t.common.unreadableFile;
+  const describe = t.fileErrors[error.detail.code] as (detail: FileErrorDetail) => string;
+  return describe(error.detail);
+};
+
+export const saveLocale = (locale: Locale) => {
+  localStorage.setItem(STORAGE_KEY, locale);
+};
@@ -1,167 +1,176 @@
+import { AtmosphericLight, EditorSettings, FrameRegion, OutputOptions, PixelBuffer, PixelRect, RasterImage } from '../types';
+import { renderPipeline, RenderOptions } from './pipeline';
+import { cropBuffer, fromRaster, toRaster } from './pixelBuffer';
+import { applyGeometry, applyGeometryRegion, createFrameMapper, sourceBounds } from './geometry';
+import { finishForOutput } from './output';
+import { supportsDisplayP3, workingColorSpace } from './colorSpace';
+import { applySpots } from './retouch';
+
+/** Largest size with the same aspect ratio whose long edge is at most `maxEdge`. */
+export const fitWithin = (width: number, height: number, maxEdge: number) => {
+  const ratio = Math.min(1, maxEdge / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * ratio)),
+    height: Math.max(1, Math.round(height * ratio))
+  };
+};
 
-import { EditorSettings } from '../types';
-
-export const processImage = (
-  ctx: CanvasRenderingContext2D,
-  originalImage: HTMLImageElement,
-  settings: EditorSettings
-) => {
-  const w = ctx.canvas.width;
-  const h = ctx.canvas.height;
-
-  // Reset and draw base
-  ctx.drawImage(originalImage, 0, 0, w, h);
-
-  const imageData = ctx.getImageData(0, 0, w, h);
-  const data = imageData.data;
-  const len = data.length;
-
-  const exposureMult = Math.pow(2, settings.exposure / 100);
-  const contrastFactor = (259 * (settings.contrast + 255)) / (255 * (259 - settings.contrast));
-  
-  const rTemp = settings.temp > 0 ? settings.temp * 0.5 : 0;
-  const bTemp = settings.temp < 0 ? -settings.temp * 0.5 : 0;
-  const gTint = settings.tint > 0 ? settings.tint * 0.3 : 0;
-  const mTint = settings.tint < 0 ? -settings.tint * 0.3 : 0; 
-
-  const satMult = 1 + (settings.saturation / 100);
-  const vibMult = 1 + (settings.vibrance / 100);
-  
-  const shadowLift = settings.shadows / 100; 
-  const highlightDrop = settings.highlights / 100;
-  const whiteLift = settings.whites / 100;
-
-  for (let i = 0; i < len; i += 4) {
-    let r = data[i];
-    let g = data[i+1];
-    let b = data[i+2];
-
-    // 1. Exposure
-    if (settings.exposure !== 0) {
-      r *= exposureMult;
-      g *= exposureMult;
-      b *= exposureMult;
-    }
-
-    // 2. White Balance
-    if (settings.temp !== 0) {
-      r += rTemp;
-      b += bTemp;
-    }
-    if (settings.tint !== 0) {
-      g += gTint;
-      r += mTint;
-      b += mTint;
-    }
-
-    // 3. Tone Curve Logic
-    const lum = 0.299 * r + 0.587 * g + 0.114 * b;
+/**
+ * Decodes `source` (or only `area` of it, in source pixels) into a float
+ * buffer of the given size (high-quality resampling), in the working color space.
+ */
+export const readPixels = (source: CanvasImageSource, width: number, height: number, area?: PixelRect): PixelBuffer => {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true, colorSpace: workingColorSpace() });
+  if (!ctx) throw new Error('2D context unavailable');
+  ctx.imageSmoothingQuality = 'high';
+  if (area) ctx.drawImage(source, area.x, area.y, area.width, area.height, 0, 0, width, height);
+  else ctx.drawImage(source, 0, 0, width, height);
+  return fromRaster(ctx.getImageData(0, 0, width, height));
+};
 
-    if (settings.shadows !== 0) {
-      const mask = 1 - (lum / 255); 
-      const lift = mask * shadowLift * 80; 
-      r += lift; g += lift; b += lift;
-    }
+/** 8-bit result, tagged with the working color space its values are in. */
+const quantize = (buffer: PixelBuffer, dither = false): RasterImage => ({
+  ...toRaster(buffer, dither),
+  colorSpace: workingColorSpace()
+});
+
+const renderFramed = (source: PixelBuffer, settings: EditorSettings, options: RenderOptions): PixelBuffer => {
+  const { width, height } = source;
+  const retouched = applySpots(source, { x: 0, y: 0, width, height }, settings.spots, width, height, rect => cropBuffer(source, rect));
+  return renderPipeline(applyGeometry(retouched, settings.geometry), settings, {
+    ...options,
+    sourceWidth: width,
+    sourceHeight: height
+  });
+};
 
-    if (settings.highlights !== 0) {
-      const mask = lum / 255; 
-      const drop = mask * highlightDrop * 80;
-      r += drop; g += drop; b += drop;
-    }
-    
-    if (settings.whites !== 0) {
-      if (lum > 200) {
-        const lift = whiteLift * 50;
-        r += lift; g += lift; b += lift;
-      }
-    }
+/** Retouches and frames the source (crop/rotate/straighten) and runs the pixel pipeline on the result. */
+export const processImage = (
+  source: PixelBuffer,
+  settings: EditorSettings,
+  options: RenderOptions = {}
+): RasterImage => quantize(renderFramed(source, settings, options));
+
+/** Like processImage, followed by the export resize, output sharpening and optional dithering. */
+export const processForOutput = (
+  source: PixelBuffer,
+  settings: EditorSettings,
+  output: OutputOptions,
+  options: RenderOptions = {}
+): RasterImage => quantize(finishForOutput(renderFramed(source, settings, options), output), output.dither);
+
+// Extra frame pixels rendered around a region so blurs near its edges see real
+// neighbours; covers the widest kernels (clarity and dehaze, ~3% of the long edge).
+const regionPadding = (width: number, height: number) => Math.ceil(Math.max(width, height) * 0.03) + 16;
+
+const intersect = (a: PixelRect, b: PixelRect): PixelRect => {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(a.x + a.width, b.x + b.width) - x),
+    height: Math.max(1, Math.min(a.y + a.height, b.y + b.height) - y)
+  };
+};
 
-    if (settings.contrast !== 0) {
-      r = contrastFactor * (r - 128) + 128;
-      g = contrastFactor * (g - 128) + 128;
-      b = contrastFactor * (b - 128) + 128;
+/**
+ * Renders only `region` of the framed output, reading just the part of
+ * `source` it needs at `scale` (1 = full resolution). Returns the image and
+ * the region it actually covers after snapping to whole pixels. Dehaze needs
+ * the `atmosphere` of the whole frame, which the region alone can't provide.
+ */
+export const processRegion = (
+  source: ImageBitmap,
+  settings: EditorSettings,
+  region: FrameRegion,
+  scale: number,
+  atmosphere?: AtmosphericLight
+): { image: RasterImage; region: FrameRegion } => {
+  const sw = Math.max(1, Math.round(source.width * scale));
+  const sh = Math.max(1, Math.round(source.height * scale));
+  const mapper = createFrameMapper(settings.geometry, sw, sh);
+  const frame = { x: 0, y: 0, width: mapper.width, height: mapper.height };
+
+  const x0 = Math.floor(region.x * frame.width);
+  const y0 = Math.floor(region.y * frame.height);
+  const target = intersect({
+    x: x0,
+    y: y0,
+    width: Math.ceil((region.x + region.width) * frame.width) - x0,
+    height: Math.ceil((region.y + region.height) * frame.height) - y0
+  }, frame);
+  const pad = regionPadding(sw, sh);
+  const padded = intersect(
+    { x: target.x - pad, y: target.y - pad, width: target.width + pad * 2, height: target.height + pad * 2 },
+    frame
+  );
+
+  const bounds = sourceBounds(mapper, padded);
+  const patchRect = intersect({ x: bounds.x - 2, y: bounds.y - 2, width: bounds.width + 4, height: bounds.height + 4 }, { x: 0, y: 0, width: sw, height: sh });
+  // Spots may copy from anywhere in the photo, so their pixels are read separately.
+  const readArea = (rect: PixelRect) => readPixels(source, rect.width, rect.height, {
+    x: rect.x / scale,
+    y: rect.y / scale,
+    width: rect.width / scale,
+    height: rect.height / scale
+  });
+  const patch = applySpots(readArea(patchRect), patchRect, settings.spots, sw, sh, readArea);
+
+  const rendered = renderPipeline(applyGeometryRegion(patch, patchRect, mapper, padded), settings, {
+    scale,
+    sourceWidth: sw,
+    sourceHeight: sh,
+    frame: { ...frame, x: padded.x, y: padded.y },
+    atmosphere
+  });
+  return {
+    image: quantize(cropBuffer(rendered, { ...target, x: target.x - padded.x, y: target.y - padded.y })),
+    region: {
+      x: target.x / frame.width,
+      y: target.y / frame.height,
+      width: target.width / frame.width,
+      height: target.height / frame.height
     }
+  };
+};
 
-    r = Math.max(0, Math.min(255, r));
-    g = Math.max(0, Math.min(255, g));
-    b = Math.max(0, Math.min(255, b));
-
-    // 4. Color: Saturation & Vibrance
-    if (settings.saturation !== 0 || settings.vibrance !== 0) {
-      const gray = 0.2989 * r + 0.5870 * g + 0.1140 * b;
-      
-      if (settings.vibrance !== 0) {
-        const maxC = Math.max(r, Math.max(g, b));
-        const avgC = (r + g + b) / 3;
-        const amt = ((Math.abs(maxC - avgC) * 2) / 255) * 0.5; 
-        if(settings.vibrance > 0) {
-          r = r + (r - gray) * (vibMult - 1) * (1 - amt);
-          g = g + (g - gray) * (vibMult - 1) * (1 - amt);
-          b = b + (b - gray) * (vibMult - 1) * (1 - amt);
-        } else {
-          r = r + (r - gray) * (vibMult - 1);
-          g = g + (g - gray) * (vibMult - 1);
-          b = b + (b - gray) * (vibMult - 1);
-        }
-      }
-
-      if (settings.saturation !== 0) {
-        r = gray + (r - gray) * satMult;
-        g = gray + (g - gray) * satMult;
-        b = gray + (b - gray) * satMult;
-      }
-    }
+/** `image` as ImageData in the color space its values are in. */
+export const toImageData = (image: RasterImage) =>
+  new ImageData(image.data, image.width, image.height, { colorSpace: image.colorSpace ?? 'srgb' });
+
+/**
+ * Decodes a photo upright: the browser applies its EXIF Orientation, which
+ * is why exports always write Orientation 1.
+ */
+export const decodeImage = (file: Blob): Promise<ImageBitmap> =>
+  createImageBitmap(file, { imageOrientation: 'from-image' });
+
+/**
+ * Encodes `image` in `colorSpace` (sRGB where Display P3 is unsupported);
+ * the canvas converts from the image's own space.
+ */
+export const encodeImage = (
+  image: RasterImage,
+  mimeType: string,
+  quality: number,
+  colorSpace: PredefinedColorSpace = 'srgb'
+): Promise<Blob> => {
+  const canvas = new OffscreenCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d', { colorSpace: colorSpace === 'display-p3' && supportsDisplayP3() ? colorSpace : 'srgb' });
+  if (!ctx) throw new Error('2D context unavailable');
+  ctx.putImageData(toImageData(image), 0, 0);
+  return canvas.convertToBlob({ type: mimeType, quality });
+};
 
-    data[i] = r;
-    data[i+1] = g;
-    data[i+2] = b;
-  }
-
-  ctx.putImageData(imageData, 0, 0);
-
-  // Post-process Effects
-  if (settings.clarity !== 0) {
-    const amt = settings.clarity / 100; 
-    if (amt > 0) {
-      ctx.globalCompositeOperation = 'overlay';
-      ctx.fillStyle = `rgba(128,128,128,${amt * 0.4})`;
-      ctx.fillRect(0,0,w,h);
-      ctx.globalCompositeOperation = 'source-over';
-    } else {
-      ctx.filter = `blur(${Math.abs(amt)*2}px)`;
-      ctx.drawImage(ctx.canvas, 0, 0);
-      ctx.filter = 'none';
-      ctx.globalAlpha = 0.5 + (amt * 0.4); 
-      ctx.drawImage(originalImage, 0, 0, w, h);
-      ctx.globalAlpha = 1.0;
-    }
-  }
-
-  if (settings.sharpness > 0) {
-    const amount = settings.sharpness / 400; 
-    ctx.globalCompositeOperation = 'overlay'; 
-    ctx.globalAlpha = amount;
-    ctx.drawImage(ctx.canvas, 0, 0);
-    ctx.globalAlpha = 1.0;
-    ctx.globalCompositeOperation = 'source-over';
-  }
-
-  if (settings.vignette !== 0) {
-    const gradient = ctx.createRadialGradient(w/2, h/2, w/3, w/2, h/2, Math.max(w,h)/1.2);
-    const alpha = Math.abs(settings.vignette) / 100 * 0.8;
-    
-    if (settings.vignette < 0) {
-      gradient.addColorStop(0, `rgba(255,255,255,0)`);
-      gradient.addColorStop(1, `rgba(255,255,255,${alpha})`);
-      ctx.globalCompositeOperation = 'screen';
-    } else {
-      gradient.addColorStop(0, `rgba(0,0,0,0)`);
-      gradient.addColorStop(1, `rgba(0,0,0,${alpha})`);
-      ctx.globalCompositeOperation = 'multiply'; 
-    }
-    
-    ctx.fillStyle = gradient;
-    ctx.fillRect(0,0,w,h);
-    ctx.globalCompositeOperation = 'source-over';
-  }
+/** Small JPEG of the whole image, e.g. for the filmstrip. */
+export const encodeThumbnail = (source: ImageBitmap, maxEdge: number): Promise<Blob> => {
+  const { width, height } = fitWithin(source.width, source.height, maxEdge);
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('2D context unavailable');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, width, height);
+  return canvas.convertToBlob({ type: 'image/jpeg', quality: 0.8 });
 };
@@ -0,0 +1,405 @@
+import { Messages } from './es';
+
+const plural = (n: number, one: string, many: string) => (n === 1 ? one : many);
+
+/** English messages. */
+export const en: Messages = {
+  settings: {
+    dehaze: 'Dehaze',
+    exposure: 'Exposure',
+    contrast: 'Contrast',
+    shadows: 'Shadows',
+    highlights: 'Highlights',
+    whites: 'Whites',
+    temp: 'Temp',
+    tint: 'Tint',
+    saturation: 'Saturation',
+    vibrance: 'Vibrance',
+    noiseReduction: 'Luminance Noise',
+    noiseDetail: 'Luminance Detail',
+    colorNoiseReduction: 'Color Noise',
+    colorNoiseDetail: 'Color Detail',
+    sharpness: 'Sharpening',
+    sharpenRadius: 'Radius',
+    sharpenDetail: 'Detail',
+    sharpenMasking: 'Masking',
+    clarity: 'Clarity',
+    vignette: 'Vignette',
+    grainAmount: 'Grain',
+    grainSize: 'Grain Size',
+    grainRoughness: 'Roughness',
+    grainSeed: 'Grain Seed',
+    lut: '3D LUT',
+    lutIntensity: 'LUT Intensity',
+    lutInterpolation: 'LUT Interpolation',
+    curves: 'Curves',
+    hsl: 'HSL Mixer',
+    grading: 'Color Grading',
+    geometry: 'Crop & Rotate',
+    masks: 'Local Adjustments',
+    spots: 'Spot Removal'
+  },
+
+  presets: {
+    natgeo: 'Nat Geo',
+    sony: 'Sony Award',
+    cinematic: 'Cinematic',
+    clean: 'Clean Pro',
+    hdr: 'HDR+ Pro',
+    drone: 'Drone/Dehaze',
+    automotive: 'Automotive',
+    moon: 'Moon/Stars',
+    night: 'Night Mode',
+    selfie: 'Selfie/Portrait'
+  },
+
+  common: {
+    cancel: 'Cancel',
+    apply: 'Apply',
+    save: 'Save',
+    remove: 'Delete',
+    import: 'Import',
+    export: 'Export',
+    original: 'Original',
+    color: 'Color',
+    size: 'Size',
+    feather: 'Feather',
+    unreadableFile: 'Could not read the file'
+  },
+
+  app: {
+    language: 'Language',
+    controls: 'Editing controls',
+    openPhotos: 'Open Photos',
+    addPhotos: 'Add Photos',
+    waiting: 'Waiting for an image',
+    analyze: '⭐ Masterpiece AI',
+    analyzing: '✨ Processing...',
+    presets: 'Pro Presets',
+    light: 'Light',
+    toneCurve: 'Tone Curve',
+    color: 'Color',
+    optics: 'Optics',
+    grain: 'Film Grain',
+    newGrainSeed: seed => `🎲 New pattern · ${seed}`,
+    resetAll: 'Reset All',
+    exportResult: 'Export Result',
+    exporting: percent => `Exporting ${percent}% · Cancel`,
+    defaultPhotoName: 'photo',
+    batchArchive: time => `redmi_batch_${time}.zip`
+  },
+
+  history: {
+    title: 'History',
+    undo: 'Undo (Ctrl+Z)',
+    redo: 'Redo (Ctrl+Shift+Z)',
+    edited: 'Edited',
+    pasteSettings: 'Paste settings',
+    crop: 'Crop',
+    ai: strength => (strength === 100 ? 'Masterpiece AI' : `Masterpiece AI ${strength}%`),
+    snapshot: n => `Snapshot ${n}`,
+    snapshotName: 'Snapshot name',
+    saveSnapshot: '📌 Save',
+    compare: 'Compare',
+    restore: 'Restore',
+    viewing: name => `Viewing “${name}”`,
+    noDifferences: 'No differences'
+  },
+
+  toasts: {
+    unsupportedFormat: 'Unsupported image format',
+    projectStarted: 'Project started',
+    photosAdded: (added, failed) =>
+      `${added} ${plural(added, 'photo', 'photos')} added` + (failed > 0 ? ` · ${failed} unsupported` : ''),
+    projectRestored: 'Project restored',
+    projectOpenFailed: 'Could not open the project',
+    projectDeleteFailed: 'Could not delete the project',
+    exportDone: 'Export finished',
+    exportCancelled: 'Export cancelled',
+    exportFailed: 'Export failed',
+    batchExported: n => `${n} photos exported`,
+    factoryReset: 'Factory settings',
+    presetApplied: (name, photos) => (photos > 1 ? `${name} applied to ${photos} photos` : `${name} applied`),
+    settingsCopied: 'Settings copied',
+    settingsPasted: photos => `Settings pasted to ${photos} ${plural(photos, 'photo', 'photos')}`,
+    settingsSynced: photos => `Settings synced to ${photos} ${plural(photos, 'photo', 'photos')}`,
+    aiAnalyzing: 'AI Analyzing Scene...',
+    aiReady: 'AI look ready to review',
+    aiFailed: 'AI error: check your connection',
+    aiApplied: 'AI Look Applied',
+    renderFailed: 'Rendering error',
+    retouchFailed: 'Could not retouch that area'
+  },
+
+  ai: {
+    preview: 'AI Preview',
+    noChanges: 'The AI suggests no changes',
+    strength: 'Strength %',
+    discard: 'Discard',
+    providers: { mock: 'Local (offline)' },
+    prompt: {
+      task: 'Analyze the color of this photo and return a professional JSON with the settings that improve it.',
+      ranges: 'Integer values within these ranges:',
+      range: (key, min, max) => `${key}: ${min} to ${max}`
+    }
+  },
+
+  viewport: {
+    fit: 'Fit',
+    compareModes: {
+      off: 'Result only',
+      split: 'Before / After split',
+      side: 'Before / After side by side'
+    },
+    holdOriginal: 'Hold to see the original (\\ key)',
+    before: 'Before',
+    after: 'After'
+  },
+
+  filmstrip: {
+    select: 'Select',
+    remove: 'Remove',
+    edited: 'Edited',
+    add: 'Add photos'
+  },
+
+  histogram: {
+    shadowClipping: 'Shadow clipping',
+    highlightClipping: 'Highlight clipping',
+    shadows: '◀ Shadows',
+    highlights: 'Highlights ▶',
+    histogram: 'Histogram',
+    parade: 'RGB Parade'
+  },
+
+  metadata: {
+    title: 'Metadata',
+    empty: 'No EXIF metadata',
+    camera: 'Camera',
+    lens: 'Lens',
+    iso: 'ISO',
+    shutter: 'Shutter',
+    aperture: 'Aperture',
+    focalLength: 'Focal',
+    equivalent: mm => `${mm} mm equiv.`,
+    date: 'Date',
+    artist: 'Artist',
+    copyright: 'Copyright',
+    gps: 'GPS'
+  },
+
+  project: {
+    title: 'Project',
+    savedAt: time => `Saved ${time}`,
+    unsaved: 'Not saved',
+    exportEdit: 'Export edit',
+    importEdit: 'Import edit',
+    close: 'Close project',
+    imported: 'Edit imported',
+    importedFromOther: name => `Edit of ${name}: crop and masks may not line up`,
+    invalid: message => `Invalid edit: ${message}`
+  },
+
+  recentProjects: {
+    title: 'Recent projects',
+    photos: n => `${n} ${plural(n, 'photo', 'photos')}`,
+    remove: 'Delete project'
+  },
+
+  presetLibrary: {
+    title: 'My Presets',
+    importHint: '.json packs or Lightroom .xmp presets',
+    namePlaceholder: 'Preset name',
+    defaultName: n => `Preset ${n}`,
+    saved: name => `${name} saved`,
+    imported: n => `${n} ${plural(n, 'preset', 'presets')} imported`,
+    empty: 'Save the current look or import presets',
+    itemHint: 'Click to apply, double-click to rename',
+    rename: 'Rename',
+    report: 'Import',
+    error: 'Error:',
+    ignored: 'No equivalent:',
+    notStored: 'Presets could not be stored in this browser'
+  },
+
+  batch: {
+    title: 'Batch',
+    selectAll: 'Select all',
+    selectNone: 'None',
+    copy: 'Copy settings',
+    paste: 'Paste settings',
+    sync: photos => `🔁 Sync ${photos > 0 ? `${photos} ${plural(photos, 'photo', 'photos')}` : 'selection'}`,
+    exportZip: photos => `Export ${photos} ${plural(photos, 'photo', 'photos')} (.zip)`
+  },
+
+  geometry: {
+    crop: '✂ Crop',
+    applyCrop: '✓ Apply Crop',
+    aspects: { free: 'Free', original: 'Original' },
+    aspect: label => `Aspect ${label}`,
+    rotateLeft: 'Rotate left',
+    rotateRight: 'Rotate right',
+    rotatedLeft: 'Rotate 90° ↺',
+    rotatedRight: 'Rotate 90° ↻',
+    flipHorizontal: 'Flip horizontal',
+    flipVertical: 'Flip vertical',
+    straighten: 'Straighten',
+    reset: 'Reset',
+    resetCrop: 'Reset crop'
+  },
+
+  curves: {
+    reset: 'Reset'
+  },
+
+  hsl: {
+    modes: {
+      hue: 'Hue',
+      saturation: 'Saturation',
+      luminance: 'Luminance'
+    },
+    bands: {
+      red: 'Red',
+      orange: 'Orange',
+      yellow: 'Yellow',
+      green: 'Green',
+      aqua: 'Aqua',
+      blue: 'Blue',
+      purple: 'Purple',
+      magenta: 'Magenta'
+    }
+  },
+
+  grading: {
+    title: 'Grading',
+    ranges: {
+      shadows: 'Shadows',
+      midtones: 'Midtones',
+      highlights: 'Highlights'
+    },
+    hue: 'Hue',
+    saturation: 'Saturation',
+    luminance: 'Luminance',
+    balance: 'Balance',
+    blending: 'Blending'
+  },
+
+  lut: {
+    interpolations: {
+      trilinear: 'Trilinear',
+      tetrahedral: 'Tetrahedral'
+    },
+    none: 'No LUT',
+    load: 'Load .cube',
+    loaded: title => `LUT ${title} loaded`,
+    invalid: message => `Invalid LUT: ${message}`,
+    exportLook: 'Export look as .cube'
+  },
+
+  masks: {
+    kinds: {
+      linear: 'Gradient',
+      radial: 'Radial',
+      brush: 'Brush'
+    },
+    erasing: '⌫ Erasing',
+    painting: '🖌 Painting',
+    disable: 'Disable',
+    enable: 'Enable',
+    disabled: 'Disabled',
+    enabled: 'Enabled',
+    invert: 'Invert'
+  },
+
+  retouch: {
+    modes: {
+      heal: 'Heal',
+      clone: 'Clone'
+    },
+    start: '🩹 Remove Spots',
+    active: '✓ Paint over the blemishes',
+    mode: 'Mode',
+    opacity: 'Opacity',
+    source: 'Source'
+  },
+
+  exportDialog: {
+    title: count => (count > 1 ? `Export ${count} photos` : 'Export'),
+    format: 'Format',
+    quality: 'Quality',
+    resizeModes: {
+      original: 'Original',
+      longEdge: 'Long edge',
+      percent: 'Percent'
+    },
+    scale: 'Scale %',
+    activePhoto: '(active photo)',
+    sharpening: 'Output sharpening',
+    sharpeningModes: {
+      none: 'None',
+      screen: 'Screen',
+      print: 'Print'
+    },
+    dither: 'Dither',
+    ditherHint: 'Adds imperceptible grain when converting to 8 bits to avoid banding in gradients',
+    wideGamut: 'Display P3 keeps wide-gamut colors',
+    srgbOnly: 'This browser only exports sRGB',
+    metadata: 'Metadata',
+    metadataModes: {
+      all: 'All',
+      noGps: 'No GPS',
+      none: 'None'
+    },
+    artist: 'Artist',
+    copyright: 'Copyright',
+    creditsKept: 'Artist and copyright are added even when the rest is removed',
+    noMetadata: format => `${format} is exported without metadata`,
+    fileName: 'File name'
+  },
+
+  fileErrors: {
+    lutLine: ({ line }) => `Invalid .cube line: ${line}`,
+    lutSize: ({ size }) => `Unsupported LUT size: ${size}`,
+    lut1d: () => '1D LUTs are not supported',
+    lutMissingSize: () => 'Missing LUT_3D_SIZE',
+    lutEntries: ({ found, expected }) => `The LUT has ${found} entries, expected ${expected}`,
+    lutDomain: () => 'Invalid LUT domain',
+    editNotJson: () => 'The edit file is not valid JSON',
+    editNotEdit: () => 'Not an edit file',
+    editMissingVersion: () => 'Missing edit format version',
+    editNewerVersion: ({ version }) => `Edit format version ${version} is newer than this app supports`,
+    packNotJson: () => 'The preset pack is not valid JSON',
+    packVersion: () => 'Unsupported preset pack version',
+    packEmpty: () => 'The pack has no presets',
+    packNotPack: () => 'Not a preset pack',
+    xmpNotPreset: () => 'Not a Lightroom preset'
+  },
+
+  slider: {
+    value: label => `${label} value`,
+    reset: 'Double-click to reset'
+  },
+
+  shortcuts: {
+    title: 'Keyboard shortcuts',
+    close: 'Close',
+    actions: {
+      nextSlider: 'Next slider',
+      previousSlider: 'Previous slider',
+      toggleCompare: 'Toggle before / after',
+      holdOriginal: 'Hold to see the original',
+      applyPreset: 'Apply preset by number',
+      undo: 'Undo',
+      redo: 'Redo',
+      export: 'Export',
+      help: 'Show or hide this help'
+    },
+    sliders: 'Sliders',
+    step: 'Move the focused slider',
+    coarse: 'Step ×10',
+    fine: 'Step ÷10',
+    doubleClick: 'Double-click',
+    reset: 'Reset to the initial value',
+    type: 'Type the value (click the number, Enter applies, Esc discards)'
+  }
+};
@@ -0,0 +1,416 @@
+import {
+  AspectRatioKey, BuiltInPresetKey, CompareMode, EditorSettings, ExportResize, FileErrorDetail, GradingRange, HslAdjustment, HueBand, LocalMask,
+  LutInterpolation, MetadataMode, OutputSharpening, RetouchMode, ShortcutAction
+} from '../../types';
+
+const plural = (n: number, one: string, many: string) => (n === 1 ? one : many);
+
+type FileErrorMessages = { [K in FileErrorDetail['code']]: (detail: Extract<FileErrorDetail, { code: K }>) => string };
+
+/**
+ * Spanish messages. This catalog defines the shape every other locale has
+ * to match; texts that depend on a count or a name are functions.
+ */
+export const es = {
+  settings: {
+    dehaze: 'Neblina',
+    exposure: 'Exposición',
+    contrast: 'Contraste',
+    shadows: 'Sombras',
+    highlights: 'Altas Luces',
+    whites: 'Blancos',
+    temp: 'Temp',
+    tint: 'Matiz',
+    saturation: 'Saturación',
+    vibrance: 'Intensidad',
+    noiseReduction: 'Ruido Luminancia',
+    noiseDetail: 'Detalle Luminancia',
+    colorNoiseReduction: 'Ruido Color',
+    colorNoiseDetail: 'Detalle Color',
+    sharpness: 'Nitidez',
+    sharpenRadius: 'Radio',
+    sharpenDetail: 'Detalle',
+    sharpenMasking: 'Máscara',
+    clarity: 'Claridad',
+    vignette: 'Viñeta',
+    grainAmount: 'Grano',
+    grainSize: 'Tamaño Grano',
+    grainRoughness: 'Rugosidad',
+    grainSeed: 'Semilla Grano',
+    lut: 'LUT 3D',
+    lutIntensity: 'Intensidad LUT',
+    lutInterpolation: 'Interpolación LUT',
+    curves: 'Curvas',
+    hsl: 'Mezclador HSL',
+    grading: 'Gradación de Color',
+    geometry: 'Recorte y Rotación',
+    masks: 'Ajustes Locales',
+    spots: 'Corrector'
+  } satisfies Record<keyof EditorSettings, string>,
+
+  presets: {
+    natgeo: 'Nat Geo',
+    sony: 'Sony Award',
+    cinematic: 'Cinematic',
+    clean: 'Clean Pro',
+    hdr: 'HDR+ Pro',
+    drone: 'Drone/Dehaze',
+    automotive: 'Automotriz',
+    moon: 'Luna/Estrellas',
+    night: 'Modo Nocturno',
+    selfie: 'Selfie/Retrato'
+  } satisfies Record<BuiltInPresetKey, string>,
+
+  common: {
+    cancel: 'Cancelar',
+    apply: 'Aplicar',
+    save: 'Guardar',
+    remove: 'Eliminar',
+    import: 'Importar',
+    export: 'Exportar',
+    original: 'Original',
+    color: 'Color',
+    size: 'Tamaño',
+    feather: 'Difuminado',
+    unreadableFile: 'No se pudo leer el archivo'
+  },
+
+  app: {
+    language: 'Idioma',
+    controls: 'Controles de edición',
+    openPhotos: 'Abrir Fotos',
+    addPhotos: 'Añadir Fotos',
+    waiting: 'Esperando entrada de imagen',
+    analyze: '⭐ Masterpiece AI',
+    analyzing: '✨ Procesando...',
+    presets: 'Presets Pro',
+    light: 'Iluminación',
+    toneCurve: 'Curva de Tonos',
+    color: 'Colorimetría',
+    optics: 'Óptica',
+    grain: 'Grano de Película',
+    newGrainSeed: (seed: number) => `🎲 Nuevo patrón · ${seed}`,
+    resetAll: 'Reset Total',
+    exportResult: 'Exportar Resultado',
+    exporting: (percent: number) => `Exportando ${percent}% · Cancelar`,
+    defaultPhotoName: 'foto',
+    batchArchive: (time: number) => `redmi_lote_${time}.zip`
+  },
+
+  history: {
+    title: 'Historial',
+    undo: 'Deshacer (Ctrl+Z)',
+    redo: 'Rehacer (Ctrl+Shift+Z)',
+    edited: 'Editada',
+    pasteSettings: 'Pegar ajustes',
+    crop: 'Recorte',
+    ai: (strength: number) => (strength === 100 ? 'Masterpiece AI' : `Masterpiece AI ${strength}%`),
+    snapshot: (n: number) => `Snapshot ${n}`,
+    snapshotName: 'Nombre del snapshot',
+    saveSnapshot: '📌 Guardar',
+    compare: 'Comparar',
+    restore: 'Restaurar',
+    viewing: (name: string) => `Viendo “${name}”`,
+    noDifferences: 'Sin diferencias'
+  },
+
+  toasts: {
+    unsupportedFormat: 'Formato de imagen no soportado',
+    projectStarted: 'Proyecto iniciado',
+    photosAdded: (added: number, failed: number) =>
+      `${added} ${plural(added, 'foto añadida', 'fotos añadidas')}` +
+      (failed > 0 ? ` · ${failed} ${plural(failed, 'no soportada', 'no soportadas')}` : ''),
+    projectRestored: 'Proyecto restaurado',
+    projectOpenFailed: 'No se pudo abrir el proyecto',
+    projectDeleteFailed: 'No se pudo eliminar el proyecto',
+    exportDone: 'Exportación finalizada',
+    exportCancelled: 'Exportación cancelada',
+    exportFailed: 'Error al exportar',
+    batchExported: (n: number) => `${n} fotos exportadas`,
+    factoryReset: 'Ajustes de fábrica',
+    presetApplied: (name: string, photos: number) => (photos > 1 ? `${name} activo en ${photos} fotos` : `${name} activo`),
+    settingsCopied: 'Ajustes copiados',
+    settingsPasted: (photos: number) => `Ajustes pegados en ${photos} ${plural(photos, 'foto', 'fotos')}`,
+    settingsSynced: (photos: number) => `Ajustes sincronizados en ${photos} ${plural(photos, 'foto', 'fotos')}`,
+    aiAnalyzing: 'IA Analizando Escena...',
+    aiReady: 'Look IA listo para revisar',
+    aiFailed: 'Error IA: Verifica tu conexión',
+    aiApplied: 'Look IA Aplicado',
+    renderFailed: 'Error de renderizado',
+    retouchFailed: 'No se pudo retocar la zona'
+  },
+
+  ai: {
+    preview: 'Vista previa IA',
+    noChanges: 'La IA no propone cambios',
+    strength: 'Intensidad %',
+    discard: 'Descartar',
+    providers: { mock: 'Local (sin conexión)' } as Record<string, string>,
+    prompt: {
+      task: 'Analiza la colorimetría de esta foto y devuelve un JSON profesional con los ajustes que la mejoren.',
+      ranges: 'Valores enteros dentro de estos rangos:',
+      range: (key: string, min: number, max: number) => `${key}: ${min} a ${max}`
+    }
+  },
+
+  viewport: {
+    fit: 'Ajustar',
+    compareModes: {
+      off: 'Solo resultado',
+      split: 'Antes / Después dividido',
+      side: 'Antes / Después lado a lado'
+    } satisfies Record<CompareMode, string>,
+    holdOriginal: 'Mantener pulsado para ver el original (tecla \\)',
+    before: 'Antes',
+    after: 'Después'
+  },
+
+  filmstrip: {
+    select: 'Seleccionar',
+    remove: 'Quitar',
+    edited: 'Editada',
+    add: 'Añadir fotos'
+  },
+
+  histogram: {
+    shadowClipping: 'Recorte de sombras',
+    highlightClipping: 'Recorte de altas luces',
+    shadows: '◀ Sombras',
+    highlights: 'Luces ▶',
+    histogram: 'Histograma',
+    parade: 'Parade RGB'
+  },
+
+  metadata: {
+    title: 'Metadatos',
+    empty: 'Sin metadatos EXIF',
+    camera: 'Cámara',
+    lens: 'Objetivo',
+    iso: 'ISO',
+    shutter: 'Velocidad',
+    aperture: 'Apertura',
+    focalLength: 'Focal',
+    equivalent: (mm: number) => `${mm} mm eq.`,
+    date: 'Fecha',
+    artist: 'Autor',
+    copyright: 'Copyright',
+    gps: 'GPS'
+  },
+
+  project: {
+    title: 'Proyecto',
+    savedAt: (time: string) => `Guardado ${time}`,
+    unsaved: 'Sin guardar',
+    exportEdit: 'Exportar edición',
+    importEdit: 'Importar edición',
+    close: 'Cerrar proyecto',
+    imported: 'Edición importada',
+    importedFromOther: (name: string) => `Edición de ${name}: el recorte y las máscaras pueden no coincidir`,
+    invalid: (message: string) => `Edición no válida: ${message}`
+  },
+
+  recentProjects: {
+    title: 'Proyectos recientes',
+    photos: (n: number) => `${n} ${plural(n, 'foto', 'fotos')}`,
+    remove: 'Eliminar proyecto'
+  },
+
+  presetLibrary: {
+    title: 'Mis Presets',
+    importHint: 'Packs .json o presets .xmp de Lightroom',
+    namePlaceholder: 'Nombre del preset',
+    defaultName: (n: number) => `Preset ${n}`,
+    saved: (name: string) => `${name} guardado`,
+    imported: (n: number) => `${n} ${plural(n, 'preset importado', 'presets importados')}`,
+    empty: 'Guarda el ajuste actual o importa presets',
+    itemHint: 'Clic para aplicar, doble clic para renombrar',
+    rename: 'Renombrar',
+    report: 'Importación',
+    error: 'Error:',
+    ignored: 'Sin equivalente:',
+    notStored: 'No se pudieron guardar los presets en este navegador'
+  },
+
+  batch: {
+    title: 'Lote',
+    selectAll: 'Seleccionar todo',
+    selectNone: 'Ninguna',
+    copy: 'Copiar ajustes',
+    paste: 'Pegar ajustes',
+    sync: (photos: number) => `🔁 Sincronizar ${photos > 0 ? `${photos} ${plural(photos, 'foto', 'fotos')}` : 'selección'}`,
+    exportZip: (photos: number) => `Exportar ${photos} ${plural(photos, 'foto', 'fotos')} (.zip)`
+  },
+
+  geometry: {
+    crop: '✂ Recortar',
+    applyCrop: '✓ Aplicar Recorte',
+    aspects: { free: 'Libre', original: 'Original' } as Partial<Record<AspectRatioKey, string>>,
+    aspect: (label: string) => `Proporción ${label}`,
+    rotateLeft: 'Rotar a la izquierda',
+    rotateRight: 'Rotar a la derecha',
+    rotatedLeft: 'Rotar 90° ↺',
+    rotatedRight: 'Rotar 90° ↻',
+    flipHorizontal: 'Voltear horizontal',
+    flipVertical: 'Voltear vertical',
+    straighten: 'Enderezar',
+    reset: 'Restablecer',
+    resetCrop: 'Restablecer recorte'
+  },
+
+  curves: {
+    reset: 'Reset'
+  },
+
+  hsl: {
+    modes: {
+      hue: 'Tono',
+      saturation: 'Saturación',
+      luminance: 'Luminancia'
+    } satisfies Record<keyof HslAdjustment, string>,
+    bands: {
+      red: 'Rojo',
+      orange: 'Naranja',
+      yellow: 'Amarillo',
+      green: 'Verde',
+      aqua: 'Aguamarina',
+      blue: 'Azul',
+      purple: 'Púrpura',
+      magenta: 'Magenta'
+    } satisfies Record<HueBand, string>
+  },
+
+  grading: {
+    title: 'Gradación',
+    ranges: {
+      shadows: 'Sombras',
+      midtones: 'Medios',
+      highlights: 'Altas Luces'
+    } satisfies Record<GradingRange, string>,
+    hue: 'Tono',
+    saturation: 'Saturación',
+    luminance: 'Luminancia',
+    balance: 'Balance',
+    blending: 'Fusión'
+  },
+
+  lut: {
+    interpolations: {
+      trilinear: 'Trilineal',
+      tetrahedral: 'Tetraédrica'
+    } satisfies Record<LutInterpolation, string>,
+    none: 'Sin LUT',
+    load: 'Cargar .cube',
+    loaded: (title: string) => `LUT ${title} cargado`,
+    invalid: (message: string) => `LUT no válido: ${message}`,
+    exportLook: 'Exportar look como .cube'
+  },
+
+  masks: {
+    kinds: {
+      linear: 'Degradado',
+      radial: 'Radial',
+      brush: 'Pincel'
+    } satisfies Record<LocalMask['kind'], string>,
+    erasing: '⌫ Borrando',
+    painting: '🖌 Pintando',
+    disable: 'Desactivar',
+    enable: 'Activar',
+    disabled: 'Desactivada',
+    enabled: 'Activada',
+    invert: 'Invertir'
+  },
+
+  retouch: {
+    modes: {
+      heal: 'Corregir',
+      clone: 'Clonar'
+    } satisfies Record<RetouchMode, string>,
+    start: '🩹 Eliminar Manchas',
+    active: '✓ Pinta sobre las imperfecciones',
+    mode: 'Modo',
+    opacity: 'Opacidad',
+    source: 'Origen'
+  },
+
+  exportDialog: {
+    title: (count: number) => (count > 1 ? `Exportar ${count} fotos` : 'Exportar'),
+    format: 'Formato',
+    quality: 'Calidad',
+    resizeModes: {
+      original: 'Original',
+      longEdge: 'Lado largo',
+      percent: 'Porcentaje'
+    } satisfies Record<ExportResize['mode'], string>,
+    scale: 'Escala %',
+    activePhoto: '(foto activa)',
+    sharpening: 'Enfoque de salida',
+    sharpeningModes: {
+      none: 'Ninguno',
+      screen: 'Pantalla',
+      print: 'Impresión'
+    } satisfies Record<OutputSharpening, string>,
+    dither: 'Tramado',
+    ditherHint: 'Añade un grano imperceptible al pasar a 8 bits para evitar bandas en los degradados',
+    wideGamut: 'Display P3 conserva los colores de gama amplia',
+    srgbOnly: 'Este navegador solo exporta en sRGB',
+    metadata: 'Metadatos',
+    metadataModes: {
+      all: 'Todos',
+      noGps: 'Sin GPS',
+      none: 'Ninguno'
+    } satisfies Record<MetadataMode, string>,
+    artist: 'Autor',
+    copyright: 'Copyright',
+    creditsKept: 'Autor y copyright se añaden aunque se quiten los demás',
+    noMetadata: (format: string) => `${format} se exporta sin metadatos`,
+    fileName: 'Nombre de archivo'
+  },
+
+  fileErrors: {
+    lutLine: ({ line }) => `Línea .cube no válida: ${line}`,
+    lutSize: ({ size }) => `Tamaño de LUT no admitido: ${size}`,
+    lut1d: () => 'Las LUT 1D no son compatibles',
+    lutMissingSize: () => 'Falta LUT_3D_SIZE',
+    lutEntries: ({ found, expected }) => `La LUT tiene ${found} entradas y se esperaban ${expected}`,
+    lutDomain: () => 'Dominio de LUT no válido',
+    editNotJson: () => 'El archivo de edición no es JSON válido',
+    editNotEdit: () => 'No es un archivo de edición',
+    editMissingVersion: () => 'Falta la versión del formato de edición',
+    editNewerVersion: ({ version }) => `La versión ${version} del formato de edición es más nueva que esta aplicación`,
+    packNotJson: () => 'El pack de presets no es JSON válido',
+    packVersion: () => 'Versión de pack de presets no admitida',
+    packEmpty: () => 'El pack no contiene presets',
+    packNotPack: () => 'No es un pack de presets',
+    xmpNotPreset: () => 'No es un preset de Lightroom'
+  } satisfies FileErrorMessages,
+
+  slider: {
+    value: (label: string) => `Valor de ${label}`,
+    reset: 'Doble clic para restablecer'
+  },
+
+  shortcuts: {
+    title: 'Atajos de teclado',
+    close: 'Cerrar',
+    actions: {
+      nextSlider: 'Siguiente deslizador',
+      previousSlider: 'Deslizador anterior',
+      toggleCompare: 'Alternar antes / después',
+      holdOriginal: 'Mantener para ver el original',
+      applyPreset: 'Aplicar preset por número',
+      undo: 'Deshacer',
+      redo: 'Rehacer',
+      export: 'Exportar',
+      help: 'Mostrar u ocultar esta ayuda'
+    } satisfies Record<ShortcutAction, string>,
+    sliders: 'Deslizadores',
+    step: 'Mover el deslizador enfocado',
+    coarse: 'Paso ×10',
+    fine: 'Paso ÷10',
+    doubleClick: 'Doble clic',
+    reset: 'Restablecer el valor inicial',
+    type: 'Escribir el valor (clic en la cifra, Intro aplica, Esc descarta)'
+  }
+};
+
+export type Messages = typeof es;
@@ -0,0 +1,140 @@
+import { Lut3D, LutInterpolation } from '../types';
+import { FileError } from './fileError';
+
+const MIN_SIZE = 2;
+const MAX_SIZE = 256;
+
+const parseTriple = (parts: string[], line: string): [number, number, number] => {
+  const values = parts.slice(0, 3).map(Number);
+  if (values.length !== 3 || values.some(v => !Number.isFinite(v))) throw new FileError({ code: 'lutLine', line }, `Invalid .cube line: ${line}`);
+  return values as [number, number, number];
+};
+
+/**
+ * Reads an Adobe / Resolve .cube 3D LUT. Comments and unknown keywords are
+ * skipped; 1D LUTs and tables of the wrong length are rejected.
+ */
+export const parseCubeLut = (text: string, fallbackTitle: string): Lut3D => {
+  let title = fallbackTitle;
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  const values: number[] = [];
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const [keyword, ...rest] = line.split(/\s+/);
+
+    if (/^[+\-.\d]/.test(keyword)) {
+      values.push(...parseTriple([keyword, ...rest], line));
+    } else if (keyword === 'TITLE') {
+      title = line.slice(5).trim().replace(/^"(.*)"$/, '$1') || fallbackTitle;
+    } else if (keyword === 'LUT_3D_SIZE') {
+      size = Number(rest[0]);
+      if (!Number.isInteger(size) || size < MIN_SIZE || size > MAX_SIZE) {
+        throw new FileError({ code: 'lutSize', size: rest[0] ?? '' }, `Unsupported LUT size: ${rest[0]}`);
+      }
+    } else if (keyword === 'LUT_1D_SIZE') {
+      throw new FileError({ code: 'lut1d' }, '1D LUTs are not supported');
+    } else if (keyword === 'DOMAIN_MIN') {
+      domainMin = parseTriple(rest, line);
+    } else if (keyword === 'DOMAIN_MAX') {
+      domainMax = parseTriple(rest, line);
+    } else if (keyword === 'LUT_3D_INPUT_RANGE') {
+      const [min, max] = rest.map(Number);
+      domainMin = [min, min, min];
+      domainMax = [max, max, max];
+    }
+  }
+
+  if (size === 0) throw new FileError({ code: 'lutMissingSize' }, 'Missing LUT_3D_SIZE');
+  const expected = size * size * size * 3;
+  if (values.length !== expected) {
+    const found = values.length / 3;
+    throw new FileError({ code: 'lutEntries', found, expected: expected / 3 }, `LUT has ${found} entries, expected ${expected / 3}`);
+  }
+  if (domainMin.some((min, c) => !(domainMax[c] > min))) throw new FileError({ code: 'lutDomain' }, 'Invalid LUT domain');
+
+  return { title, size, domainMin, domainMax, table: Float32Array.from(values) };
+};
+
+/** Writes a LUT in .cube format with a 0–1 domain. */
+export const serializeCubeLut = (lut: Lut3D): string => {
+  const lines = [
+    `TITLE "${lut.title.replace(/"/g, "'")}"`,
+    '# Created with Redmi Pro Studio',
+    `LUT_3D_SIZE ${lut.size}`,
+    `DOMAIN_MIN ${lut.domainMin.join(' ')}`,
+    `DOMAIN_MAX ${lut.domainMax.join(' ')}`
+  ];
+  const { table } = lut;
+  for (let i = 0; i < table.length; i += 3) {
+    lines.push(`${table[i].toFixed(6)} ${table[i + 1].toFixed(6)} ${table[i + 2].toFixed(6)}`);
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+/**
+ * Returns a function that looks up one color (0–1 per channel, in the LUT's
+ * domain) and writes the result into `out`.
+ */
+export const createLutSampler = (lut: Lut3D, interpolation: LutInterpolation) => {
+  const { size, table, domainMin, domainMax } = lut;
+  const last = size - 1;
+  const strideG = size * 3;
+  const strideB = size * size * 3;
+  const scale = domainMax.map((max, c) => last / (max - domainMin[c]));
+
+  return (r: number, g: number, b: number, out: Float32Array) => {
+    const x = Math.min(last, Math.max(0, (r - domainMin[0]) * scale[0]));
+    const y = Math.min(last, Math.max(0, (g - domainMin[1]) * scale[1]));
+    const z = Math.min(last, Math.max(0, (b - domainMin[2]) * scale[2]));
+    const x0 = Math.min(last - 1, Math.floor(x));
+    const y0 = Math.min(last - 1, Math.floor(y));
+    const z0 = Math.min(last - 1, Math.floor(z));
+    const fr = x - x0;
+    const fg = y - y0;
+    const fb = z - z0;
+
+    const c000 = x0 * 3 + y0 * strideG + z0 * strideB;
+    const c100 = c000 + 3;
+    const c010 = c000 + strideG;
+    const c110 = c010 + 3;
+    const c001 = c000 + strideB;
+    const c101 = c001 + 3;
+    const c011 = c001 + strideG;
+    const c111 = c011 + 3;
+
+    for (let c = 0; c < 3; c++) {
+      const v000 = table[c000 + c];
+      const v111 = table[c111 + c];
+      if (interpolation === 'trilinear') {
+        const v00 = v000 + (table[c100 + c] - v000) * fr;
+        const v10 = table[c010 + c] + (table[c110 + c] - table[c010 + c]) * fr;
+        const v01 = table[c001 + c] + (table[c101 + c] - table[c001 + c]) * fr;
+        const v11 = table[c011 + c] + (v111 - table[c011 + c]) * fr;
+        const v0 = v00 + (v10 - v00) * fg;
+        const v1 = v01 + (v11 - v01) * fg;
+        out[c] = v0 + (v1 - v0) * fb;
+        continue;
+      }
+      // Tetrahedral: walk from the near to the far corner along the ordered fractions.
+      if (fr > fg) {
+        if (fg > fb) {
+          out[c] = v000 + fr * (table[c100 + c] - v000) + fg * (table[c110 + c] - table[c100 + c]) + fb * (v111 - table[c110 + c]);
+        } else if (fr > fb) {
+          out[c] = v000 + fr * (table[c100 + c] - v000) + fb * (table[c101 + c] - table[c100 + c]) + fg * (v111 - table[c101 + c]);
+        } else {
+          out[c] = v000 + fb * (table[c001 + c] - v000) + fr * (table[c101 + c] - table[c001 + c]) + fg * (v111 - table[c101 + c]);
+        }
+      } else if (fb > fg) {
+        out[c] = v000 + fb * (table[c001 + c] - v000) + fg * (table[c011 + c] - table[c001 + c]) + fr * (v111 - table[c011 + c]);
+      } else if (fb > fr) {
+        out[c] = v000 + fg * (table[c010 + c] - v000) + fb * (table[c011 + c] - table[c010 + c]) + fr * (v111 - table[c011 + c]);
+      } else {
+        out[c] = v000 + fg * (table[c010 + c] - v000) + fr * (table[c110 + c] - table[c010 + c]) + fb * (v111 - table[c110 + c]);
+      }
+    }
+  };
+};
@@ -0,0 +1,133 @@
+import { BrushMask, LinearMask, LocalMask, RadialMask } from '../types';
+import { FrameMapper } from './geometry';
+
+const smoothstep = (t: number) => (t <= 0 ? 0 : t >= 1 ? 1 : t * t * (3 - 2 * t));
+
+const renderLinear = (mask: LinearMask, weights: Float32Array, width: number, height: number, mapper: FrameMapper, sw: number, sh: number) => {
+  const sx0 = mask.start.x * sw;
+  const sy0 = mask.start.y * sh;
+  const dx = mask.end.x * sw - sx0;
+  const dy = mask.end.y * sh - sy0;
+  const lengthSq = dx * dx + dy * dy || 1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [px, py] = mapper.toSource(x + 0.5, y + 0.5);
+      const t = ((px - sx0) * dx + (py - sy0) * dy) / lengthSq;
+      weights[y * width + x] = 1 - smoothstep(t);
+    }
+  }
+};
+
+const renderRadial = (mask: RadialMask, weights: Float32Array, width: number, height: number, mapper: FrameMapper, sw: number, sh: number) => {
+  const cx = mask.center.x * sw;
+  const cy = mask.center.y * sh;
+  const rx = Math.max(1e-6, mask.radiusX * sw);
+  const ry = Math.max(1e-6, mask.radiusY * sh);
+  const inner = 1 - Math.max(0.01, mask.feather);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [px, py] = mapper.toSource(x + 0.5, y + 0.5);
+      const d = Math.hypot((px - cx) / rx, (py - cy) / ry);
+      weights[y * width + x] = 1 - smoothstep((d - inner) / (1 - inner));
+    }
+  }
+};
+
+// Dabs are stamped in frame space; the geometry has no scaling, so source pixels = frame pixels.
+const renderBrush = (mask: BrushMask, weights: Float32Array, width: number, height: number, mapper: FrameMapper, sw: number, sh: number) => {
+  for (const stroke of mask.strokes) {
+    const radius = Math.max(0.5, stroke.size * sw);
+    const hard = radius * (1 - Math.max(0.01, stroke.feather));
+    const spacing = Math.max(0.5, radius * 0.25);
+    const dabs: [number, number][] = [];
+    let prev: [number, number] | null = null;
+    for (const point of stroke.points) {
+      const next = mapper.toFrame(point.x * sw, point.y * sh);
+      if (prev) {
+        const steps = Math.ceil(Math.hypot(next[0] - prev[0], next[1] - prev[1]) / spacing);
+        for (let i = 1; i <= steps; i++) {
+          dabs.push([prev[0] + ((next[0] - prev[0]) * i) / steps, prev[1] + ((next[1] - prev[1]) * i) / steps]);
+        }
+      } else {
+        dabs.push(next);
+      }
+      prev = next;
+    }
+
+    for (const [cx, cy] of dabs) {
+      const x0 = Math.max(0, Math.floor(cx - radius));
+      const x1 = Math.min(width - 1, Math.ceil(cx + radius));
+      const y0 = Math.max(0, Math.floor(cy - radius));
+      const y1 = Math.min(height - 1, Math.ceil(cy + radius));
+      for (let y = y0; y <= y1; y++) {
+        for (let x = x0; x <= x1; x++) {
+          const d = Math.hypot(x + 0.5 - cx, y + 0.5 - cy);
+          if (d >= radius) continue;
+          const w = d <= hard ? 1 : 1 - smoothstep((d - hard) / (radius - hard));
+          const i = y * width + x;
+          weights[i] = stroke.erase ? Math.min(weights[i], 1 - w) : Math.max(weights[i], w);
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Per-pixel mask weights (0-1) for a frame of `width` x `height`, where
+ * `mapper` maps frame pixels back to a source of `sourceWidth` x `sourceHeight`.
+ */
+export const renderMaskWeights = (
+  mask: LocalMask,
+  width: number,
+  height: number,
+  mapper: FrameMapper,
+  sourceWidth: number,
+  sourceHeight: number
+): Float32Array => {
+  const weights = new Float32Array(width * height);
+  switch (mask.kind) {
+    case 'linear': renderLinear(mask, weights, width, height, mapper, sourceWidth, sourceHeight); break;
+    case 'radial': renderRadial(mask, weights, width, height, mapper, sourceWidth, sourceHeight); break;
+    case 'brush': renderBrush(mask, weights, width, height, mapper, sourceWidth, sourceHeight); break;
+  }
+  if (mask.inverted) {
+    for (let i = 0; i < weights.length; i++) weights[i] = 1 - weights[i];
+  }
+  return weights;
+};
+
+export const hasAdjustments = (mask: LocalMask) =>
+  Object.values(mask.adjustments).some(v => v !== undefined && v !== 0);
+
+/** Display name of a mask: its own, or else its kind's label numbered among masks of that kind. */
+export const maskName = (mask: LocalMask, masks: LocalMask[], kindLabels: Record<LocalMask['kind'], string>) =>
+  mask.name || `${kindLabels[mask.kind]} ${masks.filter(m => m.kind === mask.kind).findIndex(m => m.id === mask.id) + 1}`;
+
+/**
+ * New mask with sensible placement: a top-down sky gradient, a centered circle
+ * or an empty brush. It is named `kindLabel` numbered among masks of its kind.
+ */
+export const createMask = (
+  kind: LocalMask['kind'],
+  existing: LocalMask[],
+  imageWidth: number,
+  imageHeight: number,
+  kindLabel: string
+): LocalMask => {
+  const id = existing.reduce((max, m) => Math.max(max, m.id), 0) + 1;
+  const base = {
+    id,
+    name: `${kindLabel} ${existing.filter(m => m.kind === kind).length + 1}`,
+    enabled: true,
+    inverted: false,
+    adjustments: {}
+  };
+  switch (kind) {
+    case 'linear':
+      return { ...base, kind, start: { x: 0.5, y: 0.15 }, end: { x: 0.5, y: 0.5 } };
+    case 'radial':
+      return { ...base, kind, center: { x: 0.5, y: 0.5 }, radiusX: 0.25, radiusY: (0.25 * imageWidth) / imageHeight, feather: 0.5 };
+    case 'brush':
+      return { ...base, kind, strokes: [] };
+  }
+};
@@ -0,0 +1,103 @@
+import { AtmosphericLight, EditorSettings, Lut3D, PipelineStage, PixelBuffer, PixelRect, RenderContext } from '../types';
+import { createBuffer } from './pixelBuffer';
+import { dehazeStage } from './stages/dehaze';
+import { toneStage } from './stages/tone';
+import { curvesStage } from './stages/curves';
+import { colorStage } from './stages/color';
+import { hslStage } from './stages/hsl';
+import { gradingStage } from './stages/grading';
+import { lutStage } from './stages/lut';
+import { noiseReductionStage } from './stages/noise';
+import { clarityStage } from './stages/clarity';
+import { sharpenStage } from './stages/sharpen';
+import { localStage } from './stages/local';
+import { vignetteStage } from './stages/vignette';
+import { grainStage } from './stages/grain';
+
+/** Per-pixel color stages at the head of the pipeline, which together can be baked into a 3D LUT. */
+const COLOR_STAGES: PipelineStage[] = [toneStage, curvesStage, colorStage, hslStage, gradingStage, lutStage];
+
+/**
+ * Ordered, canvas-free processing stages. Every stage receives a float buffer
+ * and returns a new one, so the whole pipeline runs anywhere typed arrays do.
+ */
+export const PIPELINE: PipelineStage[] = [
+  dehazeStage,
+  ...COLOR_STAGES,
+  noiseReductionStage,
+  clarityStage,
+  sharpenStage,
+  localStage,
+  vignetteStage,
+  grainStage
+];
+
+export interface RenderOptions {
+  scale?: number;
+  /** Size of the unframed source; defaults to the size of the buffer passed in. */
+  sourceWidth?: number;
+  sourceHeight?: number;
+  /** Offset in and size of the full frame (see RenderContext); defaults to the buffer itself. */
+  frame?: PixelRect;
+  /** Atmospheric light of the whole frame (see RenderContext). */
+  atmosphere?: AtmosphericLight;
+  /** Called after each stage with the completed fraction (0-1). */
+  onProgress?: (fraction: number) => void;
+}
+
+export const renderPipeline = (
+  source: PixelBuffer,
+  settings: EditorSettings,
+  options: RenderOptions = {}
+): PixelBuffer => {
+  const context: RenderContext = {
+    source,
+    scale: options.scale ?? 1,
+    sourceWidth: options.sourceWidth ?? source.width,
+    sourceHeight: options.sourceHeight ?? source.height,
+    frame: options.frame ?? { x: 0, y: 0, width: source.width, height: source.height },
+    atmosphere: options.atmosphere
+  };
+  return PIPELINE.reduce((buffer, stage, index) => {
+    const output = stage.isActive(settings) ? stage.apply(buffer, settings, context) : buffer;
+    options.onProgress?.((index + 1) / PIPELINE.length);
+    return output;
+  }, source);
+};
+
+/**
+ * Bakes the color stages of `settings` (tone, white balance, curves, color,
+ * HSL, color grading and any loaded LUT) into a `size`³ LUT by rendering an identity lattice.
+ */
+export const bakeColorLut = (settings: EditorSettings, title: string, size = 33): Lut3D => {
+  const lattice = createBuffer(size * size, size);
+  const step = 255 / (size - 1);
+  for (let b = 0, i = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++, i += 4) {
+        lattice.data[i] = r * step;
+        lattice.data[i + 1] = g * step;
+        lattice.data[i + 2] = b * step;
+        lattice.data[i + 3] = 255;
+      }
+    }
+  }
+  const context: RenderContext = {
+    source: lattice,
+    scale: 1,
+    sourceWidth: lattice.width,
+    sourceHeight: lattice.height,
+    frame: { x: 0, y: 0, width: lattice.width, height: lattice.height }
+  };
+  const graded = COLOR_STAGES.reduce(
+    (buffer, stage) => (stage.isActive(settings) ? stage.apply(buffer, settings, context) : buffer),
+    lattice
+  );
+  const table = new Float32Array(size * size * size * 3);
+  for (let i = 0, j = 0; j < table.length; i += 4, j += 3) {
+    table[j] = graded.data[i] / 255;
+    table[j + 1] = graded.data[i + 1] / 255;
+    table[j + 2] = graded.data[i + 2] / 255;
+  }
+  return { title, size, domainMin: [0, 0, 0], domainMax: [1, 1, 1], table };
+};
@@ -0,0 +1,210 @@
+import { PixelBuffer, PixelRect, RasterImage } from '../types';
+
+export const createBuffer = (width: number, height: number): PixelBuffer => ({
+  width,
+  height,
+  data: new Float32Array(width * height * 4)
+});
+
+export const cloneBuffer = (buffer: PixelBuffer): PixelBuffer => ({
+  width: buffer.width,
+  height: buffer.height,
+  data: buffer.data.slice()
+});
+
+export const cropBuffer = (buffer: PixelBuffer, rect: PixelRect): PixelBuffer => {
+  const output = createBuffer(rect.width, rect.height);
+  for (let y = 0; y < rect.height; y++) {
+    const start = ((rect.y + y) * buffer.width + rect.x) * 4;
+    output.data.set(buffer.data.subarray(start, start + rect.width * 4), y * rect.width * 4);
+  }
+  return output;
+};
+
+export const fromRaster = (image: RasterImage): PixelBuffer => ({
+  width: image.width,
+  height: image.height,
+  data: Float32Array.from(image.data)
+});
+
+/** Integer hash (lowbias32): repeatable noise, e.g. the same dither or grain on every render. */
+export const hash32 = (n: number) => {
+  n ^= n >>> 16;
+  n = Math.imul(n, 0x7feb352d);
+  n ^= n >>> 15;
+  n = Math.imul(n, 0x846ca68b);
+  n ^= n >>> 16;
+  return n >>> 0;
+};
+
+/**
+ * Quantizes to 8 bits; this is the only place values are clamped. With
+ * `dither`, triangular noise of up to ±1 level is added to the color
+ * channels first, trading banding in smooth gradients for invisible grain.
+ */
+export const toRaster = (buffer: PixelBuffer, dither = false): RasterImage => {
+  const data = new Uint8ClampedArray(buffer.data.length);
+  if (!dither) {
+    // Typed array `set` converts with Uint8Clamped semantics (clamp + round).
+    data.set(buffer.data);
+  } else {
+    const src = buffer.data;
+    for (let i = 0; i < src.length; i++) {
+      if ((i & 3) === 3) {
+        data[i] = src[i];
+        continue;
+      }
+      // Sum of two uniform values from the hash's halves: triangular on (-1, 1).
+      const h = hash32(i);
+      data[i] = src[i] + ((h & 0xffff) + (h >>> 16)) / 65536 - 1;
+    }
+  }
+  return { width: buffer.width, height: buffer.height, data };
+};
+
+export const clamp = (value: number, min = 0, max = 255) =>
+  value < min ? min : value > max ? max : value;
+
+export const luminance = (r: number, g: number, b: number) =>
+  0.299 * r + 0.587 * g + 0.114 * b;
+
+/**
+ * W3C "overlay" blend on normalized channels (base = destination,
+ * blend = source), the same math the canvas compositor uses.
+ */
+export const overlay = (base: number, blend: number) =>
+  base <= 0.5 ? 2 * blend * base : 1 - 2 * (1 - blend) * (1 - base);
+
+const boxBlurPass = (
+  src: Float32Array,
+  dst: Float32Array,
+  lines: number,
+  length: number,
+  lineStride: number,
+  step: number,
+  radius: number
+) => {
+  const size = radius * 2 + 1;
+  const last = length - 1;
+  for (let line = 0; line < lines; line++) {
+    const base = line * lineStride;
+    for (let c = 0; c < 3; c++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        sum += src[base + Math.min(last, Math.max(0, k)) * step + c];
+      }
+      for (let i = 0; i < length; i++) {
+        dst[base + i * step + c] = sum / size;
+        const next = Math.min(last, i + radius + 1);
+        const prev = Math.max(0, i - radius);
+        sum += src[base + next * step + c] - src[base + prev * step + c];
+      }
+    }
+    for (let i = 0; i < length; i++) {
+      dst[base + i * step + 3] = src[base + i * step + 3];
+    }
+  }
+};
+
+// Box widths whose three successive passes approximate a gaussian of `sigma`.
+export const boxRadiiForGauss = (sigma: number): number[] => {
+  const ideal = Math.sqrt((12 * sigma * sigma) / 3 + 1);
+  let lower = Math.floor(ideal);
+  if (lower % 2 === 0) lower--;
+  const upper = lower + 2;
+  const m = Math.round((12 * sigma * sigma - 3 * lower * lower - 12 * lower - 9) / (-4 * lower - 4));
+  return [0, 1, 2].map(i => ((i < m ? lower : upper) - 1) / 2);
+};
+
+/** Separable three-pass box approximation of a gaussian blur (edges clamped). */
+export const gaussianBlur = (input: PixelBuffer, sigma: number): PixelBuffer => {
+  if (sigma < 0.5) return cloneBuffer(input);
+  const { width, height } = input;
+  const src = input.data.slice();
+  const tmp = new Float32Array(src.length);
+  for (const radius of boxRadiiForGauss(sigma)) {
+    if (radius <= 0) continue;
+    boxBlurPass(src, tmp, height, width, width * 4, 4, radius);
+    boxBlurPass(tmp, src, width, height, 4, width * 4, radius);
+  }
+  return { width, height, data: src };
+};
+
+const LANCZOS_LOBES = 3;
+
+const lanczos = (x: number) => {
+  if (x === 0) return 1;
+  if (x <= -LANCZOS_LOBES || x >= LANCZOS_LOBES) return 0;
+  const px = Math.PI * x;
+  return (LANCZOS_LOBES * Math.sin(px) * Math.sin(px / LANCZOS_LOBES)) / (px * px);
+};
+
+// Normalized Lanczos taps for every output position along one axis. When
+// shrinking, the kernel is stretched by the ratio so it also low-passes.
+const resampleTaps = (srcSize: number, dstSize: number) => {
+  const ratio = dstSize / srcSize;
+  const stretch = Math.min(1, ratio);
+  const support = LANCZOS_LOBES / stretch;
+  const span = Math.ceil(support) * 2 + 1;
+  const first = new Int32Array(dstSize);
+  const weights = new Float32Array(dstSize * span);
+  for (let i = 0; i < dstSize; i++) {
+    const center = (i + 0.5) / ratio - 0.5;
+    const start = Math.ceil(center - support);
+    first[i] = start;
+    let sum = 0;
+    for (let k = 0; k < span; k++) {
+      const w = lanczos((start + k - center) * stretch);
+      weights[i * span + k] = w;
+      sum += w;
+    }
+    for (let k = 0; k < span; k++) weights[i * span + k] /= sum;
+  }
+  return { first, weights, span };
+};
+
+const resamplePass = (
+  src: Float32Array,
+  dst: Float32Array,
+  lines: number,
+  srcLength: number,
+  dstLength: number,
+  srcLineStride: number,
+  dstLineStride: number,
+  srcStep: number,
+  dstStep: number
+) => {
+  const { first, weights, span } = resampleTaps(srcLength, dstLength);
+  const last = srcLength - 1;
+  for (let line = 0; line < lines; line++) {
+    const srcBase = line * srcLineStride;
+    const dstBase = line * dstLineStride;
+    for (let i = 0; i < dstLength; i++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < span; k++) {
+        const w = weights[i * span + k];
+        if (w === 0) continue;
+        const p = srcBase + Math.min(last, Math.max(0, first[i] + k)) * srcStep;
+        r += src[p] * w;
+        g += src[p + 1] * w;
+        b += src[p + 2] * w;
+        a += src[p + 3] * w;
+      }
+      const q = dstBase + i * dstStep;
+      dst[q] = clamp(r);
+      dst[q + 1] = clamp(g);
+      dst[q + 2] = clamp(b);
+      dst[q + 3] = clamp(a);
+    }
+  }
+};
+
+/** Separable Lanczos-3 resampling (antialiased when shrinking). */
+export const resizeBuffer = (input: PixelBuffer, width: number, height: number): PixelBuffer => {
+  if (width === input.width && height === input.height) return cloneBuffer(input);
+  const rows = new Float32Array(width * input.height * 4);
+  resamplePass(input.data, rows, input.height, input.width, width, input.width * 4, width * 4, 4, 4);
+  const output = createBuffer(width, height);
+  resamplePass(rows, output.data, width, input.height, height, 4, 4, width * 4, width * 4);
+  return output;
+};
@@ -0,0 +1,160 @@
+import { ColorGrading, CurveChannel, CurvePoint, EditorSettings, HslMixer, NumericSettingKey, PresetConfig, UserPreset } from '../types';
+import { colorGrading, GRADING_RANGES, HUE_BANDS, hslMixer, IDENTITY_CURVES, INITIAL_SETTINGS, SETTING_RANGES } from '../constants';
+import { FileError } from './fileError';
+import { clamp } from './pixelBuffer';
+
+const STORAGE_KEY = 'redmi-studio.presets';
+const PACK_FORMAT = 'redmi-studio-presets';
+const PACK_VERSION = 1;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/** Clamps a value to the range of a numeric setting. */
+export const clampSetting = (key: NumericSettingKey, value: number) =>
+  clamp(value, SETTING_RANGES[key].min, SETTING_RANGES[key].max);
+
+const sanitizeCurve = (raw: unknown): CurvePoint[] | null => {
+  if (!Array.isArray(raw) || raw.length < 2) return null;
+  const points = raw
+    .filter((p): p is { x: number; y: number } => isRecord(p) && isFiniteNumber(p.x) && isFiniteNumber(p.y))
+    .map(p => ({ x: clamp(p.x), y: clamp(p.y) }))
+    .sort((a, b) => a.x - b.x);
+  return points.length >= 2 ? points : null;
+};
+
+const sanitizeHsl = (raw: Record<string, unknown>): HslMixer =>
+  hslMixer(Object.fromEntries(HUE_BANDS.flatMap(({ key }) => {
+    const band = raw[key];
+    if (!isRecord(band)) return [];
+    const adjustment = Object.fromEntries(
+      (['hue', 'saturation', 'luminance'] as const)
+        .filter(field => isFiniteNumber(band[field]))
+        .map(field => [field, clamp(band[field] as number, -100, 100)])
+    );
+    return [[key, adjustment]];
+  })));
+
+const sanitizeGrading = (raw: Record<string, unknown>): ColorGrading =>
+  colorGrading({
+    ...Object.fromEntries(GRADING_RANGES.flatMap(key => {
+      const wheel = raw[key];
+      if (!isRecord(wheel)) return [];
+      return [[key, {
+        ...(isFiniteNumber(wheel.hue) && { hue: ((wheel.hue % 360) + 360) % 360 }),
+        ...(isFiniteNumber(wheel.saturation) && { saturation: clamp(wheel.saturation, 0, 100) }),
+        ...(isFiniteNumber(wheel.luminance) && { luminance: clamp(wheel.luminance, -100, 100) })
+      }]];
+    })),
+    ...(isFiniteNumber(raw.balance) && { balance: clamp(raw.balance, -100, 100) }),
+    ...(isFiniteNumber(raw.blending) && { blending: clamp(raw.blending, 0, 100) })
+  });
+
+/**
+ * Keeps only the settings a preset can carry, with valid shapes and ranges.
+ * Geometry, masks and retouched spots are tied to one photo and, like LUT
+ * tables, are always dropped.
+ */
+export const sanitizePresetSettings = (raw: unknown): Partial<EditorSettings> => {
+  if (!isRecord(raw)) return {};
+  const settings: Partial<EditorSettings> = {};
+  for (const key of Object.keys(SETTING_RANGES) as NumericSettingKey[]) {
+    if (isFiniteNumber(raw[key])) settings[key] = clampSetting(key, raw[key] as number);
+  }
+  if (isRecord(raw.curves)) {
+    const curves: Partial<Record<CurveChannel, CurvePoint[]>> = {};
+    for (const channel of ['master', 'red', 'green', 'blue'] as CurveChannel[]) {
+      const curve = sanitizeCurve(raw.curves[channel]);
+      if (curve) curves[channel] = curve;
+    }
+    if (Object.keys(curves).length > 0) settings.curves = { ...IDENTITY_CURVES, ...curves };
+  }
+  if (isRecord(raw.hsl)) settings.hsl = sanitizeHsl(raw.hsl);
+  if (isRecord(raw.grading)) settings.grading = sanitizeGrading(raw.grading);
+  if (raw.lutInterpolation === 'trilinear' || raw.lutInterpolation === 'tetrahedral') {
+    settings.lutInterpolation = raw.lutInterpolation;
+  }
+  return settings;
+};
+
+/** Everything in an edit that can be carried over to another photo. */
+export const lookOf = (settings: EditorSettings): Partial<EditorSettings> => {
+  const { geometry, masks, spots, ...look } = settings;
+  return look;
+};
+
+/**
+ * `target` with its look replaced by `look`. Crop, masks and spots stay with the
+ * photo, and so does its LUT unless `look` brings one.
+ */
+export const withLook = (target: EditorSettings, look: Partial<EditorSettings>): EditorSettings => ({
+  ...INITIAL_SETTINGS,
+  lut: target.lut,
+  ...look,
+  geometry: target.geometry,
+  masks: target.masks,
+  spots: target.spots
+});
+
+/** The parts of the current edit a preset stores (a loaded LUT stays with the photo). */
+export const presetSettingsFrom = (settings: EditorSettings): Partial<EditorSettings> => {
+  const { lut, ...look } = lookOf(settings);
+  return look;
+};
+
+const isHexColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+const sanitizePreset = (raw: unknown): PresetConfig | null => {
+  if (!isRecord(raw) || typeof raw.name !== 'string' || !raw.name.trim()) return null;
+  return {
+    name: raw.name.trim().slice(0, 60),
+    color: isHexColor(raw.color) ? raw.color : '#ea580c',
+    settings: sanitizePresetSettings(raw.settings)
+  };
+};
+
+export const loadUserPresets = (): UserPreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap((raw: unknown) => {
+      const preset = sanitizePreset(raw);
+      if (!preset || !isRecord(raw) || !isFiniteNumber(raw.id)) return [];
+      return [{ ...preset, id: raw.id, createdAt: isFiniteNumber(raw.createdAt) ? raw.createdAt : 0 }];
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const saveUserPresets = (presets: UserPreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+/** JSON pack for sharing presets between installs. */
+export const serializePresetPack = (presets: PresetConfig[]): string =>
+  JSON.stringify({
+    format: PACK_FORMAT,
+    version: PACK_VERSION,
+    presets: presets.map(({ name, color, settings }) => ({ name, color, settings }))
+  }, null, 2);
+
+/** Reads a preset pack (or a single exported preset); invalid entries are skipped. */
+export const parsePresetPack = (text: string): PresetConfig[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new FileError({ code: 'packNotJson' }, 'Preset pack is not valid JSON');
+  }
+  if (isRecord(data) && data.format === PACK_FORMAT) {
+    if (!isFiniteNumber(data.version) || data.version > PACK_VERSION) throw new FileError({ code: 'packVersion' }, 'Unsupported preset pack version');
+    if (!Array.isArray(data.presets)) throw new FileError({ code: 'packEmpty' }, 'Preset pack has no presets');
+    return data.presets.flatMap(raw => sanitizePreset(raw) ?? []);
+  }
+  const single = sanitizePreset(data);
+  if (!single) throw new FileError({ code: 'packNotPack' }, 'Not a preset pack');
+  return [single];
+};
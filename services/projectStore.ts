@@ -0,0 +1,126 @@
+import { PhotoMetadata } from '../types';
+
+const DB_NAME = 'redmi-studio';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const FILES = 'files';
+
+/** Undo stack and snapshots of the photo that was being edited. */
+export interface StoredHistory {
+  entries: { source: string; label: string; settings: unknown }[];
+  index: number;
+  snapshots: { name: string; settings: unknown; createdAt: number }[];
+}
+
+export interface StoredPhoto {
+  /** Key of the photo's original file in the files store. */
+  fileKey: string;
+  name: string;
+  width: number;
+  height: number;
+  metadata: PhotoMetadata | null;
+  settings: unknown;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  photoCount: number;
+  /** Small JPEG of the photo that was being edited. */
+  thumbnail: Blob | null;
+}
+
+/**
+ * A saved session. Settings are stored as written (structured clone keeps
+ * LUT tables as typed arrays) and go through `readSettings` with `version`
+ * when the project is opened.
+ */
+export interface StoredProject extends ProjectSummary {
+  version: number;
+  activeIndex: number;
+  photos: StoredPhoto[];
+  history: StoredHistory | null;
+}
+
+/** Original files are kept apart so saving an edit never rewrites them. */
+export interface StoredFile {
+  key: string;
+  projectId: string;
+  file: Blob;
+  thumbnail: Blob;
+}
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const done = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    const open = indexedDB.open(DB_NAME, DB_VERSION);
+    open.onupgradeneeded = () => {
+      const db = open.result;
+      if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(FILES)) {
+        db.createObjectStore(FILES, { keyPath: 'key' }).createIndex('projectId', 'projectId');
+      }
+    };
+    dbPromise = request(open).catch(error => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+/** Saved projects, most recently edited first. */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const projects = await request<StoredProject[]>(db.transaction(PROJECTS).objectStore(PROJECTS).getAll());
+  return projects
+    .map(({ id, name, updatedAt, photoCount, thumbnail }) => ({ id, name, updatedAt, photoCount, thumbnail }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<{ project: StoredProject; files: Map<string, StoredFile> }> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, FILES]);
+  const [project, files] = await Promise.all([
+    request<StoredProject | undefined>(tx.objectStore(PROJECTS).get(id)),
+    request<StoredFile[]>(tx.objectStore(FILES).index('projectId').getAll(id))
+  ]);
+  if (!project) throw new Error('Project not found');
+  return { project, files: new Map(files.map(file => [file.key, file])) };
+};
+
+/** Stores the project and any new files, and drops files it no longer uses. */
+export const saveProject = async (project: StoredProject, newFiles: StoredFile[], removedKeys: string[]) => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, FILES], 'readwrite');
+  const files = tx.objectStore(FILES);
+  newFiles.forEach(file => files.put(file));
+  removedKeys.forEach(key => files.delete(key));
+  tx.objectStore(PROJECTS).put(project);
+  await done(tx);
+};
+
+export const deleteProject = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, FILES], 'readwrite');
+  const files = tx.objectStore(FILES);
+  const keys = await request(files.index('projectId').getAllKeys(id));
+  keys.forEach(key => files.delete(key));
+  tx.objectStore(PROJECTS).delete(id);
+  await done(tx);
+};
@@ -0,0 +1,197 @@
+import { AnalysisOptions, EditorSettings, MaskPoint, OutputOptions, PhotoMetadata, PreviewResult, RetouchSpot } from '../types';
+import { decodeImage } from './imageProcessor';
+import { RegionRequest, RenderRequest, RenderResponse } from './renderProtocol';
+
+export interface ExportOptions {
+  mimeType: string;
+  quality: number;
+  /** Resize, output sharpening, dithering and color space; defaults to full size, unsharpened, dithered sRGB. */
+  output?: OutputOptions;
+  /** EXIF to embed (JPEG and PNG only); none by default. */
+  metadata?: PhotoMetadata | null;
+  onProgress?: (fraction: number) => void;
+}
+
+export interface PreviewOptions {
+  /**
+   * Previews are queued per channel, so e.g. a zoomed region never
+   * supersedes the proxy render that feeds the histogram. Defaults to 'proxy'.
+   */
+  channel?: string;
+  /** Renders this part of the frame from the full-resolution photo. */
+  region?: RegionRequest;
+}
+
+export interface Renderer {
+  /** Hands a decoded photo to the preview worker, which keeps a proxy of at most `maxEdge` px. */
+  load: (bitmap: ImageBitmap, maxEdge: number) => void;
+  /**
+   * Renders the proxy (or a region). Per channel, only the latest request is
+   * kept while a render is in flight; superseded requests resolve to `null`.
+   */
+  preview: (settings: EditorSettings, analysis: AnalysisOptions, options?: PreviewOptions) => Promise<PreviewResult | null>;
+  /** Picks a source for a new retouched spot on the loaded photo; resolves to the spot's `offset`. */
+  findSpotSource: (spot: Pick<RetouchSpot, 'points' | 'size'>) => Promise<MaskPoint>;
+  /** Renders `file` at full resolution in a separate worker. */
+  exportImage: (file: Blob, settings: EditorSettings, options: ExportOptions) => Promise<Blob>;
+  cancelExport: () => void;
+  dispose: () => void;
+}
+
+export class RenderCancelledError extends Error {
+  constructor() {
+    super('Render cancelled');
+    this.name = 'RenderCancelledError';
+  }
+}
+
+interface PendingPreview {
+  resolve: (result: PreviewResult | null) => void;
+  reject: (error: Error) => void;
+}
+
+interface PreviewChannel {
+  inFlight: (PendingPreview & { id: number }) | null;
+  queued: (PendingPreview & { settings: EditorSettings; analysis: AnalysisOptions; region?: RegionRequest }) | null;
+}
+
+const FULL_SIZE_OUTPUT: OutputOptions = {
+  resize: { mode: 'original', longEdge: 0, percent: 100 },
+  sharpening: 'none',
+  dither: true,
+  colorSpace: 'srgb'
+};
+
+const spawnWorker = () =>
+  new Worker(new URL('./renderWorker.ts', import.meta.url), { type: 'module' });
+
+export const createRenderer = (): Renderer => {
+  const worker = spawnWorker();
+  let nextId = 1;
+
+  const channels = new Map<string, PreviewChannel>();
+  const sourceSearches = new Map<number, { resolve: (offset: MaskPoint) => void; reject: (error: Error) => void }>();
+
+  // Id of the export in progress; cancelling or starting another one changes it.
+  let exportId = 0;
+  let exportWorker: Worker | null = null;
+  let rejectExport: ((error: Error) => void) | null = null;
+
+  const send = (target: Worker, request: RenderRequest, transfer: Transferable[] = []) => {
+    target.postMessage(request, transfer);
+  };
+
+  const pump = (channel: PreviewChannel) => {
+    if (channel.inFlight || !channel.queued) return;
+    const { settings, analysis, region, resolve, reject } = channel.queued;
+    channel.queued = null;
+    const id = nextId++;
+    channel.inFlight = { id, resolve, reject };
+    send(worker, { type: 'preview', id, settings, analysis, region });
+  };
+
+  worker.addEventListener('message', (event: MessageEvent<RenderResponse>) => {
+    const response = event.data;
+    const search = sourceSearches.get(response.id);
+    if (search) {
+      sourceSearches.delete(response.id);
+      if (response.type === 'source') search.resolve(response.offset);
+      else if (response.type === 'error') search.reject(new Error(response.message));
+      return;
+    }
+    const channel = [...channels.values()].find(c => c.inFlight?.id === response.id);
+    if (!channel) return;
+    const { resolve, reject } = channel.inFlight!;
+    channel.inFlight = null;
+    if (response.type === 'preview') {
+      // A newer request is already waiting: drop this frame instead of drawing it.
+      resolve(channel.queued ? null : response.result);
+    } else if (response.type === 'error') {
+      reject(new Error(response.message));
+    }
+    pump(channel);
+  });
+
+  const cancelExport = () => {
+    exportId = 0;
+    exportWorker?.terminate();
+    exportWorker = null;
+    rejectExport?.(new RenderCancelledError());
+    rejectExport = null;
+  };
+
+  return {
+    load: (bitmap, maxEdge) => {
+      send(worker, { type: 'load', bitmap, maxEdge }, [bitmap]);
+    },
+
+    preview: (settings, analysis, { channel: key = 'proxy', region } = {}) =>
+      new Promise((resolve, reject) => {
+        let channel = channels.get(key);
+        if (!channel) {
+          channel = { inFlight: null, queued: null };
+          channels.set(key, channel);
+        }
+        channel.queued?.resolve(null);
+        channel.queued = { settings, analysis, region, resolve, reject };
+        pump(channel);
+      }),
+
+    findSpotSource: spot =>
+      new Promise((resolve, reject) => {
+        const id = nextId++;
+        sourceSearches.set(id, { resolve, reject });
+        send(worker, { type: 'findSource', id, spot });
+      }),
+
+    exportImage: async (file, settings, { mimeType, quality, output = FULL_SIZE_OUTPUT, metadata = null, onProgress }) => {
+      cancelExport();
+      const id = nextId++;
+      exportId = id;
+      const bitmap = await decodeImage(file);
+      // Cancelled, or replaced by a newer export, while the photo was decoding
+      if (exportId !== id) {
+        bitmap.close();
+        throw new RenderCancelledError();
+      }
+      const current = spawnWorker();
+      exportWorker = current;
+
+      try {
+        return await new Promise<Blob>((resolve, reject) => {
+          rejectExport = reject;
+          current.addEventListener('message', (event: MessageEvent<RenderResponse>) => {
+            const response = event.data;
+            if (response.id !== id) return;
+            if (response.type === 'progress') onProgress?.(response.value);
+            else if (response.type === 'exported') resolve(response.blob);
+            else if (response.type === 'error') reject(new Error(response.message));
+          });
+          current.addEventListener('error', () => reject(new Error('Export worker crashed')));
+          send(current, { type: 'export', id, bitmap, settings, mimeType, quality, output, metadata }, [bitmap]);
+        });
+      } finally {
+        if (exportWorker === current) {
+          current.terminate();
+          exportId = 0;
+          exportWorker = null;
+          rejectExport = null;
+        }
+      }
+    },
+
+    cancelExport,
+
+    dispose: () => {
+      cancelExport();
+      worker.terminate();
+      for (const channel of channels.values()) {
+        channel.queued?.resolve(null);
+        channel.inFlight?.resolve(null);
+      }
+      channels.clear();
+      for (const search of sourceSearches.values()) search.reject(new RenderCancelledError());
+      sourceSearches.clear();
+    }
+  };
+};
@@ -0,0 +1,33 @@
+import { AnalysisOptions, EditorSettings, FrameRegion, MaskPoint, OutputOptions, PhotoMetadata, PreviewResult, RetouchSpot } from '../types';
+
+/** Part of the frame to render from the full-resolution photo instead of the proxy. */
+export interface RegionRequest {
+  area: FrameRegion;
+  /** Render resolution relative to the full-size photo. */
+  scale: number;
+}
+
+/** Messages understood by services/renderWorker.ts. */
+export type RenderRequest =
+  | { type: 'load'; bitmap: ImageBitmap; maxEdge: number }
+  | { type: 'preview'; id: number; settings: EditorSettings; analysis: AnalysisOptions; region?: RegionRequest }
+  | { type: 'findSource'; id: number; spot: Pick<RetouchSpot, 'points' | 'size'> }
+  | {
+      type: 'export';
+      id: number;
+      bitmap: ImageBitmap;
+      settings: EditorSettings;
+      mimeType: string;
+      quality: number;
+      output: OutputOptions;
+      /** Written into JPEG and PNG output; null writes none. */
+      metadata: PhotoMetadata | null;
+    };
+
+/** Messages posted back by the worker. */
+export type RenderResponse =
+  | { type: 'preview'; id: number; result: PreviewResult }
+  | { type: 'source'; id: number; offset: MaskPoint }
+  | { type: 'progress'; id: number; value: number }
+  | { type: 'exported'; id: number; blob: Blob }
+  | { type: 'error'; id: number; message: string };
@@ -0,0 +1,107 @@
+import { AtmosphericLight, EditorSettings, PixelBuffer } from '../types';
+import { RenderRequest, RenderResponse } from './renderProtocol';
+import { embedMetadata } from './exif';
+import { encodeImage, fitWithin, processForOutput, processImage, processRegion, readPixels } from './imageProcessor';
+import { analyzeImage, transferablesOf } from './analysis';
+import { cropBuffer } from './pixelBuffer';
+import { applyGeometry } from './geometry';
+import { estimateAtmosphere } from './stages/dehaze';
+import { applySpots, findSpotSource } from './retouch';
+
+/**
+ * Processing worker. A long-lived instance keeps a screen-sized proxy of the
+ * photo for previews, plus the decoded original for zoomed region renders;
+ * exports run in a throwaway instance on the full bitmap.
+ */
+
+let proxy: PixelBuffer | null = null;
+let proxyScale = 1;
+let original: ImageBitmap | null = null;
+let atmosphere: { frame: string; light: AtmosphericLight } | null = null;
+
+const post = (message: RenderResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+/**
+ * Haze color of the whole retouched and framed proxy, so zoomed regions
+ * dehaze like the full preview; recomputed only when the spots or the
+ * framing change.
+ */
+const frameAtmosphere = (settings: EditorSettings): AtmosphericLight | undefined => {
+  if (!proxy || settings.dehaze === 0) return undefined;
+  const frame = JSON.stringify([settings.geometry, settings.spots]);
+  if (atmosphere?.frame !== frame) {
+    const source = proxy;
+    const { width, height } = source;
+    const retouched = applySpots(source, { x: 0, y: 0, width, height }, settings.spots, width, height, rect => cropBuffer(source, rect));
+    atmosphere = { frame, light: estimateAtmosphere(applyGeometry(retouched, settings.geometry), width, height) };
+  }
+  return atmosphere.light;
+};
+
+// Decoding/encoding takes a share of the export progress bar.
+const DECODE_SHARE = 0.15;
+const ENCODE_SHARE = 0.15;
+
+const handle = async (request: RenderRequest) => {
+  switch (request.type) {
+    case 'load': {
+      const { bitmap, maxEdge } = request;
+      const size = fitWithin(bitmap.width, bitmap.height, maxEdge);
+      proxy = readPixels(bitmap, size.width, size.height);
+      proxyScale = size.width / bitmap.width;
+      atmosphere = null;
+      original?.close();
+      original = bitmap;
+      break;
+    }
+    case 'preview': {
+      if (!proxy || !original) throw new Error('No image loaded');
+      if (request.region) {
+        const { area, scale } = request.region;
+        const { image, region } = processRegion(original, request.settings, area, scale, frameAtmosphere(request.settings));
+        const result = { ...analyzeImage(image, request.analysis), region };
+        post({ type: 'preview', id: request.id, result }, transferablesOf(result));
+        break;
+      }
+      const image = processImage(proxy, request.settings, { scale: proxyScale });
+      const result = analyzeImage(image, request.analysis);
+      post({ type: 'preview', id: request.id, result }, transferablesOf(result));
+      break;
+    }
+    case 'findSource': {
+      if (!proxy) throw new Error('No image loaded');
+      post({ type: 'source', id: request.id, offset: findSpotSource(proxy, request.spot) });
+      break;
+    }
+    case 'export': {
+      const { id, bitmap, settings, mimeType, quality, output, metadata } = request;
+      const source = readPixels(bitmap, bitmap.width, bitmap.height);
+      bitmap.close();
+      post({ type: 'progress', id, value: DECODE_SHARE });
+      const image = processForOutput(source, settings, output, {
+        onProgress: fraction => post({
+          type: 'progress',
+          id,
+          value: DECODE_SHARE + fraction * (1 - DECODE_SHARE - ENCODE_SHARE)
+        })
+      });
+      const blob = await embedMetadata(await encodeImage(image, mimeType, quality, output.colorSpace), metadata);
+      post({ type: 'progress', id, value: 1 });
+      post({ type: 'exported', id, blob });
+      break;
+    }
+  }
+};
+
+self.addEventListener('message', (event: MessageEvent<RenderRequest>) => {
+  const request = event.data;
+  handle(request).catch((error: unknown) => {
+    post({
+      type: 'error',
+      id: 'id' in request ? request.id : -1,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { BrushMask, MaskPoint, PixelBuffer, PixelRect, RetouchMode, RetouchSpot } from '../types';
+import { INITIAL_GEOMETRY } from '../constants';
+import { gaussianBlurPlane } from './filters';
+import { createFrameMapper, offsetMapper } from './geometry';
+import { renderMaskWeights } from './masks';
+import { cloneBuffer, luminance } from './pixelBuffer';
+
+/** Directions and distances (in spot extents) tried when picking a source automatically. */
+const SEARCH_ANGLES = 16;
+const SEARCH_DISTANCES = [1.1, 1.6, 2.2];
+
+/** Display name of a spot: its mode's label, numbered by its position in the list. */
+export const spotName = (spot: RetouchSpot, spots: RetouchSpot[], modeLabels: Record<RetouchMode, string>) =>
+  `${modeLabels[spot.mode]} ${spots.indexOf(spot) + 1}`;
+
+const spotRadius = (spot: Pick<RetouchSpot, 'size'>, sourceWidth: number) => Math.max(1, spot.size * sourceWidth);
+
+/** Bounding box of the spot's brush path in source pixels, grown by `margin`. */
+const spotBounds = (spot: Pick<RetouchSpot, 'points'>, sourceWidth: number, sourceHeight: number, margin: number): PixelRect => {
+  const xs = spot.points.map(p => p.x * sourceWidth);
+  const ys = spot.points.map(p => p.y * sourceHeight);
+  const x = Math.floor(Math.min(...xs) - margin);
+  const y = Math.floor(Math.min(...ys) - margin);
+  return { x, y, width: Math.ceil(Math.max(...xs) + margin) - x, height: Math.ceil(Math.max(...ys) + margin) - y };
+};
+
+/** Part of `rect` that lies inside the source both as is and moved by (dx, dy). */
+const clampToSource = (rect: PixelRect, dx: number, dy: number, sourceWidth: number, sourceHeight: number): PixelRect | null => {
+  const x0 = Math.max(rect.x, 0, -dx);
+  const y0 = Math.max(rect.y, 0, -dy);
+  const x1 = Math.min(rect.x + rect.width, sourceWidth, sourceWidth - dx);
+  const y1 = Math.min(rect.y + rect.height, sourceHeight, sourceHeight - dy);
+  return x1 > x0 && y1 > y0 ? { x: x0, y: y0, width: x1 - x0, height: y1 - y0 } : null;
+};
+
+const overlaps = (a: PixelRect, b: PixelRect) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+const spotMask = (spot: RetouchSpot): BrushMask => ({
+  id: spot.id,
+  name: '',
+  enabled: true,
+  inverted: false,
+  adjustments: {},
+  kind: 'brush',
+  strokes: [{ points: spot.points, size: spot.size, feather: spot.feather, erase: false }]
+});
+
+/**
+ * Texture-aware healing: adds to the copied `patch` a smooth correction
+ * that makes it agree with `original` around the spot. The difference
+ * between the two is known only outside the mask, so it is spread inwards
+ * by normalized convolution (blurred difference over blurred coverage).
+ */
+const healPatch = (patch: PixelBuffer, original: PixelBuffer, weights: Float32Array, radius: number) => {
+  const { width, height } = patch;
+  const n = width * height;
+  const coverage = new Float32Array(n);
+  for (let p = 0; p < n; p++) coverage[p] = 1 - weights[p];
+  const spread = gaussianBlurPlane(coverage, width, height, radius);
+
+  const difference = new Float32Array(n);
+  for (let c = 0; c < 3; c++) {
+    for (let p = 0, i = c; p < n; p++, i += 4) difference[p] = (original.data[i] - patch.data[i]) * coverage[p];
+    const blurred = gaussianBlurPlane(difference, width, height, radius);
+    for (let p = 0, i = c; p < n; p++, i += 4) {
+      if (weights[p] > 0 && spread[p] > 1e-3) patch.data[i] += blurred[p] / spread[p];
+    }
+  }
+};
+
+/**
+ * Applies retouched spots to `target`, which holds the `area` of a source
+ * of `sourceWidth` x `sourceHeight` pixels (the whole photo, or the patch a
+ * region render needs). `read` returns unretouched source pixels, so a spot
+ * always copies from the original photo even where another spot lies.
+ */
+export const applySpots = (
+  target: PixelBuffer,
+  area: PixelRect,
+  spots: RetouchSpot[],
+  sourceWidth: number,
+  sourceHeight: number,
+  read: (rect: PixelRect) => PixelBuffer
+): PixelBuffer => {
+  let output = target;
+  for (const spot of spots) {
+    if (spot.points.length === 0 || spot.opacity <= 0) continue;
+    const radius = spotRadius(spot, sourceWidth);
+    const dx = Math.round(spot.offset.x * sourceWidth);
+    const dy = Math.round(spot.offset.y * sourceHeight);
+    // Room around the brush path for the surroundings that healing matches.
+    const rect = clampToSource(spotBounds(spot, sourceWidth, sourceHeight, radius * 2 + 2), dx, dy, sourceWidth, sourceHeight);
+    if (!rect || !overlaps(rect, area)) continue;
+
+    const mapper = offsetMapper(createFrameMapper(INITIAL_GEOMETRY, sourceWidth, sourceHeight), rect.x, rect.y);
+    const weights = renderMaskWeights(spotMask(spot), rect.width, rect.height, mapper, sourceWidth, sourceHeight);
+    const patch = read({ ...rect, x: rect.x + dx, y: rect.y + dy });
+    if (spot.mode === 'heal') healPatch(patch, read(rect), weights, radius);
+
+    if (output === target) output = cloneBuffer(target);
+    const opacity = spot.opacity / 100;
+    const x0 = Math.max(rect.x, area.x);
+    const y0 = Math.max(rect.y, area.y);
+    const x1 = Math.min(rect.x + rect.width, area.x + area.width);
+    const y1 = Math.min(rect.y + rect.height, area.y + area.height);
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const p = (y - rect.y) * rect.width + (x - rect.x);
+        const a = weights[p] * opacity;
+        if (a === 0) continue;
+        const i = ((y - area.y) * area.width + (x - area.x)) * 4;
+        const j = p * 4;
+        for (let c = 0; c < 3; c++) output.data[i + c] += (patch.data[j + c] - output.data[i + c]) * a;
+      }
+    }
+  }
+  return output;
+};
+
+const distanceToPath = (path: [number, number][], x: number, y: number) => {
+  let best = Infinity;
+  for (let k = 0; k < path.length; k++) {
+    const [ax, ay] = path[k];
+    const [bx, by] = path[Math.min(k + 1, path.length - 1)];
+    const lx = bx - ax;
+    const ly = by - ay;
+    const t = lx === 0 && ly === 0 ? 0 : Math.min(1, Math.max(0, ((x - ax) * lx + (y - ay) * ly) / (lx * lx + ly * ly)));
+    best = Math.min(best, Math.hypot(x - ax - t * lx, y - ay - t * ly));
+  }
+  return best;
+};
+
+/**
+ * Picks a source for a new spot from `image` (the unretouched photo at any
+ * resolution): among candidates around the spot, the one whose surroundings
+ * best match the spot's and whose own content is smoothest, so a blemish
+ * isn't copied over a blemish. Returns the offset as in `RetouchSpot`.
+ */
+export const findSpotSource = (image: PixelBuffer, spot: Pick<RetouchSpot, 'points' | 'size'>): MaskPoint => {
+  const { width, height, data } = image;
+  const radius = spotRadius(spot, width);
+  const path = spot.points.map((p): [number, number] => [p.x * width, p.y * height]);
+  const bounds = spotBounds(spot, width, height, radius * 2);
+  const extent = Math.max(bounds.width, bounds.height) - radius * 2;
+
+  // Subsampled pixels under the spot and in a ring of surroundings around it.
+  const step = Math.max(1, Math.floor(radius / 6));
+  const inner: number[] = [];
+  const ring: number[] = [];
+  for (let y = Math.max(0, bounds.y); y < Math.min(height, bounds.y + bounds.height); y += step) {
+    for (let x = Math.max(0, bounds.x); x < Math.min(width, bounds.x + bounds.width); x += step) {
+      const d = distanceToPath(path, x + 0.5, y + 0.5);
+      if (d < radius) inner.push(x, y);
+      else if (d < radius * 2) ring.push(x, y);
+    }
+  }
+  const index = (x: number, y: number) => (y * width + x) * 4;
+
+  let best: { dx: number; dy: number; score: number } | null = null;
+  for (const distance of SEARCH_DISTANCES) {
+    for (let a = 0; a < SEARCH_ANGLES; a++) {
+      const angle = (a / SEARCH_ANGLES) * Math.PI * 2;
+      const dx = Math.round(Math.cos(angle) * extent * distance);
+      const dy = Math.round(Math.sin(angle) * extent * distance);
+      if (bounds.x + dx < 0 || bounds.y + dy < 0 || bounds.x + bounds.width + dx > width || bounds.y + bounds.height + dy > height) continue;
+
+      let mismatch = 0;
+      for (let k = 0; k < ring.length; k += 2) {
+        const t = index(ring[k], ring[k + 1]);
+        const s = index(ring[k] + dx, ring[k + 1] + dy);
+        for (let c = 0; c < 3; c++) mismatch += (data[t + c] - data[s + c]) ** 2;
+      }
+      let sum = 0;
+      let sumSq = 0;
+      for (let k = 0; k < inner.length; k += 2) {
+        const s = index(inner[k] + dx, inner[k + 1] + dy);
+        const l = luminance(data[s], data[s + 1], data[s + 2]);
+        sum += l;
+        sumSq += l * l;
+      }
+      const count = Math.max(1, inner.length / 2);
+      const variance = sumSq / count - (sum / count) ** 2;
+      const score = mismatch / Math.max(1, (ring.length / 2) * 3) + variance;
+      if (!best || score < best.score) best = { dx, dy, score };
+    }
+  }
+
+  // Too close to the edges for a full candidate: copy from beside the spot, towards the center.
+  if (!best) {
+    const side = path[0][0] < width / 2 ? 1 : -1;
+    return { x: (side * extent * SEARCH_DISTANCES[0]) / width, y: 0 };
+  }
+  return { x: best.dx / width, y: best.dy / height };
+};
@@ -0,0 +1,47 @@
+import { ShortcutAction } from '../types';
+import { SHORTCUTS } from '../constants';
+
+const isMac = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+/**
+ * Combo of a key event in the SHORTCUTS notation. Shift only counts for
+ * letters: for symbols like "?" it is already part of the key.
+ */
+const comboOf = (e: KeyboardEvent) => {
+  const key = e.key.length === 1 ? e.key.toUpperCase() : e.key;
+  return [
+    (e.ctrlKey || e.metaKey) && 'Mod',
+    e.altKey && 'Alt',
+    e.shiftKey && /^[A-Z]$/.test(key) && 'Shift',
+    key
+  ].filter(Boolean).join('+');
+};
+
+/** The shortcut a key event triggers, with the index of the key that matched. */
+export const matchShortcut = (e: KeyboardEvent): { action: ShortcutAction; index: number } | null => {
+  const combo = comboOf(e);
+  for (const { action, keys } of SHORTCUTS) {
+    const index = keys.indexOf(combo);
+    if (index >= 0) return { action, index };
+  }
+  return null;
+};
+
+/** Whether keys pressed in `target` are typing, so they must not act as shortcuts. */
+export const isTextEntry = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return true;
+  return target.tagName === 'INPUT' && !['range', 'checkbox', 'radio', 'button'].includes((target as HTMLInputElement).type);
+};
+
+/** Combo as shown to the user: ⌘ on Mac, Ctrl elsewhere. */
+export const formatCombo = (combo: string) =>
+  combo.split('+').map(part => (part === 'Mod' ? (isMac() ? '⌘' : 'Ctrl') : part)).join('+');
+
+/** `aria-keyshortcuts` value of an action, or of just its `index`th key. */
+export const ariaShortcut = (action: ShortcutAction, index?: number) => {
+  const keys = SHORTCUTS.find(s => s.action === action)?.keys ?? [];
+  return (index === undefined ? keys : keys.slice(index, index + 1))
+    .map(combo => combo.split('+').map(part => (part === 'Mod' ? (isMac() ? 'Meta' : 'Control') : part)).join('+'))
+    .join(' ') || undefined;
+};
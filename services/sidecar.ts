@@ -0,0 +1,243 @@
+import {
+  AspectRatioKey, BrushStroke, EditorSettings, Geometry, LocalAdjustments, LocalMask, Lut3D, MaskPoint, QuarterTurn,
+  RetouchSpot
+} from '../types';
+import { ASPECT_RATIOS, INITIAL_GEOMETRY, INITIAL_SETTINGS, LOCAL_ADJUSTMENTS } from '../constants';
+import { srgbToLinear } from './colorSpace';
+import { FileError } from './fileError';
+import { parseCubeLut, serializeCubeLut } from './lut';
+import { clamp } from './pixelBuffer';
+import { sanitizePresetSettings } from './presets';
+
+const SIDECAR_FORMAT = 'redmi-studio-edit';
+
+/**
+ * Version of the stored `EditorSettings` shape, shared by sidecar files and
+ * saved projects. Bump it when a field changes meaning or shape and add the
+ * step to MIGRATIONS; fields that are simply new need no migration, because
+ * anything missing is filled in from INITIAL_SETTINGS.
+ */
+export const EDIT_FORMAT_VERSION = 2;
+
+type RawSettings = Record<string, unknown>;
+
+const MID_GRAY = 128;
+
+/** Stops between two encoded values, measured in linear light. */
+const stopsBetween = (from: number, to: number) => Math.log2(srgbToLinear(to) / srgbToLinear(from));
+
+const toSlider = (stops: number, stopsAtFull: number) => clamp(Math.round((stops / stopsAtFull) * 100), -100, 100);
+
+/** Version 1 exposure, temp and tint in `values` converted to version 2 (see `linearWhiteBalance`). */
+const toLinearGains = (values: RawSettings): RawSettings => {
+  const { exposure, temp, tint } = values;
+  const migrated = { ...values };
+  if (isFiniteNumber(exposure)) {
+    migrated.exposure = toSlider(stopsBetween(MID_GRAY, MID_GRAY * Math.pow(2, exposure / 100)), 2);
+  }
+  // Warming added to red and cooling to blue; the new gains move both, apart.
+  if (isFiniteNumber(temp)) {
+    migrated.temp = toSlider(Math.sign(temp) * stopsBetween(MID_GRAY, MID_GRAY + Math.abs(temp) * 0.5) / 2, 0.6);
+  }
+  // Green added to green, magenta to red and blue; the new gains move green against half of each.
+  if (isFiniteNumber(tint)) {
+    migrated.tint = toSlider(Math.sign(tint) * stopsBetween(MID_GRAY, MID_GRAY + Math.abs(tint) * 0.3) / 1.5, 0.5);
+  }
+  return migrated;
+};
+
+/**
+ * Version 1 → 2: exposure, temp and tint became gains in linear light
+ * (±2, ±0.6 and ±0.5 stops at ±100). Version 1 multiplied the encoded
+ * values for exposure and added fixed offsets for white balance, so each
+ * value is converted to shift mid-gray, and its balance between channels,
+ * by as many stops as it used to. Masks carry the same three adjustments.
+ */
+const linearWhiteBalance = (settings: RawSettings): RawSettings => ({
+  ...toLinearGains(settings),
+  masks: Array.isArray(settings.masks)
+    ? settings.masks.map(mask => (isRecord(mask) && isRecord(mask.adjustments) ? { ...mask, adjustments: toLinearGains(mask.adjustments) } : mask))
+    : settings.masks
+});
+
+/** `MIGRATIONS[n]` upgrades settings written by version n + 1 to version n + 2. */
+const MIGRATIONS: ((settings: RawSettings) => RawSettings)[] = [linearWhiteBalance];
+
+export interface SidecarSource {
+  name: string;
+  width: number;
+  height: number;
+}
+
+export interface Sidecar {
+  settings: EditorSettings;
+  /** The photo the edit was made on, when the file records it. */
+  source: SidecarSource | null;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const sanitizePoint = (raw: unknown, fallback: MaskPoint): MaskPoint =>
+  isRecord(raw) && isFiniteNumber(raw.x) && isFiniteNumber(raw.y) ? { x: raw.x, y: raw.y } : fallback;
+
+const sanitizeGeometry = (raw: unknown): Geometry => {
+  if (!isRecord(raw)) return INITIAL_GEOMETRY;
+  const crop = isRecord(raw.crop) ? raw.crop : {};
+  const x = isFiniteNumber(crop.x) ? clamp(crop.x, 0, 1) : 0;
+  const y = isFiniteNumber(crop.y) ? clamp(crop.y, 0, 1) : 0;
+  return {
+    rotation: ([0, 90, 180, 270] as unknown[]).includes(raw.rotation) ? (raw.rotation as QuarterTurn) : 0,
+    flipHorizontal: raw.flipHorizontal === true,
+    straighten: isFiniteNumber(raw.straighten) ? clamp(raw.straighten, -45, 45) : 0,
+    crop: {
+      x,
+      y,
+      width: isFiniteNumber(crop.width) && crop.width > 0 ? Math.min(crop.width, 1 - x) : 1 - x,
+      height: isFiniteNumber(crop.height) && crop.height > 0 ? Math.min(crop.height, 1 - y) : 1 - y
+    },
+    aspect: ASPECT_RATIOS.some(a => a.key === raw.aspect) ? (raw.aspect as AspectRatioKey) : 'free'
+  };
+};
+
+const sanitizeAdjustments = (raw: unknown): LocalAdjustments =>
+  Object.fromEntries(LOCAL_ADJUSTMENTS.flatMap(({ key, min, max }) =>
+    isRecord(raw) && isFiniteNumber(raw[key]) ? [[key, clamp(raw[key] as number, min, max)]] : []));
+
+const sanitizeStroke = (raw: unknown): BrushStroke | null => {
+  if (!isRecord(raw) || !Array.isArray(raw.points)) return null;
+  const points = raw.points.filter((p): p is MaskPoint => isRecord(p) && isFiniteNumber(p.x) && isFiniteNumber(p.y));
+  if (points.length === 0 || !isFiniteNumber(raw.size) || raw.size <= 0) return null;
+  return {
+    points: points.map(({ x, y }) => ({ x, y })),
+    size: raw.size,
+    feather: isFiniteNumber(raw.feather) ? clamp(raw.feather, 0, 1) : 0.5,
+    erase: raw.erase === true
+  };
+};
+
+const sanitizeMask = (raw: unknown, index: number): LocalMask | null => {
+  if (!isRecord(raw)) return null;
+  const base = {
+    id: isFiniteNumber(raw.id) ? raw.id : index + 1,
+    // Unnamed masks are labeled by the UI, in its language
+    name: typeof raw.name === 'string' ? raw.name : '',
+    enabled: raw.enabled !== false,
+    inverted: raw.inverted === true,
+    adjustments: sanitizeAdjustments(raw.adjustments)
+  };
+  switch (raw.kind) {
+    case 'linear':
+      return { ...base, kind: 'linear', start: sanitizePoint(raw.start, { x: 0.5, y: 0 }), end: sanitizePoint(raw.end, { x: 0.5, y: 1 }) };
+    case 'radial':
+      return {
+        ...base,
+        kind: 'radial',
+        center: sanitizePoint(raw.center, { x: 0.5, y: 0.5 }),
+        radiusX: isFiniteNumber(raw.radiusX) && raw.radiusX > 0 ? raw.radiusX : 0.25,
+        radiusY: isFiniteNumber(raw.radiusY) && raw.radiusY > 0 ? raw.radiusY : 0.25,
+        feather: isFiniteNumber(raw.feather) ? clamp(raw.feather, 0, 1) : 0.5
+      };
+    case 'brush':
+      return {
+        ...base,
+        kind: 'brush',
+        strokes: Array.isArray(raw.strokes) ? raw.strokes.flatMap(stroke => sanitizeStroke(stroke) ?? []) : []
+      };
+    default:
+      return null;
+  }
+};
+
+const sanitizeSpot = (raw: unknown, index: number): RetouchSpot | null => {
+  if (!isRecord(raw) || !Array.isArray(raw.points)) return null;
+  const points = raw.points.filter((p): p is MaskPoint => isRecord(p) && isFiniteNumber(p.x) && isFiniteNumber(p.y));
+  if (points.length === 0 || !isFiniteNumber(raw.size) || raw.size <= 0) return null;
+  return {
+    id: isFiniteNumber(raw.id) ? raw.id : index + 1,
+    mode: raw.mode === 'clone' ? 'clone' : 'heal',
+    points: points.map(({ x, y }) => ({ x, y })),
+    size: raw.size,
+    feather: isFiniteNumber(raw.feather) ? clamp(raw.feather, 0, 1) : 0.5,
+    opacity: isFiniteNumber(raw.opacity) ? clamp(raw.opacity, 0, 100) : 100,
+    offset: sanitizePoint(raw.offset, { x: 0, y: 0 })
+  };
+};
+
+/** Accepts a LUT as stored in a project (typed table) or in a sidecar (.cube text). */
+const sanitizeLut = (raw: unknown): Lut3D | null => {
+  if (typeof raw === 'string') {
+    try {
+      return parseCubeLut(raw, 'LUT');
+    } catch {
+      return null;
+    }
+  }
+  if (!isRecord(raw) || !(raw.table instanceof Float32Array) || !Number.isInteger(raw.size)) return null;
+  const size = raw.size as number;
+  if (raw.table.length !== size * size * size * 3) return null;
+  const triple = (value: unknown, fallback: number): [number, number, number] =>
+    Array.isArray(value) && value.length === 3 && value.every(isFiniteNumber) ? [value[0], value[1], value[2]] : [fallback, fallback, fallback];
+  return {
+    title: typeof raw.title === 'string' ? raw.title : 'LUT',
+    size,
+    domainMin: triple(raw.domainMin, 0),
+    domainMax: triple(raw.domainMax, 1),
+    table: raw.table
+  };
+};
+
+/** A complete, valid `EditorSettings` from untrusted data; missing fields get their defaults. */
+export const sanitizeSettings = (raw: unknown): EditorSettings => {
+  if (!isRecord(raw)) return INITIAL_SETTINGS;
+  const settings: EditorSettings = {
+    ...INITIAL_SETTINGS,
+    ...sanitizePresetSettings(raw),
+    lut: sanitizeLut(raw.lut),
+    geometry: sanitizeGeometry(raw.geometry),
+    masks: Array.isArray(raw.masks) ? raw.masks.flatMap((mask, i) => sanitizeMask(mask, i) ?? []) : [],
+    spots: Array.isArray(raw.spots) ? raw.spots.flatMap((spot, i) => sanitizeSpot(spot, i) ?? []) : []
+  };
+  // Unedited photos keep the shared object, which is how the UI tells them apart.
+  return !settings.lut && JSON.stringify(settings) === JSON.stringify(INITIAL_SETTINGS) ? INITIAL_SETTINGS : settings;
+};
+
+/** Upgrades settings written by an older format version, then validates them. */
+export const readSettings = (raw: unknown, version: number): EditorSettings => {
+  if (!Number.isInteger(version) || version < 1) throw new FileError({ code: 'editMissingVersion' }, 'Missing edit format version');
+  if (version > EDIT_FORMAT_VERSION) {
+    throw new FileError({ code: 'editNewerVersion', version }, `Edit format version ${version} is newer than this app supports`);
+  }
+  let settings = isRecord(raw) ? raw : {};
+  for (let v = version; v < EDIT_FORMAT_VERSION; v++) settings = MIGRATIONS[v - 1](settings);
+  return sanitizeSettings(settings);
+};
+
+/** A JSON sidecar that reproduces the edit; the LUT travels as .cube text. */
+export const serializeSidecar = (settings: EditorSettings, source: SidecarSource): string =>
+  JSON.stringify({
+    format: SIDECAR_FORMAT,
+    version: EDIT_FORMAT_VERSION,
+    source,
+    settings: { ...settings, lut: settings.lut ? serializeCubeLut(settings.lut) : null }
+  }, null, 2);
+
+export const parseSidecar = (text: string): Sidecar => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new FileError({ code: 'editNotJson' }, 'Edit file is not valid JSON');
+  }
+  if (!isRecord(data) || data.format !== SIDECAR_FORMAT) throw new FileError({ code: 'editNotEdit' }, 'Not an edit file');
+  const source = isRecord(data.source) && typeof data.source.name === 'string'
+    && isFiniteNumber(data.source.width) && isFiniteNumber(data.source.height)
+    ? { name: data.source.name, width: data.source.width, height: data.source.height }
+    : null;
+  return { settings: readSettings(data.settings, data.version as number), source };
+};
+
+/** Sidecar file name for a photo: "IMG_0001.jpg" → "IMG_0001.redmi.json". */
+export const sidecarFileName = (photoName: string) => `${photoName.replace(/\.[^.]+$/, '')}.redmi.json`;
@@ -0,0 +1,42 @@
+import { PipelineStage } from '../../types';
+import { addLuminanceDelta, gaussianBlurPlane, guidedFilter, luminancePlane } from '../filters';
+
+// Blur sigma as a fraction of the long edge of the uncropped image.
+const RADIUS_FRACTION = 0.01;
+// Guided-filter regularization: local contrast well above sqrt(eps) counts as an edge and is kept.
+const SOFTEN_EPS = 20 * 20;
+
+// 1 at mid-gray, falling to 0 at black and white so clarity never clips.
+const midtoneWeight = (l: number) => {
+  const t = l / 127.5 - 1;
+  return t >= 1 || t <= -1 ? 0 : 1 - t * t;
+};
+
+/**
+ * Positive clarity adds large-radius local contrast; negative clarity
+ * smooths texture with an edge-preserving guided filter. Both act on
+ * luminance and are weighted toward the midtones.
+ */
+export const clarityStage: PipelineStage = {
+  name: 'clarity',
+  isActive: s => s.clarity !== 0,
+  apply: (input, settings, { sourceWidth, sourceHeight }) => {
+    const { width, height } = input;
+    const amt = settings.clarity / 100;
+    const sigma = Math.max(1, Math.max(sourceWidth, sourceHeight) * RADIUS_FRACTION);
+    const lum = luminancePlane(input);
+
+    const base = amt > 0
+      ? gaussianBlurPlane(lum, width, height, sigma)
+      : guidedFilter(lum, lum, width, height, Math.max(1, Math.round(sigma / 2)), SOFTEN_EPS);
+
+    const delta = new Float32Array(lum.length);
+    for (let i = 0; i < lum.length; i++) {
+      const weight = midtoneWeight(lum[i]);
+      delta[i] = amt > 0
+        ? (lum[i] - base[i]) * amt * weight
+        : (base[i] - lum[i]) * -amt * weight;
+    }
+    return addLuminanceDelta(input, delta);
+  }
+};
@@ -0,0 +1,46 @@
+import { PipelineStage } from '../../types';
+import { createBuffer } from '../pixelBuffer';
+
+/** Global saturation and vibrance (vibrance protects already-saturated colors). */
+export const colorStage: PipelineStage = {
+  name: 'color',
+  isActive: s => s.saturation !== 0 || s.vibrance !== 0,
+  apply: (input, settings) => {
+    const output = createBuffer(input.width, input.height);
+    const src = input.data;
+    const dst = output.data;
+    const len = src.length;
+
+    const satMult = 1 + settings.saturation / 100;
+    const vibMult = 1 + settings.vibrance / 100;
+
+    for (let i = 0; i < len; i += 4) {
+      let r = src[i];
+      let g = src[i + 1];
+      let b = src[i + 2];
+      const gray = 0.2989 * r + 0.5870 * g + 0.1140 * b;
+
+      if (settings.vibrance !== 0) {
+        const maxC = Math.max(r, g, b);
+        const avgC = (r + g + b) / 3;
+        const amt = settings.vibrance > 0 ? ((Math.abs(maxC - avgC) * 2) / 255) * 0.5 : 0;
+        r = r + (r - gray) * (vibMult - 1) * (1 - amt);
+        g = g + (g - gray) * (vibMult - 1) * (1 - amt);
+        b = b + (b - gray) * (vibMult - 1) * (1 - amt);
+      }
+
+      if (settings.saturation !== 0) {
+        r = gray + (r - gray) * satMult;
+        g = gray + (g - gray) * satMult;
+        b = gray + (b - gray) * satMult;
+      }
+
+      dst[i] = r;
+      dst[i + 1] = g;
+      dst[i + 2] = b;
+      dst[i + 3] = src[i + 3];
+    }
+
+    return output;
+  }
+};
@@ -0,0 +1,28 @@
+import { PipelineStage } from '../../types';
+import { buildCurveLut, isIdentityCurve, sampleLut } from '../curves';
+import { createBuffer } from '../pixelBuffer';
+
+/** Point curves: the composite curve first, then the individual R, G and B curves. */
+export const curvesStage: PipelineStage = {
+  name: 'curves',
+  isActive: ({ curves }) =>
+    !isIdentityCurve(curves.master) || !isIdentityCurve(curves.red) ||
+    !isIdentityCurve(curves.green) || !isIdentityCurve(curves.blue),
+  apply: (input, { curves }) => {
+    const master = buildCurveLut(curves.master);
+    const channels = [buildCurveLut(curves.red), buildCurveLut(curves.green), buildCurveLut(curves.blue)];
+    const output = createBuffer(input.width, input.height);
+    const src = input.data;
+    const dst = output.data;
+    const len = src.length;
+
+    for (let i = 0; i < len; i += 4) {
+      dst[i] = sampleLut(channels[0], sampleLut(master, src[i]));
+      dst[i + 1] = sampleLut(channels[1], sampleLut(master, src[i + 1]));
+      dst[i + 2] = sampleLut(channels[2], sampleLut(master, src[i + 2]));
+      dst[i + 3] = src[i + 3];
+    }
+
+    return output;
+  }
+};
@@ -0,0 +1,125 @@
+import { AtmosphericLight, PipelineStage, PixelBuffer } from '../../types';
+import { createBuffer } from '../pixelBuffer';
+import { guidedFilter, minFilterPlane } from '../filters';
+import { linearToSrgb, srgbToLinear } from '../colorSpace';
+
+// Dark channel patch and transmission refinement radii, as fractions of the
+// source's long edge (so they scale with the render resolution).
+const PATCH_FRACTION = 0.01;
+const REFINE_FRACTION = 0.02;
+// Guided-filter regularization for the 0–1 haze map guided by 0–1 luminance.
+const REFINE_EPS = 1e-3;
+// Share of the haziest pixels whose average color is taken as the atmospheric light.
+const HAZIEST_SHARE = 0.001;
+const HISTOGRAM_BINS = 1024;
+// At +100 a little haze is kept for depth, as in the dark channel prior paper.
+const MAX_REMOVAL = 0.95;
+// Floor for the transmission, so dense haze such as sky isn't stretched into noise and clipping.
+const MIN_TRANSMISSION = 0.2;
+// Haze added at -100 where the image is already hazy; clear areas get ADDED_HAZE_BASE of it.
+const MAX_ADDED_HAZE = 0.6;
+const ADDED_HAZE_BASE = 0.35;
+
+const patchRadius = (sourceWidth: number, sourceHeight: number, fraction: number) =>
+  Math.max(1, Math.round(Math.max(sourceWidth, sourceHeight) * fraction));
+
+/** Linear-light RGB of every pixel, packed three values per pixel. */
+const linearRgb = (input: PixelBuffer) => {
+  const n = input.width * input.height;
+  const rgb = new Float32Array(n * 3);
+  for (let p = 0, i = 0, j = 0; p < n; p++, i += 4, j += 3) {
+    rgb[j] = srgbToLinear(input.data[i]);
+    rgb[j + 1] = srgbToLinear(input.data[i + 1]);
+    rgb[j + 2] = srgbToLinear(input.data[i + 2]);
+  }
+  return rgb;
+};
+
+/** Minimum of the channels (each divided by the atmospheric light), then over a patch. */
+const darkChannel = (rgb: Float32Array, width: number, height: number, radius: number, light: AtmosphericLight = [1, 1, 1]) => {
+  const plane = new Float32Array(width * height);
+  for (let p = 0, j = 0; p < plane.length; p++, j += 3) {
+    plane[p] = Math.min(rgb[j] / light[0], rgb[j + 1] / light[1], rgb[j + 2] / light[2]);
+  }
+  return minFilterPlane(plane, width, height, radius);
+};
+
+/** Average color of the pixels with the highest dark channel: the haze, or the sky seen through it. */
+const estimateFromRgb = (rgb: Float32Array, width: number, height: number, radius: number): AtmosphericLight => {
+  const dark = darkChannel(rgb, width, height, radius);
+  const histogram = new Uint32Array(HISTOGRAM_BINS);
+  const bin = (v: number) => Math.min(HISTOGRAM_BINS - 1, Math.max(0, Math.floor(v * HISTOGRAM_BINS)));
+  for (let p = 0; p < dark.length; p++) histogram[bin(dark[p])]++;
+
+  const wanted = Math.max(1, Math.round(dark.length * HAZIEST_SHARE));
+  let threshold = HISTOGRAM_BINS - 1;
+  for (let seen = histogram[threshold]; seen < wanted && threshold > 0; ) seen += histogram[--threshold];
+
+  const light: AtmosphericLight = [0, 0, 0];
+  let count = 0;
+  for (let p = 0, j = 0; p < dark.length; p++, j += 3) {
+    if (bin(dark[p]) < threshold) continue;
+    light[0] += rgb[j];
+    light[1] += rgb[j + 1];
+    light[2] += rgb[j + 2];
+    count++;
+  }
+  return light.map(v => Math.max(0.05, v / count)) as AtmosphericLight;
+};
+
+/**
+ * Atmospheric light (linear RGB) of a framed image, for renders that only
+ * see part of it; `sourceWidth`/`sourceHeight` as in the render context.
+ */
+export const estimateAtmosphere = (input: PixelBuffer, sourceWidth: number, sourceHeight: number): AtmosphericLight =>
+  estimateFromRgb(linearRgb(input), input.width, input.height, patchRadius(sourceWidth, sourceHeight, PATCH_FRACTION));
+
+/**
+ * Dark channel prior dehaze (He et al.) in linear light. The haze density
+ * is the patch-wise dark channel relative to the atmospheric light, refined
+ * with a guided filter so it follows edges. Positive values invert the haze
+ * model I = J·t + A·(1 − t); negative values apply it to add atmosphere.
+ */
+export const dehazeStage: PipelineStage = {
+  name: 'dehaze',
+  isActive: s => s.dehaze !== 0,
+  apply: (input, settings, { sourceWidth, sourceHeight, atmosphere }) => {
+    const { width, height } = input;
+    const n = width * height;
+    const rgb = linearRgb(input);
+    const radius = patchRadius(sourceWidth, sourceHeight, PATCH_FRACTION);
+    const light = atmosphere ?? estimateFromRgb(rgb, width, height, radius);
+
+    const guide = new Float32Array(n);
+    for (let p = 0, j = 0; p < n; p++, j += 3) guide[p] = 0.2126 * rgb[j] + 0.7152 * rgb[j + 1] + 0.0722 * rgb[j + 2];
+    const haze = guidedFilter(
+      darkChannel(rgb, width, height, radius, light),
+      guide,
+      width,
+      height,
+      patchRadius(sourceWidth, sourceHeight, REFINE_FRACTION),
+      REFINE_EPS
+    );
+
+    const amount = settings.dehaze / 100;
+    const output = createBuffer(width, height);
+    const dst = output.data;
+    for (let p = 0, i = 0, j = 0; p < n; p++, i += 4, j += 3) {
+      const density = Math.min(1, Math.max(0, haze[p]));
+      for (let c = 0; c < 3; c++) {
+        const value = rgb[j + c];
+        const a = light[c];
+        if (amount > 0) {
+          const t = Math.max(MIN_TRANSMISSION, 1 - amount * MAX_REMOVAL * density);
+          dst[i + c] = linearToSrgb((value - a) / t + a);
+        } else {
+          const t = 1 - -amount * MAX_ADDED_HAZE * (ADDED_HAZE_BASE + (1 - ADDED_HAZE_BASE) * density);
+          dst[i + c] = linearToSrgb(value * t + a * (1 - t));
+        }
+      }
+      dst[i + 3] = input.data[i + 3];
+    }
+
+    return output;
+  }
+};
@@ -0,0 +1,86 @@
+import { ColorGrading, GradingWheel, PipelineStage } from '../../types';
+import { GRADING_RANGES } from '../../constants';
+import { clamp, createBuffer, luminance } from '../pixelBuffer';
+
+/** Largest color shift (at saturation 100) and luminance shift (at ±100), in levels. */
+const MAX_TINT = 64;
+const MAX_LIFT = 48;
+
+const isNeutral = (wheel: GradingWheel) => wheel.saturation === 0 && wheel.luminance === 0;
+
+/** Per-channel offset that pushes towards `hue` without changing luminance. */
+const tintOffset = ({ hue, saturation }: GradingWheel): [number, number, number] => {
+  const channel = (n: number) => {
+    const k = (n + hue / 60) % 6;
+    return 1 - Math.max(0, Math.min(k, 4 - k, 1));
+  };
+  const rgb = [channel(5), channel(3), channel(1)];
+  const lum = luminance(rgb[0], rgb[1], rgb[2]);
+  const scale = (saturation / 100) * MAX_TINT;
+  return [(rgb[0] - lum) * scale, (rgb[1] - lum) * scale, (rgb[2] - lum) * scale];
+};
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = clamp((x - edge0) / (edge1 - edge0), 0, 1);
+  return t * t * (3 - 2 * t);
+};
+
+/**
+ * Weights of the shadows, midtones and highlights wheels for a 0–1
+ * luminance. Balance bends the luminance axis so one end covers more of the
+ * image; blending widens the shadow and highlight ramps into the midtones.
+ */
+const rangeWeights = (grading: ColorGrading) => {
+  const gamma = Math.pow(2, -grading.balance / 100);
+  const edge = 0.35 + (grading.blending / 100) * 0.4;
+  return (lum: number, out: Float32Array) => {
+    const x = Math.pow(clamp(lum, 0, 1), gamma);
+    const shadows = 1 - smoothstep(0, edge, x);
+    const highlights = smoothstep(1 - edge, 1, x);
+    out[0] = shadows;
+    out[1] = Math.max(0, 1 - shadows - highlights);
+    out[2] = highlights;
+  };
+};
+
+/**
+ * Three-way color grading: each wheel tints and lifts or lowers its tonal
+ * range, weighted by the pixel's luminance.
+ */
+export const gradingStage: PipelineStage = {
+  name: 'grading',
+  isActive: ({ grading }) => GRADING_RANGES.some(key => !isNeutral(grading[key])),
+  apply: (input, { grading }) => {
+    const wheels = GRADING_RANGES.map(key => ({
+      tint: tintOffset(grading[key]),
+      lift: (grading[key].luminance / 100) * MAX_LIFT
+    }));
+    const weightsOf = rangeWeights(grading);
+    const weights = new Float32Array(3);
+    const output = createBuffer(input.width, input.height);
+    const src = input.data;
+    const dst = output.data;
+    const len = src.length;
+
+    for (let i = 0; i < len; i += 4) {
+      let r = src[i];
+      let g = src[i + 1];
+      let b = src[i + 2];
+      weightsOf(luminance(r, g, b) / 255, weights);
+      for (let k = 0; k < 3; k++) {
+        const w = weights[k];
+        if (w === 0) continue;
+        const { tint, lift } = wheels[k];
+        r += (tint[0] + lift) * w;
+        g += (tint[1] + lift) * w;
+        b += (tint[2] + lift) * w;
+      }
+      dst[i] = r;
+      dst[i + 1] = g;
+      dst[i + 2] = b;
+      dst[i + 3] = src[i + 3];
+    }
+
+    return output;
+  }
+};
@@ -0,0 +1,68 @@
+import { PipelineStage } from '../../types';
+import { clamp, createBuffer, hash32, luminance } from '../pixelBuffer';
+
+/** Grain strength at amount 100, in levels (before the midtone weighting). */
+const MAX_GRAIN = 40;
+
+// The finer, rougher layer is this many times denser than the base grain.
+const ROUGH_FREQUENCY = 2.3;
+
+// Value in [-1, 1) at an integer lattice point, fixed for a given seed.
+const lattice = (x: number, y: number, seed: number) =>
+  hash32(Math.imul(x, 0x27d4eb2d) ^ Math.imul(y, 0x165667b1) ^ Math.imul(seed + 1, 0x9e3779b9)) / 0x80000000 - 1;
+
+/** Value noise at (u, v) lattice cells, smoothly interpolated between lattice points. */
+const valueNoise = (u: number, v: number, seed: number) => {
+  const x0 = Math.floor(u);
+  const y0 = Math.floor(v);
+  let fx = u - x0;
+  let fy = v - y0;
+  fx = fx * fx * (3 - 2 * fx);
+  fy = fy * fy * (3 - 2 * fy);
+  const a = lattice(x0, y0, seed);
+  const b = lattice(x0 + 1, y0, seed);
+  const c = lattice(x0, y0 + 1, seed);
+  const d = lattice(x0 + 1, y0 + 1, seed);
+  return a + (b - a) * fx + (c - a) * fy + (a - b - c + d) * fx * fy;
+};
+
+/**
+ * Monochrome film grain, strongest in the midtones. The pattern is a
+ * function of the seed and the full-resolution frame position only, so the
+ * preview, zoomed regions and every export of an edit show the same grain.
+ */
+export const grainStage: PipelineStage = {
+  name: 'grain',
+  isActive: s => s.grainAmount > 0,
+  apply: (input, settings, { frame, scale }) => {
+    const { width: w, height: h } = input;
+    const output = createBuffer(w, h);
+    const src = input.data;
+    const dst = output.data;
+
+    const cell = 1 + settings.grainSize / 25; // full-resolution pixels
+    const rough = settings.grainRoughness / 100;
+    const seed = Math.round(settings.grainSeed);
+    // When a render pixel spans several grains (small previews) they average
+    // out, as they would when downscaling the full-size export.
+    const strength = ((settings.grainAmount / 100) * MAX_GRAIN * Math.min(1, cell * scale)) / Math.hypot(1, rough);
+
+    for (let y = 0; y < h; y++) {
+      const v = (frame.y + y + 0.5) / scale / cell;
+      for (let x = 0; x < w; x++) {
+        const i = (y * w + x) * 4;
+        const u = (frame.x + x + 0.5) / scale / cell;
+        let noise = valueNoise(u, v, seed);
+        if (rough > 0) noise += rough * valueNoise(u * ROUGH_FREQUENCY, v * ROUGH_FREQUENCY, seed + 7919);
+        const l = clamp(luminance(src[i], src[i + 1], src[i + 2]) / 255, 0, 1);
+        const grain = noise * strength * (0.3 + 2.8 * l * (1 - l));
+        dst[i] = src[i] + grain;
+        dst[i + 1] = src[i + 1] + grain;
+        dst[i + 2] = src[i + 2] + grain;
+        dst[i + 3] = src[i + 3];
+      }
+    }
+
+    return output;
+  }
+};
@@ -0,0 +1,91 @@
+import { HslAdjustment, PipelineStage } from '../../types';
+import { HUE_BANDS } from '../../constants';
+import { clamp, createBuffer } from '../pixelBuffer';
+
+const MAX_HUE_SHIFT = 30; // degrees at ±100
+const BAND_COUNT = HUE_BANDS.length;
+
+const isNeutral = (a: HslAdjustment) => a.hue === 0 && a.saturation === 0 && a.luminance === 0;
+
+/**
+ * Per-band hue, saturation and luminance. Each pixel's adjustment is a
+ * cosine-weighted blend of the two bands its hue falls between, so there are
+ * no hard edges between neighbouring colors. Gray pixels are left alone.
+ * HSL only describes colors within 0–255, so the adjustment works on that
+ * part of a pixel and whatever lies beyond it passes through unchanged.
+ */
+export const hslStage: PipelineStage = {
+  name: 'hsl',
+  isActive: ({ hsl }) => HUE_BANDS.some(({ key }) => !isNeutral(hsl[key])),
+  apply: (input, { hsl }) => {
+    const bands = HUE_BANDS.map(b => ({ center: b.hue, ...hsl[b.key] }));
+    const output = createBuffer(input.width, input.height);
+    const src = input.data;
+    const dst = output.data;
+    const len = src.length;
+
+    for (let i = 0; i < len; i += 4) {
+      const r = clamp(src[i], 0, 255) / 255;
+      const g = clamp(src[i + 1], 0, 255) / 255;
+      const b = clamp(src[i + 2], 0, 255) / 255;
+      dst[i + 3] = src[i + 3];
+
+      const max = Math.max(r, g, b);
+      const min = Math.min(r, g, b);
+      const chroma = max - min;
+      if (chroma < 1e-4) {
+        dst[i] = src[i];
+        dst[i + 1] = src[i + 1];
+        dst[i + 2] = src[i + 2];
+        continue;
+      }
+
+      let l = (max + min) / 2;
+      let s = chroma / (1 - Math.abs(2 * l - 1));
+      let h =
+        max === r ? ((g - b) / chroma + 6) % 6 :
+        max === g ? (b - r) / chroma + 2 :
+        (r - g) / chroma + 4;
+      h *= 60;
+
+      // Locate the surrounding bands (the list wraps from magenta back to red).
+      let lo = BAND_COUNT - 1;
+      for (let k = 0; k < BAND_COUNT; k++) {
+        if (bands[k].center <= h) lo = k;
+      }
+      const hi = (lo + 1) % BAND_COUNT;
+      const span = (bands[hi].center - bands[lo].center + 360) % 360;
+      const t = ((h - bands[lo].center + 360) % 360) / span;
+      const w = 0.5 - 0.5 * Math.cos(Math.PI * t);
+      const a = bands[lo];
+      const c = bands[hi];
+
+      const hueShift = (a.hue * (1 - w) + c.hue * w) / 100;
+      const satShift = (a.saturation * (1 - w) + c.saturation * w) / 100;
+      const lumShift = (a.luminance * (1 - w) + c.luminance * w) / 100;
+
+      h = (h + hueShift * MAX_HUE_SHIFT + 360) % 360;
+      s = clamp(s * (1 + satShift), 0, 1);
+      // Weight luminance by saturation so near-neutral pixels barely move.
+      l = clamp(l + lumShift * 0.3 * Math.min(1, s * 2), 0, 1);
+
+      const c2 = (1 - Math.abs(2 * l - 1)) * s;
+      const x = c2 * (1 - Math.abs(((h / 60) % 2) - 1));
+      const m = l - c2 / 2;
+      const sector = Math.floor(h / 60);
+      const [r1, g1, b1] =
+        sector === 0 ? [c2, x, 0] :
+        sector === 1 ? [x, c2, 0] :
+        sector === 2 ? [0, c2, x] :
+        sector === 3 ? [0, x, c2] :
+        sector === 4 ? [x, 0, c2] :
+        [c2, 0, x];
+
+      dst[i] = (r1 + m - r) * 255 + src[i];
+      dst[i + 1] = (g1 + m - g) * 255 + src[i + 1];
+      dst[i + 2] = (b1 + m - b) * 255 + src[i + 2];
+    }
+
+    return output;
+  }
+};
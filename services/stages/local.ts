@@ -0,0 +1,52 @@
+import { EditorSettings, PipelineStage } from '../../types';
+import { INITIAL_SETTINGS } from '../../constants';
+import { createFrameMapper, offsetMapper } from '../geometry';
+import { hasAdjustments, renderMaskWeights } from '../masks';
+import { createBuffer } from '../pixelBuffer';
+import { toneStage } from './tone';
+import { colorStage } from './color';
+import { clarityStage } from './clarity';
+import { sharpenStage } from './sharpen';
+
+const LOCAL_STAGES = [toneStage, colorStage, clarityStage, sharpenStage];
+
+/**
+ * Local adjustments. Each enabled mask re-runs the per-pixel stages with its
+ * own settings on top of the global result, then blends by the mask weight.
+ * Masks stack in list order.
+ */
+export const localStage: PipelineStage = {
+  name: 'local',
+  isActive: ({ masks }) => masks.some(m => m.enabled && hasAdjustments(m)),
+  apply: (input, settings, context) => {
+    const { width, height } = input;
+    const { frame } = context;
+    const mapper = offsetMapper(createFrameMapper(settings.geometry, context.sourceWidth, context.sourceHeight), frame.x, frame.y);
+    let current = input;
+
+    for (const mask of settings.masks) {
+      if (!mask.enabled || !hasAdjustments(mask)) continue;
+      const local: EditorSettings = { ...INITIAL_SETTINGS, ...mask.adjustments, geometry: settings.geometry };
+      const adjusted = LOCAL_STAGES.reduce(
+        (buffer, stage) => (stage.isActive(local) ? stage.apply(buffer, local, context) : buffer),
+        current
+      );
+      const weights = renderMaskWeights(mask, width, height, mapper, context.sourceWidth, context.sourceHeight);
+
+      const output = createBuffer(width, height);
+      const base = current.data;
+      const top = adjusted.data;
+      const dst = output.data;
+      for (let p = 0, i = 0; p < weights.length; p++, i += 4) {
+        const w = weights[p];
+        dst[i] = base[i] + (top[i] - base[i]) * w;
+        dst[i + 1] = base[i + 1] + (top[i + 1] - base[i + 1]) * w;
+        dst[i + 2] = base[i + 2] + (top[i + 2] - base[i + 2]) * w;
+        dst[i + 3] = base[i + 3];
+      }
+      current = output;
+    }
+
+    return current;
+  }
+};
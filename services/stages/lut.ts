@@ -0,0 +1,31 @@
+import { PipelineStage } from '../../types';
+import { createBuffer } from '../pixelBuffer';
+import { createLutSampler } from '../lut';
+
+/** Loaded .cube 3D LUT, blended with the input by `lutIntensity`. */
+export const lutStage: PipelineStage = {
+  name: 'lut',
+  isActive: s => s.lut !== null && s.lutIntensity > 0,
+  apply: (input, settings) => {
+    const output = createBuffer(input.width, input.height);
+    const src = input.data;
+    const dst = output.data;
+    const len = src.length;
+    const sample = createLutSampler(settings.lut!, settings.lutInterpolation);
+    const mix = settings.lutIntensity / 100;
+    const color = new Float32Array(3);
+
+    for (let i = 0; i < len; i += 4) {
+      const r = src[i];
+      const g = src[i + 1];
+      const b = src[i + 2];
+      sample(r / 255, g / 255, b / 255, color);
+      dst[i] = r + (color[0] * 255 - r) * mix;
+      dst[i + 1] = g + (color[1] * 255 - g) * mix;
+      dst[i + 2] = b + (color[2] * 255 - b) * mix;
+      dst[i + 3] = src[i + 3];
+    }
+
+    return output;
+  }
+};
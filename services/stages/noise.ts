@@ -0,0 +1,62 @@
+import { PipelineStage } from '../../types';
+import { guidedFilter, luminancePlane } from '../filters';
+
+// Filter radii in full-resolution pixels; chroma noise is blotchier than luma grain.
+const LUMA_RADIUS = 2;
+const CHROMA_RADIUS = 6;
+// Noise amplitude (0-255 levels) treated as grain at strength 100.
+const LUMA_SIGMA = 18;
+const CHROMA_SIGMA = 30;
+
+// Downscaling averages grain away, so smaller renders see proportionally weaker noise.
+const filterParams = (strength: number, detail: number, radius: number, sigma: number, scale: number) => {
+  const noise = (strength / 100) * sigma * (1 - 0.7 * (detail / 100)) * scale;
+  return { radius: Math.max(1, Math.round(radius * scale)), eps: noise * noise };
+};
+
+/**
+ * Edge-preserving denoise in a luma/chroma split. Luma is smoothed by a
+ * self-guided filter; chroma is smoothed with luma as the guide so color
+ * stays put at edges. Higher detail narrows what counts as noise.
+ */
+export const noiseReductionStage: PipelineStage = {
+  name: 'noise',
+  isActive: s => s.noiseReduction > 0 || s.colorNoiseReduction > 0,
+  apply: (input, settings, { scale }) => {
+    const { width, height } = input;
+    const src = input.data;
+    const n = width * height;
+    const lum = luminancePlane(input);
+
+    let y = lum;
+    if (settings.noiseReduction > 0) {
+      const { radius, eps } = filterParams(settings.noiseReduction, settings.noiseDetail, LUMA_RADIUS, LUMA_SIGMA, scale);
+      y = guidedFilter(lum, lum, width, height, radius, eps);
+    }
+
+    const cb = new Float32Array(n);
+    const cr = new Float32Array(n);
+    for (let p = 0, i = 0; p < n; p++, i += 4) {
+      cb[p] = src[i + 2] - lum[p];
+      cr[p] = src[i] - lum[p];
+    }
+    let cbOut = cb;
+    let crOut = cr;
+    if (settings.colorNoiseReduction > 0) {
+      const { radius, eps } = filterParams(settings.colorNoiseReduction, settings.colorNoiseDetail, CHROMA_RADIUS, CHROMA_SIGMA, scale);
+      cbOut = guidedFilter(cb, lum, width, height, radius, eps);
+      crOut = guidedFilter(cr, lum, width, height, radius, eps);
+    }
+
+    const data = new Float32Array(src.length);
+    for (let p = 0, i = 0; p < n; p++, i += 4) {
+      const r = y[p] + crOut[p];
+      const b = y[p] + cbOut[p];
+      data[i] = r;
+      data[i + 1] = (y[p] - 0.299 * r - 0.114 * b) / 0.587;
+      data[i + 2] = b;
+      data[i + 3] = src[i + 3];
+    }
+    return { width, height, data };
+  }
+};
@@ -0,0 +1,37 @@
+import { PipelineStage } from '../../types';
+import { addLuminanceDelta, gaussianBlurPlane, gradientMagnitude, luminancePlane } from '../filters';
+import { clamp } from '../pixelBuffer';
+
+// Luminance deltas around this size are halved when Detail is 0.
+const HALO_KNEE = 12;
+// Edge strength (full-resolution gradient units) that Masking 100 requires.
+const MAX_EDGE_THRESHOLD = 24;
+
+/**
+ * Unsharp mask on luminance only, so edges gain contrast without color
+ * fringes. Radius is in full-resolution pixels and scales with the render.
+ */
+export const sharpenStage: PipelineStage = {
+  name: 'sharpen',
+  isActive: s => s.sharpness > 0,
+  apply: (input, settings, { scale }) => {
+    const { width, height } = input;
+    const amount = (settings.sharpness / 100) * 1.5;
+    const detail = settings.sharpenDetail / 100;
+    const threshold = (settings.sharpenMasking / 100) * MAX_EDGE_THRESHOLD;
+
+    const lum = luminancePlane(input);
+    const blurred = gaussianBlurPlane(lum, width, height, settings.sharpenRadius * scale);
+    // Gradients are per render pixel; multiply by scale to compare in full-resolution units.
+    const edges = threshold > 0 ? gradientMagnitude(blurred, width, height) : null;
+
+    const delta = new Float32Array(lum.length);
+    for (let i = 0; i < lum.length; i++) {
+      const diff = lum[i] - blurred[i];
+      const damping = detail + (1 - detail) / (1 + Math.abs(diff) / HALO_KNEE);
+      const mask = edges ? clamp((edges[i] * scale - threshold * 0.5) / threshold, 0, 1) : 1;
+      delta[i] = diff * damping * mask * amount;
+    }
+    return addLuminanceDelta(input, delta);
+  }
+};
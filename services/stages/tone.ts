@@ -0,0 +1,89 @@
+import { PipelineStage } from '../../types';
+import { clamp, createBuffer, luminance } from '../pixelBuffer';
+import { linearToSrgb, srgbToLinear } from '../colorSpace';
+
+/** Stops of exposure at the slider's ±100. */
+const EXPOSURE_STOPS = 2;
+/** Stops the red/blue (temp) and green (tint) gains move at ±100. */
+const TEMP_STOPS = 0.6;
+const TINT_STOPS = 0.5;
+
+/**
+ * Exposure, white balance and the shadows/highlights/whites/contrast tone
+ * controls. Exposure and white balance are channel gains in linear light,
+ * like a camera's; the tone controls work on the encoded values. Nothing is
+ * clamped, so detail pushed past white can still be recovered downstream.
+ */
+export const toneStage: PipelineStage = {
+  name: 'tone',
+  isActive: s =>
+    s.exposure !== 0 || s.temp !== 0 || s.tint !== 0 || s.shadows !== 0 ||
+    s.highlights !== 0 || s.whites !== 0 || s.contrast !== 0,
+  apply: (input, settings) => {
+    const output = createBuffer(input.width, input.height);
+    const src = input.data;
+    const dst = output.data;
+    const len = src.length;
+
+    const contrastFactor = (259 * (settings.contrast + 255)) / (255 * (259 - settings.contrast));
+
+    // Positive temp warms (red up, blue down); positive tint adds green.
+    const exposureStops = (settings.exposure / 100) * EXPOSURE_STOPS;
+    const temp = (settings.temp / 100) * TEMP_STOPS;
+    const tint = (settings.tint / 100) * TINT_STOPS;
+    const rGain = Math.pow(2, exposureStops + temp - tint / 2);
+    const gGain = Math.pow(2, exposureStops + tint);
+    const bGain = Math.pow(2, exposureStops - temp - tint / 2);
+    const linearGains = settings.exposure !== 0 || settings.temp !== 0 || settings.tint !== 0;
+
+    const shadowLift = settings.shadows / 100;
+    const highlightDrop = settings.highlights / 100;
+    const whiteLift = settings.whites / 100;
+
+    for (let i = 0; i < len; i += 4) {
+      let r = src[i];
+      let g = src[i + 1];
+      let b = src[i + 2];
+
+      // 1. Exposure and white balance (linear light)
+      if (linearGains) {
+        r = linearToSrgb(srgbToLinear(r) * rGain);
+        g = linearToSrgb(srgbToLinear(g) * gGain);
+        b = linearToSrgb(srgbToLinear(b) * bGain);
+      }
+
+      // 2. Tone Curve Logic
+      const lum = luminance(r, g, b);
+
+      if (settings.shadows !== 0) {
+        const lift = (1 - lum / 255) * shadowLift * 80;
+        r += lift; g += lift; b += lift;
+      }
+
+      if (settings.highlights !== 0) {
+        const drop = (lum / 255) * highlightDrop * 80;
+        r += drop; g += drop; b += drop;
+      }
+
+      if (settings.whites !== 0) {
+        // Smooth shoulder instead of a hard cutoff so the lift doesn't band.
+        const t = clamp((lum - 160) / 80, 0, 1);
+        const lift = t * t * (3 - 2 * t) * whiteLift * 50;
+        r += lift; g += lift; b += lift;
+      }
+
+      if (settings.contrast !== 0) {
+        r = contrastFactor * (r - 128) + 128;
+        g = contrastFactor * (g - 128) + 128;
+        b = contrastFactor * (b - 128) + 128;
+      }
+
+      dst[i] = r;
+      dst[i + 1] = g;
+      dst[i + 2] = b;
+      dst[i + 3] = src[i + 3];
+    }
+
+    return output;
+  }
+};
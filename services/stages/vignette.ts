@@ -0,0 +1,40 @@
+import { PipelineStage } from '../../types';
+import { createBuffer } from '../pixelBuffer';
+
+/**
+ * Radial falloff from w/3 to max(w,h)/1.2 around the frame center. Positive
+ * values multiply towards black, negative values screen towards white.
+ */
+export const vignetteStage: PipelineStage = {
+  name: 'vignette',
+  isActive: s => s.vignette !== 0,
+  apply: (input, settings, { frame }) => {
+    const { width: w, height: h } = input;
+    const output = createBuffer(w, h);
+    const src = input.data;
+    const dst = output.data;
+
+    // Measured on the full frame so region renders match the whole image.
+    const cx = frame.width / 2 - frame.x;
+    const cy = frame.height / 2 - frame.y;
+    const inner = frame.width / 3;
+    const outer = Math.max(frame.width, frame.height) / 1.2;
+    const strength = (Math.abs(settings.vignette) / 100) * 0.8;
+    const target = settings.vignette < 0 ? 255 : 0;
+
+    for (let y = 0; y < h; y++) {
+      for (let x = 0; x < w; x++) {
+        const i = (y * w + x) * 4;
+        const dist = Math.hypot(x + 0.5 - cx, y + 0.5 - cy);
+        const t = Math.min(1, Math.max(0, (dist - inner) / (outer - inner)));
+        const a = strength * t;
+        dst[i] = src[i] * (1 - a) + target * a;
+        dst[i + 1] = src[i + 1] * (1 - a) + target * a;
+        dst[i + 2] = src[i + 2] * (1 - a) + target * a;
+        dst[i + 3] = src[i + 3];
+      }
+    }
+
+    return output;
+  }
+};
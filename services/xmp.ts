@@ -0,0 +1,161 @@
+import { CurveChannel, CurvePoint, EditorSettings, GradingRange, HueBand, NumericSettingKey, PresetConfig } from '../types';
+import { HUE_BANDS } from '../constants';
+import { FileError } from './fileError';
+import { sanitizePresetSettings } from './presets';
+
+export interface XmpImport {
+  preset: PresetConfig;
+  /** Lightroom fields with a non-neutral value that have no equivalent here. */
+  ignored: string[];
+}
+
+const IMPORTED_COLOR = '#31A8FF';
+
+// Lightroom field -> setting, with the conversion from Lightroom's scale.
+const NUMERIC_FIELDS: Record<string, [NumericSettingKey, (value: number) => number]> = {
+  Dehaze: ['dehaze', v => v],
+  // Our ±100 covers ±2 stops.
+  Exposure2012: ['exposure', ev => ev * 50],
+  Contrast2012: ['contrast', v => v],
+  Highlights2012: ['highlights', v => v],
+  Shadows2012: ['shadows', v => v],
+  Whites2012: ['whites', v => v],
+  IncrementalTemperature: ['temp', v => v],
+  IncrementalTint: ['tint', v => v],
+  // Absolute white balance (raw presets): distance from daylight in mireds.
+  Temperature: ['temp', kelvin => (1e6 / 5500 - 1e6 / kelvin) * 0.5],
+  Tint: ['tint', v => v / 1.5],
+  Vibrance: ['vibrance', v => v],
+  Saturation: ['saturation', v => v],
+  Clarity2012: ['clarity', v => v],
+  Sharpness: ['sharpness', v => v / 1.5],
+  SharpenRadius: ['sharpenRadius', v => v],
+  SharpenDetail: ['sharpenDetail', v => v],
+  SharpenEdgeMasking: ['sharpenMasking', v => v],
+  LuminanceSmoothing: ['noiseReduction', v => v],
+  LuminanceNoiseReductionDetail: ['noiseDetail', v => v],
+  ColorNoiseReduction: ['colorNoiseReduction', v => v],
+  ColorNoiseReductionDetail: ['colorNoiseDetail', v => v],
+  // Lightroom's negative amount darkens the corners; ours is positive.
+  PostCropVignetteAmount: ['vignette', v => -v],
+  GrainAmount: ['grainAmount', v => v],
+  GrainSize: ['grainSize', v => v],
+  GrainFrequency: ['grainRoughness', v => v]
+};
+
+// Color grading field -> wheel (null for the shared fields) and property.
+// The shadow and highlight wheels kept their split toning names.
+const GRADING_FIELDS: Record<string, [GradingRange | null, string]> = {
+  SplitToningShadowHue: ['shadows', 'hue'],
+  SplitToningShadowSaturation: ['shadows', 'saturation'],
+  ColorGradeShadowLum: ['shadows', 'luminance'],
+  ColorGradeMidtoneHue: ['midtones', 'hue'],
+  ColorGradeMidtoneSat: ['midtones', 'saturation'],
+  ColorGradeMidtoneLum: ['midtones', 'luminance'],
+  SplitToningHighlightHue: ['highlights', 'hue'],
+  SplitToningHighlightSaturation: ['highlights', 'saturation'],
+  ColorGradeHighlightLum: ['highlights', 'luminance'],
+  SplitToningBalance: [null, 'balance'],
+  ColorGradeBlending: [null, 'blending']
+};
+
+const CURVE_FIELDS: Record<string, CurveChannel> = {
+  ToneCurvePV2012: 'master',
+  ToneCurvePV2012Red: 'red',
+  ToneCurvePV2012Green: 'green',
+  ToneCurvePV2012Blue: 'blue'
+};
+
+const HSL_FIELD = /^(Hue|Saturation|Luminance)Adjustment(Red|Orange|Yellow|Green|Aqua|Blue|Purple|Magenta)$/;
+
+// Descriptive fields that carry no look and are skipped without a report.
+const METADATA_FIELDS = new Set([
+  'Version', 'ProcessVersion', 'PresetType', 'Cluster', 'UUID', 'SupportsAmount', 'SupportsAmount2', 'SupportsColor',
+  'SupportsMonochrome', 'SupportsHighDynamicRange', 'SupportsNormalDynamicRange', 'SupportsSceneReferred',
+  'SupportsOutputReferred', 'CameraModelRestriction', 'Copyright', 'ContactInfo', 'Description', 'Name', 'ShortName',
+  'SortName', 'Group', 'Amount', 'HasSettings', 'AlreadyApplied', 'HasCrop', 'RequiresRGBTables', 'ToneCurveName2012',
+  'ToneCurveName', 'WhiteBalance', 'CameraProfile', 'CameraProfileDigest', 'LookTable', 'OverrideLookVignette'
+]);
+
+const NEUTRAL_VALUE = /^([+-]?0+(\.0+)?|false|)$/i;
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+const listItems = (body: string) =>
+  [...body.matchAll(/<rdf:li[^>]*>([^<]*)<\/rdf:li>/g)].map(m => decodeEntities(m[1].trim()));
+
+const parseCurve = (items: string[]): CurvePoint[] =>
+  items.map(item => {
+    const [x, y] = item.split(',').map(Number);
+    return { x, y };
+  });
+
+const isIdentity = (points: CurvePoint[]) =>
+  points.length === 2 && points[0].x === 0 && points[0].y === 0 && points[1].x === 255 && points[1].y === 255;
+
+/**
+ * Reads a Lightroom / Camera Raw .xmp preset. Fields are taken from `crs:`
+ * attributes and elements; values are converted to this editor's scales and
+ * clamped. Anything unsupported with a non-neutral value is reported.
+ */
+export const parseXmpPreset = (text: string, fallbackName: string): XmpImport => {
+  const scalars = new Map<string, string>();
+  const sequences = new Map<string, string[]>();
+
+  for (const m of text.matchAll(/crs:(\w+)="([^"]*)"/g)) scalars.set(m[1], decodeEntities(m[2]));
+  for (const m of text.matchAll(/<crs:(\w+)>([^<]*)<\/crs:\1>/g)) scalars.set(m[1], decodeEntities(m[2].trim()));
+  for (const m of text.matchAll(/<crs:(\w+)>\s*<rdf:(?:Seq|Bag)>([\s\S]*?)<\/rdf:(?:Seq|Bag)>\s*<\/crs:\1>/g)) {
+    sequences.set(m[1], listItems(m[2]));
+  }
+  const alternative = text.match(/<crs:Name>\s*<rdf:Alt>([\s\S]*?)<\/rdf:Alt>/);
+  if (scalars.size === 0 && sequences.size === 0) throw new FileError({ code: 'xmpNotPreset' }, 'Not a Lightroom preset');
+
+  const raw: Record<string, unknown> = {};
+  const hsl: Partial<Record<HueBand, Record<string, number>>> = {};
+  const grading: Record<string, unknown> = {};
+  const curves: Partial<Record<CurveChannel, CurvePoint[]>> = {};
+  const ignored: string[] = [];
+
+  for (const [field, value] of scalars) {
+    const number = Number(value);
+    const numeric = NUMERIC_FIELDS[field];
+    const hslMatch = field.match(HSL_FIELD);
+    const gradingField = GRADING_FIELDS[field];
+    if (numeric && Number.isFinite(number)) {
+      raw[numeric[0]] = Math.round(numeric[1](number) * 10) / 10;
+    } else if (hslMatch && Number.isFinite(number)) {
+      const band = hslMatch[2].toLowerCase() as HueBand;
+      hsl[band] = { ...hsl[band], [hslMatch[1].toLowerCase()]: number };
+    } else if (gradingField && Number.isFinite(number)) {
+      const [range, property] = gradingField;
+      if (range) grading[range] = { ...(grading[range] as object), [property]: number };
+      else grading[property] = number;
+    } else if (!METADATA_FIELDS.has(field) && !NEUTRAL_VALUE.test(value)) {
+      ignored.push(field);
+    }
+  }
+
+  for (const [field, items] of sequences) {
+    const channel = CURVE_FIELDS[field];
+    if (channel) {
+      const points = parseCurve(items);
+      if (!isIdentity(points)) curves[channel] = points;
+    } else if (!METADATA_FIELDS.has(field) && items.length > 0) {
+      ignored.push(field);
+    }
+  }
+
+  if (Object.keys(hsl).length > 0) raw.hsl = Object.fromEntries(HUE_BANDS.map(({ key }) => [key, hsl[key] ?? {}]));
+  if (Object.keys(curves).length > 0) raw.curves = curves;
+  if (Object.keys(grading).length > 0) raw.grading = grading;
+
+  const name = (alternative ? listItems(alternative[1])[0] : scalars.get('Name'))?.trim() || fallbackName;
+  const settings: Partial<EditorSettings> = sanitizePresetSettings(raw);
+  return { preset: { name: name.slice(0, 60), color: IMPORTED_COLOR, settings }, ignored: ignored.sort() };
+};
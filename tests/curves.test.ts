@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { IDENTITY_CURVE, PRESETS } from '../constants';
+import { buildCurveLut, sampleLut } from '../services/curves';
+
+describe('sampleLut', () => {
+  it('passes values outside 0–255 through an identity curve', () => {
+    const lut = buildCurveLut(IDENTITY_CURVE);
+    expect(sampleLut(lut, 300)).toBeCloseTo(300, 4);
+    expect(sampleLut(lut, -20)).toBeCloseTo(-20, 4);
+  });
+
+  it('continues a curve past its end points instead of clipping', () => {
+    const lut = buildCurveLut(PRESETS.cinematic.settings.curves!.master);
+    const end = sampleLut(lut, 255);
+    const slope = lut[255] - lut[254];
+    expect(slope).toBeGreaterThan(0);
+    expect(sampleLut(lut, 275)).toBeCloseTo(end + 20 * slope, 4);
+    expect(sampleLut(lut, 300)).toBeGreaterThan(sampleLut(lut, 275));
+    expect(sampleLut(lut, -10)).toBeCloseTo(lut[0] - 10 * (lut[1] - lut[0]), 4);
+  });
+
+  it('interpolates between entries', () => {
+    const lut = buildCurveLut([{ x: 0, y: 0 }, { x: 255, y: 127.5 }]);
+    expect(sampleLut(lut, 100.5)).toBeCloseTo(50.25, 4);
+  });
+});
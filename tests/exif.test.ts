@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { PhotoMetadata } from '../types';
+import { buildTiff, embedExifInJpeg, embedExifInPng, parseExif, parseTiff } from '../services/exif';
+import { crc32 } from '../services/zip';
+
+const metadata: PhotoMetadata = {
+  make: 'Xiaomi',
+  model: 'Redmi Note 13 Pro',
+  lens: 'Main camera',
+  iso: 400,
+  exposureTime: 1 / 250,
+  fNumber: 1.65,
+  focalLength: 6.74,
+  focalLength35: 24,
+  dateTaken: '2024:05:17 18:42:07',
+  copyright: '© Ana Pérez',
+  gps: { latitude: -33.4569, longitude: -70.6483, altitude: 570 }
+};
+
+/** A JPEG with only a JFIF header and an empty scan: enough for the marker walk. */
+const jpeg = () => new Uint8Array([
+  0xff, 0xd8,
+  0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00,
+  0xff, 0xda, 0x00, 0x02, 0x12, 0x34,
+  0xff, 0xd9
+]);
+
+/** The PNG signature and an IHDR chunk for a 1x1 image. */
+const png = () => new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+  0x00, 0x00, 0x00, 0x0d, 0x49, 0x48, 0x44, 0x52, 0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0, 0x1f, 0x15, 0xc4, 0x89,
+  0x00, 0x00, 0x00, 0x00, 0x49, 0x45, 0x4e, 0x44, 0xae, 0x42, 0x60, 0x82
+]);
+
+const expectMetadata = (actual: PhotoMetadata | null) => {
+  const { gps, fNumber, focalLength, ...rest } = metadata;
+  expect(actual).toMatchObject({ ...rest, orientation: 1 });
+  expect(actual?.fNumber).toBeCloseTo(fNumber!, 4);
+  expect(actual?.focalLength).toBeCloseTo(focalLength!, 4);
+  expect(actual?.gps?.latitude).toBeCloseTo(gps!.latitude, 5);
+  expect(actual?.gps?.longitude).toBeCloseTo(gps!.longitude, 5);
+  expect(actual?.gps?.altitude).toBe(570);
+};
+
+describe('buildTiff', () => {
+  it('writes metadata that parseTiff reads back, with upright orientation', () => {
+    expectMetadata(parseTiff(buildTiff({ ...metadata, orientation: 6 })));
+  });
+
+  it('keeps shutter speeds as exact fractions', () => {
+    expect(parseTiff(buildTiff({ exposureTime: 1 / 3 }))?.exposureTime).toBe(1 / 3);
+  });
+
+  it('writes just the orientation for empty metadata', () => {
+    expect(parseTiff(buildTiff({}))).toEqual({ orientation: 1 });
+  });
+});
+
+describe('embedExifInJpeg', () => {
+  it('replaces the JFIF header with an EXIF segment and keeps the image data', () => {
+    const out = embedExifInJpeg(jpeg(), buildTiff(metadata));
+    expect(Array.from(out.subarray(0, 4))).toEqual([0xff, 0xd8, 0xff, 0xe1]);
+    expect(Array.from(out.subarray(-8))).toEqual(Array.from(jpeg().subarray(-8)));
+    expect(new TextDecoder('latin1').decode(out)).not.toContain('JFIF');
+    expectMetadata(parseExif(out));
+  });
+
+  it('replaces earlier EXIF instead of adding a second block', () => {
+    const once = embedExifInJpeg(jpeg(), buildTiff(metadata));
+    const twice = embedExifInJpeg(once, buildTiff({ make: 'Other' }));
+    expect(parseExif(twice)).toEqual({ make: 'Other', orientation: 1 });
+  });
+
+  it('refuses other files', () => {
+    expect(() => embedExifInJpeg(png(), buildTiff(metadata))).toThrow('Not a JPEG file.');
+    expect(parseExif(png())).toBeNull();
+  });
+});
+
+describe('embedExifInPng', () => {
+  it('inserts a checksummed eXIf chunk right after IHDR', () => {
+    const tiff = buildTiff(metadata);
+    const out = embedExifInPng(png(), tiff);
+    const view = new DataView(out.buffer);
+    expect(view.getUint32(33)).toBe(tiff.length);
+    expect(new TextDecoder().decode(out.subarray(37, 41))).toBe('eXIf');
+    expectMetadata(parseTiff(out.subarray(41, 41 + tiff.length)));
+    expect(view.getUint32(41 + tiff.length)).toBe(crc32(out.subarray(37, 41 + tiff.length)));
+    expect(Array.from(out.subarray(45 + tiff.length))).toEqual(Array.from(png().subarray(33)));
+  });
+});
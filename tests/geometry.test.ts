@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { Geometry } from '../types';
+import { INITIAL_GEOMETRY } from '../constants';
+import { applyGeometry, constrainCrop, createFrameMapper, flipGeometry, rotateGeometry } from '../services/geometry';
+import { createBuffer } from '../services/pixelBuffer';
+
+const geometry = (overrides: Partial<Geometry>): Geometry => ({ ...INITIAL_GEOMETRY, ...overrides });
+
+/** Same geometry, up to float rounding in the crop. */
+const expectSameGeometry = (actual: Geometry, expected: Geometry) => {
+  expect({ ...actual, crop: null }).toEqual({ ...expected, crop: null });
+  (['x', 'y', 'width', 'height'] as const).forEach(key => expect(actual.crop[key]).toBeCloseTo(expected.crop[key], 9));
+};
+
+describe('createFrameMapper', () => {
+  it.each([
+    ['quarter turn', geometry({ rotation: 90 })],
+    ['half turn and mirror', geometry({ rotation: 180, flipHorizontal: true })],
+    ['straightened crop', geometry({ rotation: 270, straighten: 7.5, crop: { x: 0.1, y: 0.2, width: 0.6, height: 0.5 } })]
+  ])('maps frame points back to themselves through the source (%s)', (_, g) => {
+    const mapper = createFrameMapper(g, 400, 300);
+    for (const [x, y] of [[0, 0], [mapper.width, 0], [37.5, 81.25], [mapper.width, mapper.height]]) {
+      const [fx, fy] = mapper.toFrame(...mapper.toSource(x, y));
+      expect(fx).toBeCloseTo(x, 6);
+      expect(fy).toBeCloseTo(y, 6);
+    }
+  });
+
+  it('swaps the frame size on quarter turns and sizes it to the crop', () => {
+    const mapper = createFrameMapper(geometry({ rotation: 90, crop: { x: 0, y: 0, width: 0.5, height: 1 } }), 400, 300);
+    expect([mapper.width, mapper.height]).toEqual([150, 400]);
+  });
+
+  it('puts the top-left of a clockwise turn at the bottom-left of the source', () => {
+    const [x, y] = createFrameMapper(geometry({ rotation: 90 }), 400, 300).toSource(0, 0);
+    expect(x).toBeCloseTo(0);
+    expect(y).toBeCloseTo(300);
+  });
+});
+
+describe('rotateGeometry and flipGeometry', () => {
+  const g = geometry({ straighten: 4, crop: { x: 0.1, y: 0.2, width: 0.3, height: 0.5 } });
+
+  it('return to the start after four turns or two flips', () => {
+    expectSameGeometry([1, 2, 3, 4].reduce(next => rotateGeometry(next, 1), g), g);
+    expectSameGeometry(rotateGeometry(rotateGeometry(g, 1), -1), g);
+    expectSameGeometry(flipGeometry(flipGeometry(g, 'horizontal'), 'horizontal'), g);
+    expectSameGeometry(flipGeometry(flipGeometry(g, 'vertical'), 'vertical'), g);
+  });
+
+  it('keep showing the same part of the photo', () => {
+    for (const next of [rotateGeometry(g, 1), rotateGeometry(g, -1), flipGeometry(g, 'horizontal'), flipGeometry(g, 'vertical')]) {
+      const before = createFrameMapper(g, 400, 300);
+      const after = createFrameMapper(next, 400, 300);
+      const center = (m: typeof before) => m.toSource(m.width / 2, m.height / 2);
+      expect(center(after)[0]).toBeCloseTo(center(before)[0], 4);
+      expect(center(after)[1]).toBeCloseTo(center(before)[1], 4);
+    }
+  });
+});
+
+describe('constrainCrop', () => {
+  it('keeps a straightened crop clear of the empty corners', () => {
+    const crop = constrainCrop({ x: 0, y: 0, width: 1, height: 1 }, 40, 30, 10);
+    expect(crop.width).toBeLessThan(1);
+    const input = createBuffer(40, 30);
+    input.data.fill(255);
+    const output = applyGeometry(input, geometry({ straighten: 10, crop }));
+    expect(output.data.filter((_, i) => i % 4 === 3).every(alpha => alpha > 0)).toBe(true);
+  });
+
+  it('moves crops back inside the frame without resizing them', () => {
+    expect(constrainCrop({ x: 0.8, y: -0.1, width: 0.5, height: 0.5 }, 400, 300, 0)).toEqual({ x: 0.5, y: 0, width: 0.5, height: 0.5 });
+  });
+});
+
+describe('applyGeometry', () => {
+  it('turns the pixels a quarter turn clockwise', () => {
+    const input = createBuffer(3, 2);
+    input.data.forEach((_, i) => (input.data[i] = i >> 2));
+    const output = applyGeometry(input, geometry({ rotation: 90 }));
+    expect([output.width, output.height]).toEqual([2, 3]);
+    // Pixels 0 1 2 / 3 4 5 become 3 0 / 4 1 / 5 2
+    expect(Array.from(output.data.filter((_, i) => i % 4 === 0))).toEqual([3, 0, 4, 1, 5, 2]);
+  });
+
+  it('returns the input when there is nothing to do', () => {
+    const input = createBuffer(2, 2);
+    expect(applyGeometry(input, INITIAL_GEOMETRY)).toBe(input);
+  });
+});
@@ -0,0 +1,65 @@
+import fs from 'fs';
+import path from 'path';
+import { PNG } from 'pngjs';
+import { describe, expect, it } from 'vitest';
+import { INITIAL_SETTINGS, PRESETS } from '../constants';
+import { RasterImage } from '../types';
+import { renderPipeline } from '../services/pipeline';
+import { fromRaster, toRaster } from '../services/pixelBuffer';
+
+/**
+ * Golden-image tests: every built-in preset is rendered on the fixtures in
+ * tests/fixtures and compared with the references in tests/golden. After an
+ * intended change to the look of a preset or a stage, regenerate the
+ * references with `UPDATE_GOLDEN=1 npm test` and review the new images.
+ */
+
+const FIXTURES = ['landscape', 'portrait'];
+const FIXTURE_DIR = path.join(__dirname, 'fixtures');
+const GOLDEN_DIR = path.join(__dirname, 'golden');
+const UPDATE = process.env.UPDATE_GOLDEN === '1';
+
+/** Rounding and float differences between platforms stay within these. */
+const MAX_DIFFERENCE = 2;
+const MEAN_DIFFERENCE = 0.1;
+
+const readPng = (file: string): RasterImage => {
+  const png = PNG.sync.read(fs.readFileSync(file));
+  return { width: png.width, height: png.height, data: new Uint8ClampedArray(png.data) };
+};
+
+const writePng = (file: string, image: RasterImage) => {
+  const png = new PNG({ width: image.width, height: image.height });
+  png.data = Buffer.from(image.data);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, PNG.sync.write(png));
+};
+
+/** Largest and mean per-channel difference, alpha included. */
+const compare = (actual: RasterImage, expected: RasterImage) => {
+  let max = 0;
+  let total = 0;
+  for (let i = 0; i < actual.data.length; i++) {
+    const difference = Math.abs(actual.data[i] - expected.data[i]);
+    if (difference > max) max = difference;
+    total += difference;
+  }
+  return { max, mean: total / actual.data.length };
+};
+
+describe.each(FIXTURES)('%s', fixture => {
+  const source = fromRaster(readPng(path.join(FIXTURE_DIR, `${fixture}.png`)));
+
+  it.each(Object.entries(PRESETS))('%s', (key, preset) => {
+    const rendered = toRaster(renderPipeline(source, { ...INITIAL_SETTINGS, ...preset.settings }));
+    const golden = path.join(GOLDEN_DIR, `${fixture}-${key}.png`);
+    if (UPDATE) writePng(golden, rendered);
+
+    expect(fs.existsSync(golden), `missing ${path.relative(process.cwd(), golden)}; run with UPDATE_GOLDEN=1`).toBe(true);
+    const expected = readPng(golden);
+    expect([rendered.width, rendered.height]).toEqual([expected.width, expected.height]);
+    const { max, mean } = compare(rendered, expected);
+    expect(max, `largest channel difference ${max}`).toBeLessThanOrEqual(MAX_DIFFERENCE);
+    expect(mean, `mean channel difference ${mean.toFixed(3)}`).toBeLessThanOrEqual(MEAN_DIFFERENCE);
+  });
+});
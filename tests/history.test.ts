@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { EditorSettings } from '../types';
+import { IDENTITY_CURVES, INITIAL_SETTINGS } from '../constants';
+import { diffSettings } from '../hooks/useEditHistory';
+
+const lut: EditorSettings['lut'] = { title: 'Teal', size: 2, domainMin: [0, 0, 0], domainMax: [1, 1, 1], table: new Float32Array(24) };
+
+describe('diffSettings', () => {
+  it('lists the changed fields, comparing nested ones by value', () => {
+    const a = { ...INITIAL_SETTINGS, curves: { ...IDENTITY_CURVES, red: [{ x: 0, y: 0 }, { x: 255, y: 255 }] } };
+    expect(diffSettings(a, INITIAL_SETTINGS)).toEqual([]);
+    const b = { ...a, contrast: 10, curves: { ...IDENTITY_CURVES, red: [{ x: 0, y: 20 }, { x: 255, y: 255 }] } };
+    expect(diffSettings(a, b)).toEqual(['contrast', 'curves']);
+  });
+
+  it('compares LUTs by identity', () => {
+    const withLut = { ...INITIAL_SETTINGS, lut };
+    expect(diffSettings(withLut, { ...withLut })).toEqual([]);
+    expect(diffSettings(withLut, { ...withLut, lut: { ...lut } })).toEqual(['lut']);
+  });
+});
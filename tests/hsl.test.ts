@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { HslMixer } from '../types';
+import { hslMixer, INITIAL_SETTINGS } from '../constants';
+import { renderPipeline } from '../services/pipeline';
+import { createBuffer } from '../services/pixelBuffer';
+
+/** Renders one row of pixels with only the HSL mixer active. */
+const renderHsl = (pixels: number[][], hsl: HslMixer) => {
+  const input = createBuffer(pixels.length, 1);
+  pixels.forEach((pixel, i) => input.data.set([...pixel, 255], i * 4));
+  const output = renderPipeline(input, { ...INITIAL_SETTINGS, hsl });
+  return pixels.map((_, i) => Array.from(output.data.subarray(i * 4, i * 4 + 3)));
+};
+
+const expectPixel = (actual: number[], expected: number[]) =>
+  expected.forEach((value, c) => expect(actual[c]).toBeCloseTo(value, 3));
+
+describe('hslStage', () => {
+  const moreBlue = hslMixer({ blue: { saturation: 10 } });
+
+  it('leaves pixels outside the adjusted band alone, even above 255', () => {
+    const [red, warmWhite, gray] = renderHsl([[306, 127, 127], [280, 270, 260], [300, 300, 300]], moreBlue);
+    expectPixel(red, [306, 127, 127]);
+    expectPixel(warmWhite, [280, 270, 260]);
+    expectPixel(gray, [300, 300, 300]);
+  });
+
+  it('adjusts the part of a pixel within range and keeps the excess', () => {
+    const [inRange, overRange] = renderHsl([[40, 90, 200], [40, 90, 300]], moreBlue);
+    expect(inRange[2]).toBeGreaterThan(200);
+    expect(inRange[0]).toBeLessThan(40);
+    // Same change as the in-range pixel with its blue capped at 255, plus the 45 above it
+    const [capped] = renderHsl([[40, 90, 255]], moreBlue);
+    expectPixel(overRange, [capped[0], capped[1], capped[2] + 45]);
+  });
+});
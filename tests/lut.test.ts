@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { Lut3D } from '../types';
+import { createLutSampler, parseCubeLut, serializeCubeLut } from '../services/lut';
+
+/** A `size`³ LUT whose entries map each lattice point through `map`. */
+const latticeLut = (size: number, map: (r: number, g: number, b: number) => number[]): Lut3D => {
+  const table = new Float32Array(size * size * size * 3);
+  let i = 0;
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        table.set(map(r / (size - 1), g / (size - 1), b / (size - 1)), i);
+        i += 3;
+      }
+    }
+  }
+  return { title: 'Test', size, domainMin: [0, 0, 0], domainMax: [1, 1, 1], table };
+};
+
+const cube = (...lines: string[]) => lines.join('\n');
+
+describe('parseCubeLut', () => {
+  it('reads the title, size, domain and table, skipping comments and unknown keywords', () => {
+    const lut = parseCubeLut(cube(
+      '# made by hand',
+      'TITLE "Warm"',
+      'LUT_3D_SIZE 2',
+      'DOMAIN_MIN 0 0 0',
+      'DOMAIN_MAX 1 2 1',
+      'LUT_IN_VIDEO_RANGE',
+      '0 0 0', '1 0 0', '0 1 0', '1 1 0',
+      '0 0 1', '1 0 1', '0 1 1', '1 1 1'
+    ), 'fallback');
+    expect(lut.title).toBe('Warm');
+    expect(lut.size).toBe(2);
+    expect(lut.domainMax).toEqual([1, 2, 1]);
+    expect(Array.from(lut.table.slice(3, 6))).toEqual([1, 0, 0]);
+  });
+
+  it('falls back to the given title and accepts Windows line endings', () => {
+    const lut = parseCubeLut(['LUT_3D_SIZE 2', ...Array(8).fill('0.5 0.5 0.5')].join('\r\n'), 'file');
+    expect(lut.title).toBe('file');
+    expect(lut.table).toHaveLength(24);
+  });
+
+  it('rejects tables of the wrong length', () => {
+    expect(() => parseCubeLut(cube('LUT_3D_SIZE 2', '0 0 0'), 'x')).toThrow('LUT has 1 entries, expected 8');
+  });
+
+  it('rejects 1D LUTs, a missing size and unreadable lines', () => {
+    expect(() => parseCubeLut(cube('LUT_1D_SIZE 16'), 'x')).toThrow('1D LUTs are not supported');
+    expect(() => parseCubeLut(cube('0 0 0'), 'x')).toThrow('Missing LUT_3D_SIZE');
+    expect(() => parseCubeLut(cube('LUT_3D_SIZE 2', '0 zero 0'), 'x')).toThrow('Invalid .cube line');
+    expect(() => parseCubeLut(cube('LUT_3D_SIZE 1'), 'x')).toThrow('Unsupported LUT size');
+  });
+
+  it('reads back what serializeCubeLut writes', () => {
+    const lut = latticeLut(3, (r, g, b) => [b, r, g]);
+    const parsed = parseCubeLut(serializeCubeLut(lut), 'x');
+    expect(parsed.title).toBe(lut.title);
+    expect(parsed.size).toBe(3);
+    expect(Array.from(parsed.table)).toEqual(Array.from(lut.table));
+  });
+});
+
+describe('createLutSampler', () => {
+  const out = new Float32Array(3);
+
+  it.each(['trilinear', 'tetrahedral'] as const)('leaves colors unchanged through an identity LUT (%s)', interpolation => {
+    const sample = createLutSampler(latticeLut(5, (r, g, b) => [r, g, b]), interpolation);
+    for (const color of [[0, 0, 0], [1, 1, 1], [0.2, 0.7, 0.4], [0.9, 0.05, 0.55]]) {
+      sample(color[0], color[1], color[2], out);
+      color.forEach((value, c) => expect(out[c]).toBeCloseTo(value, 5));
+    }
+  });
+
+  it('returns the table entry on lattice points and clamps outside the domain', () => {
+    const sample = createLutSampler(latticeLut(3, (r, g, b) => [1 - r, 1 - g, 1 - b]), 'tetrahedral');
+    sample(0.5, 0, 1, out);
+    expect(Array.from(out)).toEqual([0.5, 1, 0]);
+    sample(-1, 2, 0.5, out);
+    expect(Array.from(out)).toEqual([1, 0, 0.5]);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { PresetConfig } from '../types';
+import { IDENTITY_CURVES } from '../constants';
+import { parsePresetPack, sanitizePresetSettings, serializePresetPack } from '../services/presets';
+
+const preset = (overrides: Partial<PresetConfig> = {}): PresetConfig => ({
+  name: 'Golden hour',
+  color: '#ff8800',
+  settings: { exposure: 10, temp: 35, vignette: 20 },
+  ...overrides
+});
+
+describe('sanitizePresetSettings', () => {
+  it('keeps known settings, clamped to their ranges, and drops the rest', () => {
+    expect(sanitizePresetSettings({ exposure: 250, contrast: -12, sharpness: -5, bogus: 3, temp: '20' }))
+      .toEqual({ exposure: 100, contrast: -12, sharpness: 0 });
+  });
+
+  it('sorts curve points and fills in the channels a preset leaves out', () => {
+    const { curves } = sanitizePresetSettings({ curves: { red: [{ x: 255, y: 240 }, { x: 0, y: 20 }, { x: 'a', y: 1 }] } });
+    expect(curves).toEqual({ ...IDENTITY_CURVES, red: [{ x: 0, y: 20 }, { x: 255, y: 240 }] });
+  });
+
+  it('drops photo-specific settings', () => {
+    expect(sanitizePresetSettings({ geometry: { rotation: 90 }, masks: [{}], lut: { size: 2 } })).toEqual({});
+  });
+});
+
+describe('preset packs', () => {
+  it('read back what serializePresetPack writes', () => {
+    const presets = [preset(), preset({ name: 'Cold', color: '#0088ff', settings: { temp: -40 } })];
+    expect(parsePresetPack(serializePresetPack(presets))).toEqual(presets);
+  });
+
+  it('accept a single exported preset and skip invalid entries', () => {
+    expect(parsePresetPack(JSON.stringify(preset()))).toEqual([preset()]);
+    const pack = JSON.parse(serializePresetPack([preset()]));
+    pack.presets.push({ name: '  ', settings: {} }, 'nope', { name: 'No color', color: 'red' });
+    expect(parsePresetPack(JSON.stringify(pack)).map(p => [p.name, p.color]))
+      .toEqual([['Golden hour', '#ff8800'], ['No color', '#ea580c']]);
+  });
+
+  it('reject files that are not packs', () => {
+    expect(() => parsePresetPack('{')).toThrow('Preset pack is not valid JSON');
+    expect(() => parsePresetPack('[]')).toThrow('Not a preset pack');
+    const pack = JSON.parse(serializePresetPack([preset()]));
+    expect(() => parsePresetPack(JSON.stringify({ ...pack, version: pack.version + 1 }))).toThrow('Unsupported preset pack version');
+    expect(() => parsePresetPack(JSON.stringify({ ...pack, presets: undefined }))).toThrow('Preset pack has no presets');
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { EditorSettings } from '../types';
+import { INITIAL_GEOMETRY, INITIAL_SETTINGS } from '../constants';
+import { EDIT_FORMAT_VERSION, parseSidecar, readSettings, serializeSidecar, sidecarFileName } from '../services/sidecar';
+
+const source = { name: 'IMG_0001.jpg', width: 4000, height: 3000 };
+
+const edited: EditorSettings = {
+  ...INITIAL_SETTINGS,
+  contrast: 20,
+  vignette: 35,
+  lut: {
+    title: 'Teal',
+    size: 2,
+    domainMin: [0, 0, 0],
+    domainMax: [1, 1, 1],
+    table: Float32Array.from([0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 1, 0, 0, 0, 1, 1, 0, 1, 0, 1, 1, 0.5, 0.75, 1])
+  },
+  geometry: { ...INITIAL_GEOMETRY, rotation: 90, straighten: -3, crop: { x: 0.1, y: 0.1, width: 0.8, height: 0.6 } },
+  masks: [{
+    id: 4,
+    name: 'Sky',
+    kind: 'linear',
+    enabled: true,
+    inverted: false,
+    adjustments: { highlights: -40 },
+    start: { x: 0.5, y: 0 },
+    end: { x: 0.5, y: 0.4 }
+  }]
+};
+
+const sidecarWith = (fields: Record<string, unknown>) =>
+  JSON.stringify({ ...JSON.parse(serializeSidecar(edited, source)), ...fields });
+
+describe('sidecar files', () => {
+  it('reproduce the edit and the photo it was made on', () => {
+    expect(parseSidecar(serializeSidecar(edited, source))).toEqual({ settings: edited, source });
+  });
+
+  it('fill in missing settings and drop invalid ones', () => {
+    const { settings } = parseSidecar(sidecarWith({
+      settings: { exposure: 500, masks: [{ kind: 'blob' }], geometry: { rotation: 45 } }
+    }));
+    expect(settings).toEqual({ ...INITIAL_SETTINGS, exposure: 100 });
+  });
+
+  it('give unedited photos the shared initial settings', () => {
+    expect(parseSidecar(serializeSidecar(INITIAL_SETTINGS, source)).settings).toBe(INITIAL_SETTINGS);
+  });
+
+  it('reject other files and newer versions', () => {
+    expect(() => parseSidecar('nope')).toThrow('Edit file is not valid JSON');
+    expect(() => parseSidecar(JSON.stringify({ format: 'other' }))).toThrow('Not an edit file');
+    expect(() => parseSidecar(sidecarWith({ version: undefined }))).toThrow('Missing edit format version');
+    expect(() => parseSidecar(sidecarWith({ version: EDIT_FORMAT_VERSION + 1 }))).toThrow('is newer than this app supports');
+  });
+
+  it('are named after the photo', () => {
+    expect(sidecarFileName('IMG_0001.jpg')).toBe('IMG_0001.redmi.json');
+    expect(sidecarFileName('holiday.final.png')).toBe('holiday.final.redmi.json');
+  });
+});
+
+describe('readSettings', () => {
+  it('reads settings stored at the current version as they are', () => {
+    expect(readSettings({ ...edited, lut: null }, EDIT_FORMAT_VERSION)).toEqual({ ...edited, lut: null });
+  });
+});
+
+describe('version 1 edits', () => {
+  it('keep the exposure and white balance they had before linear-light processing', () => {
+    const settings = readSettings({ exposure: 50, temp: 100, tint: -40 }, 1);
+    expect([settings.exposure, settings.temp, settings.tint]).toEqual([55, 87, -37]);
+  });
+
+  it('convert the same adjustments in masks', () => {
+    const settings = readSettings({ masks: [{ ...edited.masks[0], adjustments: { exposure: 50, temp: 100, contrast: 10 } }] }, 1);
+    expect(settings.masks[0].adjustments).toEqual({ exposure: 55, temp: 87, contrast: 10 });
+  });
+
+  it('leave neutral values and other settings alone', () => {
+    expect(readSettings({ exposure: 0, temp: 0, contrast: 30 }, 1)).toEqual({ ...INITIAL_SETTINGS, contrast: 30 });
+  });
+});
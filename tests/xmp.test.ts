@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { parseXmpPreset } from '../services/xmp';
+
+const xmp = (attributes: string, body = '') => `<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about="" xmlns:crs="http://ns.adobe.com/camera-raw-settings/1.0/"
+   crs:Version="15.0" crs:ProcessVersion="11.0" ${attributes}>
+   ${body}
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>`;
+
+describe('parseXmpPreset', () => {
+  it('converts Lightroom sliders to this editor and clamps them', () => {
+    const { preset, ignored } = parseXmpPreset(xmp(
+      'crs:Exposure2012="+0.50" crs:Contrast2012="+25" crs:Highlights2012="-40" crs:IncrementalTemperature="12" ' +
+      'crs:PostCropVignetteAmount="-30" crs:Sharpness="300" crs:Vibrance="0"'
+    ), 'Fallback');
+    expect(preset.name).toBe('Fallback');
+    expect(preset.settings).toMatchObject({ exposure: 25, contrast: 25, highlights: -40, temp: 12, vignette: 30, sharpness: 100, vibrance: 0 });
+    expect(ignored).toEqual([]);
+  });
+
+  it('reads the preset name, tone curves and HSL adjustments', () => {
+    const { preset } = parseXmpPreset(xmp('crs:SaturationAdjustmentBlue="-20" crs:HueAdjustmentOrange="5"', `
+   <crs:Name><rdf:Alt><rdf:li xml:lang="x-default">Film &amp; Fade</rdf:li></rdf:Alt></crs:Name>
+   <crs:ToneCurvePV2012><rdf:Seq><rdf:li>0, 30</rdf:li><rdf:li>128, 128</rdf:li><rdf:li>255, 235</rdf:li></rdf:Seq></crs:ToneCurvePV2012>
+   <crs:ToneCurvePV2012Red><rdf:Seq><rdf:li>0, 0</rdf:li><rdf:li>255, 255</rdf:li></rdf:Seq></crs:ToneCurvePV2012Red>`), 'Fallback');
+    expect(preset.name).toBe('Film & Fade');
+    expect(preset.settings.curves?.master).toEqual([{ x: 0, y: 30 }, { x: 128, y: 128 }, { x: 255, y: 235 }]);
+    expect(preset.settings.curves?.red).toEqual([{ x: 0, y: 0 }, { x: 255, y: 255 }]);
+    expect(preset.settings.hsl?.blue).toEqual({ hue: 0, saturation: -20, luminance: 0 });
+    expect(preset.settings.hsl?.orange).toEqual({ hue: 5, saturation: 0, luminance: 0 });
+  });
+
+  it('reports fields it cannot apply, unless they are neutral or descriptive', () => {
+    const { ignored } = parseXmpPreset(xmp(
+      'crs:Texture="15" crs:LensProfileEnable="1" crs:AutoLateralCA="0" crs:Copyright="Me" crs:ParametricShadows="-10"'
+    ), 'x');
+    expect(ignored).toEqual(['LensProfileEnable', 'ParametricShadows', 'Texture']);
+  });
+
+  it('rejects files without Camera Raw settings', () => {
+    expect(() => parseXmpPreset('<x:xmpmeta><rdf:RDF/></x:xmpmeta>', 'x')).toThrow('Not a Lightroom preset');
+  });
+});
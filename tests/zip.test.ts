@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from '../services/zip';
+
+const encoder = new TextEncoder();
+
+describe('createZip', () => {
+  it('stores each entry with its name, size and checksum, and a central directory to find them', async () => {
+    // CRC-32 check value of "123456789", and of no bytes at all
+    const entries = [
+      { name: 'check.txt', data: new Blob(['123456789']), crc: 0xcbf43926 },
+      { name: 'fotos/vacío ñ.jpg', data: new Blob([]), crc: 0 }
+    ];
+    const zip = await createZip(entries, new Date(2024, 4, 17, 10, 30, 20));
+    expect(zip.type).toBe('application/zip');
+    const bytes = new Uint8Array(await zip.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    let record = view.getUint32(end + 16, true);
+
+    for (const entry of entries) {
+      const data = new Uint8Array(await entry.data.arrayBuffer());
+      const name = encoder.encode(entry.name);
+      expect(view.getUint32(record, true)).toBe(0x02014b50);
+      expect(view.getUint32(record + 16, true)).toBe(entry.crc);
+      expect(view.getUint32(record + 24, true)).toBe(data.length);
+      expect(bytes.subarray(record + 46, record + 46 + name.length)).toEqual(name);
+
+      const local = view.getUint32(record + 42, true);
+      expect(view.getUint32(local, true)).toBe(0x04034b50);
+      expect(view.getUint32(local + 14, true)).toBe(entry.crc);
+      // Stored, with UTF-8 names
+      expect(view.getUint16(local + 8, true)).toBe(0);
+      expect(view.getUint16(local + 6, true) & 0x0800).toBe(0x0800);
+      // 10:30:20 on 2024-05-17 in DOS format
+      expect(view.getUint16(local + 10, true)).toBe((10 << 11) | (30 << 5) | 10);
+      expect(view.getUint16(local + 12, true)).toBe(((2024 - 1980) << 9) | (5 << 5) | 17);
+      const start = local + 30 + name.length;
+      expect(bytes.subarray(start, start + data.length)).toEqual(data);
+
+      record += 46 + name.length;
+    }
+  });
+
+  it('writes an empty archive as just the end record', async () => {
+    const zip = await createZip([]);
+    expect(zip.size).toBe(22);
+  });
+});
@@ -1,5 +1,161 @@
 
+/** Curve control point; both axes are 0-255. */
+export interface CurvePoint {
+  x: number;
+  y: number;
+}
+
+export interface ToneCurves {
+  /** Composite curve, applied to all channels before the per-channel curves. */
+  master: CurvePoint[];
+  red: CurvePoint[];
+  green: CurvePoint[];
+  blue: CurvePoint[];
+}
+
+export type CurveChannel = keyof ToneCurves;
+
+export type HueBand = 'red' | 'orange' | 'yellow' | 'green' | 'aqua' | 'blue' | 'purple' | 'magenta';
+
+/** Per-band adjustment, each field -100..100. */
+export interface HslAdjustment {
+  hue: number;
+  saturation: number;
+  luminance: number;
+}
+
+export type HslMixer = Record<HueBand, HslAdjustment>;
+
+export type GradingRange = 'shadows' | 'midtones' | 'highlights';
+
+/** One color wheel: hue in degrees (0–360), saturation 0–100, luminance -100..100. */
+export interface GradingWheel {
+  hue: number;
+  saturation: number;
+  luminance: number;
+}
+
+/** Three-way color grading; split toning is the shadows and highlights wheels alone. */
+export interface ColorGrading extends Record<GradingRange, GradingWheel> {
+  /** -100..100; positive values widen the highlights range at the expense of the shadows. */
+  balance: number;
+  /** 0–100; how far the three ranges overlap. */
+  blending: number;
+}
+
+/** Crop rectangle normalized (0-1) to the rotated/flipped frame. */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type QuarterTurn = 0 | 90 | 180 | 270;
+
+export type AspectRatioKey = 'free' | 'original' | '1:1' | '4:5' | '3:2' | '16:9' | '9:16';
+
+/**
+ * Non-destructive framing applied before the pixel pipeline: the source is
+ * rotated clockwise by `rotation`, optionally mirrored, straightened around
+ * the frame center and finally cropped.
+ */
+export interface Geometry {
+  rotation: QuarterTurn;
+  flipHorizontal: boolean;
+  /** Degrees, -45..45, clockwise. */
+  straighten: number;
+  crop: CropRect;
+  aspect: AspectRatioKey;
+}
+
+/** Point normalized (0-1) to the unrotated, uncropped source image. */
+export interface MaskPoint {
+  x: number;
+  y: number;
+}
+
+export type LocalAdjustmentKey =
+  | 'exposure' | 'contrast' | 'shadows' | 'highlights' | 'whites'
+  | 'temp' | 'tint' | 'saturation' | 'clarity' | 'sharpness';
+
+export type LocalAdjustments = Partial<Record<LocalAdjustmentKey, number>>;
+
+export interface BrushStroke {
+  points: MaskPoint[];
+  /** Brush radius as a fraction of the source width. */
+  size: number;
+  /** 0 = hard edge, 1 = soft edge. */
+  feather: number;
+  erase: boolean;
+}
+
+interface MaskBase {
+  id: number;
+  name: string;
+  enabled: boolean;
+  inverted: boolean;
+  adjustments: LocalAdjustments;
+}
+
+/** Full effect at `start`, fading out to nothing at `end`. */
+export interface LinearMask extends MaskBase {
+  kind: 'linear';
+  start: MaskPoint;
+  end: MaskPoint;
+}
+
+/** Ellipse; radii are fractions of the source width/height. */
+export interface RadialMask extends MaskBase {
+  kind: 'radial';
+  center: MaskPoint;
+  radiusX: number;
+  radiusY: number;
+  feather: number;
+}
+
+export interface BrushMask extends MaskBase {
+  kind: 'brush';
+  strokes: BrushStroke[];
+}
+
+export type LocalMask = LinearMask | RadialMask | BrushMask;
+
+export type RetouchMode = 'heal' | 'clone';
+
+/**
+ * A retouched spot: the area painted along `points` is replaced by the
+ * pixels `offset` away from it. Healing keeps the source's texture but
+ * matches its color and brightness to the spot's surroundings.
+ */
+export interface RetouchSpot {
+  id: number;
+  mode: RetouchMode;
+  points: MaskPoint[];
+  /** Brush radius as a fraction of the source width. */
+  size: number;
+  /** 0 = hard edge, 1 = soft edge. */
+  feather: number;
+  /** 0–100. */
+  opacity: number;
+  /** From the spot to its source, as fractions of the source width/height. */
+  offset: MaskPoint;
+}
+
+export type LutInterpolation = 'trilinear' | 'tetrahedral';
+
+/** A parsed .cube 3D LUT: `size`³ RGB triples, red varying fastest. */
+export interface Lut3D {
+  title: string;
+  size: number;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  table: Float32Array;
+}
+
 export interface EditorSettings {
+  /** Positive removes haze, negative adds atmosphere. */
+  dehaze: number;
   exposure: number;
   contrast: number;
   shadows: number;
@@ -9,9 +165,39 @@ export interface EditorSettings {
   tint: number;
   saturation: number;
   vibrance: number;
+  /** Luminance noise reduction strength. */
+  noiseReduction: number;
+  /** 0 smooths all fine texture, 100 keeps as much detail as possible. */
+  noiseDetail: number;
+  colorNoiseReduction: number;
+  colorNoiseDetail: number;
   sharpness: number;
+  /** Unsharp-mask radius in full-resolution pixels (0.5–3). */
+  sharpenRadius: number;
+  /** 0 suppresses halos on strong edges, 100 sharpens fine texture fully. */
+  sharpenDetail: number;
+  /** Restricts sharpening to edges; 0 sharpens everywhere. */
+  sharpenMasking: number;
   clarity: number;
   vignette: number;
+  grainAmount: number;
+  /** Grain particle size, 0–100 (about 1–5 full-resolution pixels). */
+  grainSize: number;
+  /** 0 gives even, soft grain; 100 mixes in a finer, irregular layer. */
+  grainRoughness: number;
+  /** Picks the grain pattern; the same seed always renders the same grain. */
+  grainSeed: number;
+  lut: Lut3D | null;
+  /** How much of the LUT's result is mixed in (0–100). */
+  lutIntensity: number;
+  lutInterpolation: LutInterpolation;
+  curves: ToneCurves;
+  hsl: HslMixer;
+  grading: ColorGrading;
+  geometry: Geometry;
+  masks: LocalMask[];
+  /** Applied to the source, in order, before framing and the pixel pipeline. */
+  spots: RetouchSpot[];
 }
 
 export type PresetType = 
@@ -27,8 +213,281 @@ export type PresetType =
   | 'selfie'
   | 'reset';
 
+export type BuiltInPresetKey = Exclude<PresetType, 'reset'>;
+
+export interface SourceImage {
+  file: Blob;
+  width: number;
+  height: number;
+}
+
+export interface GpsPosition {
+  /** Decimal degrees, negative south / west. */
+  latitude: number;
+  longitude: number;
+  /** Meters above sea level. */
+  altitude?: number;
+}
+
+/** The EXIF fields the editor reads, shows and writes back on export. */
+export interface PhotoMetadata {
+  make?: string;
+  model?: string;
+  lensMake?: string;
+  lens?: string;
+  iso?: number;
+  /** Seconds. */
+  exposureTime?: number;
+  fNumber?: number;
+  /** Millimeters, and the 35 mm equivalent. */
+  focalLength?: number;
+  focalLength35?: number;
+  /** EXIF date format, "YYYY:MM:DD HH:MM:SS". */
+  dateTaken?: string;
+  artist?: string;
+  copyright?: string;
+  software?: string;
+  /** EXIF Orientation (1–8); pixels are decoded upright, so exports write 1. */
+  orientation?: number;
+  gps?: GpsPosition;
+}
+
+/** A photo in the filmstrip, with its own edit. */
+export interface Photo extends SourceImage {
+  id: number;
+  name: string;
+  /** Object URL of a small JPEG of the unedited photo. */
+  thumbnail: string;
+  metadata: PhotoMetadata | null;
+  settings: EditorSettings;
+}
+
+export type HistorySource = 'load' | 'slider' | 'geometry' | 'mask' | 'retouch' | 'preset' | 'lut' | 'sync' | 'import' | 'ai' | 'reset' | 'snapshot';
+
+export interface HistoryEntry {
+  id: number;
+  source: HistorySource;
+  label: string;
+  settings: EditorSettings;
+  /** Consecutive commits with the same key (e.g. one slider drag) collapse into this entry. */
+  mergeKey?: string;
+}
+
+export interface Snapshot {
+  id: number;
+  name: string;
+  settings: EditorSettings;
+  createdAt: number;
+}
+
 export interface PresetConfig {
   name: string;
   color: string;
   settings: Partial<EditorSettings>;
 }
+
+/** A preset shipped with the app; its name comes from the active locale's messages. */
+export interface BuiltInPreset {
+  icon: string;
+  color: string;
+  settings: Partial<EditorSettings>;
+}
+
+export type ExportFormat = 'jpeg' | 'png' | 'webp';
+
+export type OutputSharpening = 'none' | 'screen' | 'print';
+
+export interface ExportResize {
+  mode: 'original' | 'longEdge' | 'percent';
+  /** Target long edge in pixels, for 'longEdge'. */
+  longEdge: number;
+  /** Target size relative to the full-resolution frame, for 'percent'. */
+  percent: number;
+}
+
+/** Steps applied to a full-resolution render before it is encoded. */
+export interface OutputOptions {
+  resize: ExportResize;
+  sharpening: OutputSharpening;
+  /** Adds ±1 level of noise before quantizing to 8 bits so smooth gradients don't band. */
+  dither: boolean;
+  /** Space the file is encoded in; Display P3 falls back to sRGB where unsupported. */
+  colorSpace: PredefinedColorSpace;
+}
+
+/** Which of the photo's metadata an export keeps. */
+export type MetadataMode = 'all' | 'noGps' | 'none';
+
+/** Export dialog choices, remembered between sessions. */
+export interface ExportSettings extends OutputOptions {
+  format: ExportFormat;
+  /** Encoder quality 1–100 (ignored by PNG). */
+  quality: number;
+  fileNameTemplate: string;
+  metadata: MetadataMode;
+  /** Written into every export when set, replacing the camera's value. */
+  artist: string;
+  copyright: string;
+}
+
+/** A preset saved or imported by the user, persisted in local storage. */
+export interface UserPreset extends PresetConfig {
+  id: number;
+  createdAt: number;
+}
+
+export type NumericSettingKey = {
+  [K in keyof EditorSettings]: EditorSettings[K] extends number ? K : never
+}[keyof EditorSettings];
+
+/** Global sliders Masterpiece AI may set. */
+export type AiSettingKey =
+  | 'dehaze' | 'exposure' | 'contrast' | 'shadows' | 'highlights' | 'whites' | 'temp' | 'tint'
+  | 'saturation' | 'vibrance' | 'sharpness' | 'clarity' | 'vignette';
+
+export type AiSettings = Pick<EditorSettings, AiSettingKey>;
+
+/** A backend that proposes an edit for a photo (Masterpiece AI). */
+export interface AiProvider {
+  id: string;
+  label: string;
+  /**
+   * The raw suggestion; it is untrusted until it passes `validateAiSettings`.
+   * `locale` is the UI language, for providers that are sent a prompt.
+   */
+  suggest: (image: RasterImage, locale: Locale) => Promise<unknown>;
+}
+
+/**
+ * 8-bit RGBA raster, structurally compatible with `ImageData` so the
+ * pipeline can consume canvas pixels without depending on the DOM.
+ */
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+  /** Space the values are in; sRGB when absent. */
+  colorSpace?: PredefinedColorSpace;
+}
+
+/** Float RGBA working buffer (0-255 per channel, unclamped between stages). */
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+/** 256-bin histograms of the rendered output. */
+export interface Histogram {
+  luminance: Uint32Array;
+  red: Uint32Array;
+  green: Uint32Array;
+  blue: Uint32Array;
+}
+
+/** Per-column level counts for an RGB parade, `columns * levels` bins per channel. */
+export interface Waveform {
+  columns: number;
+  levels: number;
+  red: Uint32Array;
+  green: Uint32Array;
+  blue: Uint32Array;
+}
+
+export interface AnalysisOptions {
+  waveform: boolean;
+  clipping: boolean;
+}
+
+export interface PreviewResult {
+  image: RasterImage;
+  histogram: Histogram;
+  waveform?: Waveform;
+  /** One entry per pixel, see CLIP_HIGHLIGHT / CLIP_SHADOW in services/analysis.ts. */
+  clipping?: Uint8Array;
+  /** Part of the frame the image covers when only a region was rendered. */
+  region?: FrameRegion;
+}
+
+/** How the unedited photo is shown next to the result. */
+export type CompareMode = 'off' | 'split' | 'side';
+
+/** Language of the interface (and of the prompt sent to the AI). */
+export type Locale = 'es' | 'en';
+
+/** Why a user file (LUT, edit sidecar, preset) could not be read, with what its message needs. */
+export type FileErrorDetail =
+  | { code: 'lutLine'; line: string }
+  | { code: 'lutSize'; size: string }
+  | { code: 'lut1d' }
+  | { code: 'lutMissingSize' }
+  | { code: 'lutEntries'; found: number; expected: number }
+  | { code: 'lutDomain' }
+  | { code: 'editNotJson' }
+  | { code: 'editNotEdit' }
+  | { code: 'editMissingVersion' }
+  | { code: 'editNewerVersion'; version: number }
+  | { code: 'packNotJson' }
+  | { code: 'packVersion' }
+  | { code: 'packEmpty' }
+  | { code: 'packNotPack' }
+  | { code: 'xmpNotPreset' };
+
+/** Editor command reachable from the keyboard. */
+export type ShortcutAction =
+  | 'nextSlider' | 'previousSlider' | 'toggleCompare' | 'holdOriginal' | 'applyPreset' | 'undo' | 'redo' | 'export' | 'help';
+
+/**
+ * Keys that trigger an action, as "Mod+Shift+E"-style combos where Mod is
+ * Ctrl (⌘ on Mac). An action with several keys gets the matching key's
+ * index, e.g. the preset a digit applies.
+ */
+export interface Shortcut {
+  action: ShortcutAction;
+  keys: string[];
+}
+
+/** Rectangle in normalized (0-1) coordinates of the framed output. */
+export interface FrameRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Rectangle in pixels. */
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Color of the haze, linear RGB (0–1). */
+export type AtmosphericLight = [number, number, number];
+
+export interface RenderContext {
+  /** Unedited (already framed) input of the pipeline at the current render resolution. */
+  source: PixelBuffer;
+  /** Render resolution relative to the full-size image (1 = full resolution). */
+  scale: number;
+  /** Size of the buffer the geometry was applied to, for mapping frame pixels back to the photo. */
+  sourceWidth: number;
+  sourceHeight: number;
+  /**
+   * Offset of the buffer's top-left corner in the full frame, and the full
+   * frame's size, in render pixels. Region renders cover only part of it.
+   */
+  frame: PixelRect;
+  /**
+   * Atmospheric light of the whole frame, for region renders; the dehaze
+   * stage estimates it from its input when absent.
+   */
+  atmosphere?: AtmosphericLight;
+}
+
+export interface PipelineStage {
+  name: string;
+  isActive: (settings: EditorSettings) => boolean;
+  apply: (input: PixelBuffer, settings: EditorSettings, context: RenderContext) => PixelBuffer;
+}